@@ -0,0 +1,18 @@
+import { handle } from "@/lib/server/http";
+import { assertDateAllowed, requireUser } from "@/lib/server/auth";
+import { closeDay } from "@/lib/server/daily";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/daily-records/2024-05-01/close -> 締め: the day becomes read-only
+export function POST(req: Request, { params }: { params: { date: string } }) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    const date = dateISO(params.date, "date");
+    await assertDateAllowed(user, date);
+    const store = await storeFrom(req);
+    return { record: await closeDay(store.id, date) };
+  });
+}
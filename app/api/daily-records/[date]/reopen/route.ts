@@ -0,0 +1,19 @@
+import { badRequest, handle, readBody } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { reopenDay } from "@/lib/server/daily";
+import { dateISO, str } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/daily-records/2024-05-01/reopen { reason } -> a manager reopens a closed day (logged under their name)
+export function POST(req: Request, { params }: { params: { date: string } }) {
+  return handle(async () => {
+    const user = await requireManager(req, "reopen a closed day");
+    const body = await readBody(req);
+    const reason = str(body.reason, "reason");
+    if (!reason) badRequest("reason is required");
+    const store = await storeFrom(req);
+    return { record: await reopenDay(store.id, dateISO(params.date, "date"), { by: user.name, reason }) };
+  });
+}
@@ -0,0 +1,15 @@
+import { handle } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { getDay } from "@/lib/server/daily";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/daily-records/2024-05-01 -> server copy of that day (empty if never saved)
+export function GET(req: Request, { params }: { params: { date: string } }) {
+  return handle(async () => {
+    await requireUser(req);
+    return { record: await getDay((await storeFrom(req)).id, dateISO(params.date, "date")) };
+  });
+}
@@ -0,0 +1,19 @@
+import { badRequest, handle } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { listDays } from "@/lib/server/daily";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/daily-records?from=2024-05-01&to=2024-05-31 -> saved days in the range (days never saved are left out)
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const params = new URL(req.url).searchParams;
+    const from = dateISO(params.get("from"), "from");
+    const to = dateISO(params.get("to") ?? from, "to");
+    if (to < from) badRequest("to must not be before from");
+    return { records: await listDays((await storeFrom(req)).id, from, to) };
+  });
+}
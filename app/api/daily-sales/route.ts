@@ -0,0 +1,21 @@
+import { handle, readBody } from "@/lib/server/http";
+import { assertDateAllowed, requireUser } from "@/lib/server/auth";
+import { parseBaseSavedAt, parseJournal, parseSales, saveSales } from "@/lib/server/daily";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/daily-sales  { dateISO, sales, baseSavedAt?, journal? }  -> replaces that day's sales
+export function POST(req: Request) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    const body = await readBody(req);
+    const date = dateISO(body.dateISO);
+    await assertDateAllowed(user, date);
+    const lines = await parseSales(body.sales);
+    const journal = await parseJournal(body.journal, "sales");
+    const store = await storeFrom(req);
+    return { record: await saveSales(store.id, date, lines, parseBaseSavedAt(body.baseSavedAt), { user, journal }) };
+  });
+}
@@ -0,0 +1,36 @@
+import { handle, readBody } from "@/lib/server/http";
+import { assertDateAllowed, requireUser } from "@/lib/server/auth";
+import { addDeliveries, listDeliveries, parseDeliveries } from "@/lib/server/inventory";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/deliveries[?from=&to=]
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const params = new URL(req.url).searchParams;
+    const from = params.get("from");
+    const to = params.get("to");
+    const store = await storeFrom(req);
+    return {
+      deliveries: await listDeliveries(
+        store.id,
+        from ? dateISO(from, "from") : undefined,
+        to ? dateISO(to, "to") : undefined
+      ),
+    };
+  });
+}
+
+// POST /api/deliveries { dateISO, supplierId?, invoiceNo?, lines: [{ wineId, bottles, unitCost? }] }
+export function POST(req: Request) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    const body = await readBody(req);
+    await assertDateAllowed(user, dateISO(body.dateISO));
+    const store = await storeFrom(req);
+    return { deliveries: await addDeliveries(store.id, await parseDeliveries(body)) };
+  });
+}
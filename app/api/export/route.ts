@@ -0,0 +1,46 @@
+import { badRequest, errorResponse } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { buildSheets, SHEET_NAMES, type SheetKey, toCsv, toXlsx } from "@/lib/server/export";
+import { storeFrom } from "@/lib/server/stores";
+import { dateISO } from "@/lib/server/validate";
+import { DEFAULT_STORE_ID } from "@/lib/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/export?from=2024-05-01&to=2024-05-31&format=xlsx            -> workbook with every sheet
+// GET /api/export?from=2024-05-01&to=2024-05-31&format=csv&sheet=sales -> one sheet as CSV
+// `&store=ST-002` exports another store than the first (the download is a plain link).
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  try {
+    await requireUser(req);
+    const from = dateISO(params.get("from"), "from");
+    const to = dateISO(params.get("to") ?? from, "to");
+    if (to < from) badRequest("to must not be before from");
+    const format = params.get("format") ?? "xlsx";
+    const store = await storeFrom(req);
+    const sheets = await buildSheets(store.id, from, to);
+    const range = (from === to ? from : `${from}_${to}`) + (store.id === DEFAULT_STORE_ID ? "" : `_${store.id}`);
+
+    if (format === "csv") {
+      const key = (params.get("sheet") ?? "sales") as SheetKey;
+      if (!Object.hasOwn(SHEET_NAMES, key)) badRequest(`sheet must be one of ${Object.keys(SHEET_NAMES).join(", ")}`);
+      return new Response(toCsv(sheets[key]), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${SHEET_NAMES[key]}_${range}.csv"`,
+        },
+      });
+    }
+    if (format !== "xlsx") badRequest("format must be csv or xlsx");
+    return new Response(toXlsx(Object.values(sheets)), {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "Content-Disposition": `attachment; filename="winebar_daily_${range}.xlsx"`,
+      },
+    });
+  } catch (err) {
+    // File responses bypass `handle`, but errors still come back as JSON.
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,21 @@
+import { HttpError, handle } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { previewSupplierImport } from "@/lib/server/import";
+import { importSuppliers } from "@/lib/server/suppliers";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/import/suppliers          (body: the .xlsx / .csv file) -> preview: row errors + diff
+// POST /api/import/suppliers?apply=1  (same body)                   -> applies the whole file in one write
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "manage suppliers");
+    const apply = new URL(req.url).searchParams.get("apply") === "1";
+    const data = Buffer.from(await req.arrayBuffer());
+    if (data.length === 0) throw new HttpError(400, "file is empty");
+    const { preview, items: suppliers } = await previewSupplierImport(data);
+    if (!apply) return { preview };
+    if (preview.errors.length) throw new HttpError(400, "file has errors", { preview });
+    return { preview, suppliers: await importSuppliers(suppliers) };
+  });
+}
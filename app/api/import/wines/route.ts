@@ -0,0 +1,21 @@
+import { HttpError, handle } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { previewWineImport } from "@/lib/server/import";
+import { importWines } from "@/lib/server/wines";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/import/wines          (body: the .xlsx / .csv file) -> preview: row errors + diff
+// POST /api/import/wines?apply=1  (same body)                   -> applies the whole file in one write
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "manage the wine master");
+    const apply = new URL(req.url).searchParams.get("apply") === "1";
+    const data = Buffer.from(await req.arrayBuffer());
+    if (data.length === 0) throw new HttpError(400, "file is empty");
+    const { preview, items: wines } = await previewWineImport(data);
+    if (!apply) return { preview };
+    if (preview.errors.length) throw new HttpError(400, "file has errors", { preview });
+    return { preview, wines: await importWines(wines) };
+  });
+}
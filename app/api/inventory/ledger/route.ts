@@ -0,0 +1,20 @@
+import { handle } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { buildLedger } from "@/lib/server/inventory";
+import { dateISO, str } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/inventory/ledger?wineId=W-001[&until=2024-05-01] -> stock movements with running balance
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const params = new URL(req.url).searchParams;
+    const wineId = str(params.get("wineId"), "wineId");
+    const until = params.get("until");
+    const store = await storeFrom(req);
+    const ledger = await buildLedger(store.id, until ? dateISO(until, "until") : undefined);
+    return { movements: ledger[wineId] ?? [] };
+  });
+}
@@ -0,0 +1,22 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { listOpenings, parseOpening, setOpening } from "@/lib/server/inventory";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    return { openings: await listOpenings((await storeFrom(req)).id) };
+  });
+}
+
+// POST /api/inventory/openings { wineId, dateISO, bottles } -> (re)starts that wine's ledger
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "set opening stock");
+    const store = await storeFrom(req);
+    return { opening: await setOpening(store.id, await parseOpening(await readBody(req))) };
+  });
+}
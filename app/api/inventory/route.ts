@@ -0,0 +1,16 @@
+import { handle } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { stockPositions } from "@/lib/server/inventory";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/inventory?date=2024-05-01 -> expected stock per wine around that day
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const date = dateISO(new URL(req.url).searchParams.get("date"), "date");
+    return { positions: await stockPositions((await storeFrom(req)).id, date) };
+  });
+}
@@ -0,0 +1,19 @@
+import { errorResponse } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { readPhoto } from "@/lib/server/photos";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/loss-photos/<id> -> the image (photo ids never change, so it may be cached)
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireUser(req);
+    const { data, contentType } = await readPhoto(params.id);
+    return new Response(data, {
+      headers: { "Content-Type": contentType, "Cache-Control": "private, max-age=31536000, immutable" },
+    });
+  } catch (err) {
+    // File responses bypass `handle`, but errors still come back as JSON.
+    return errorResponse(err);
+  }
+}
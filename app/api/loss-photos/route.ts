@@ -0,0 +1,15 @@
+import { handle } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { readPhotoBody, savePhoto } from "@/lib/server/photos";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/loss-photos  (body: the image, Content-Type image/jpeg|png|webp) -> { id }
+// The id goes into the loss line's photoIds when the losses are saved.
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const data = await readPhotoBody(req);
+    return { id: await savePhoto(req.headers.get("Content-Type") ?? "", data) };
+  });
+}
@@ -0,0 +1,20 @@
+import { HttpError, handle } from "@/lib/server/http";
+import { assertDateAllowed, requireUser } from "@/lib/server/auth";
+import { readPosImport } from "@/lib/server/pos";
+import { dateISO } from "@/lib/server/validate";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/pos-import?date=2024-05-01  (body: the POS export, .csv / .xlsx / .json)
+//   -> { import: mapped sales per wine, unmapped codes, row errors }
+// Nothing is saved: the device prefills the day's sales and saves them as usual.
+export function POST(req: Request) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    const date = dateISO(new URL(req.url).searchParams.get("date"), "date");
+    await assertDateAllowed(user, date);
+    const data = Buffer.from(await req.arrayBuffer());
+    if (data.length === 0) throw new HttpError(400, "file is empty");
+    return { import: await readPosImport(data, date) };
+  });
+}
@@ -0,0 +1,22 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { listPosMappings, parsePosMappings, savePosMappings } from "@/lib/server/pos";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/pos-mappings -> { mappings }
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    return { mappings: await listPosMappings() };
+  });
+}
+
+// PUT /api/pos-mappings  { mappings: [{ code, wineId, unit }] } -> replaces the whole table
+export function PUT(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "manage POS mappings");
+    const body = await readBody(req);
+    return { mappings: await savePosMappings(await parsePosMappings(body.mappings)) };
+  });
+}
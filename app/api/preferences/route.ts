@@ -0,0 +1,21 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { getPreferences, parsePreferencesPatch, updatePreferences } from "@/lib/server/preferences";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/preferences -> the logged-in user's { favorites, order }
+export function GET(req: Request) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    return { preferences: await getPreferences(user.id) };
+  });
+}
+
+// PATCH /api/preferences { favorites?, order? } -> replaces the given lists
+export function PATCH(req: Request) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    return { preferences: await updatePreferences(user.id, await parsePreferencesPatch(await readBody(req))) };
+  });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { errorResponse, handle, HttpError, readBody } from "@/lib/server/http";
+import { currentUser, SESSION_COOKIE, SESSION_MAX_AGE, sessionToken } from "@/lib/server/auth";
+import { verifyPin } from "@/lib/server/users";
+import { str } from "@/lib/server/validate";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/session -> { user } (null when nobody is logged in)
+export function GET(req: Request) {
+  return handle(async () => ({ user: await currentUser(req) }));
+}
+
+// POST /api/session { userId, pin } -> logs in on this device
+export async function POST(req: Request) {
+  try {
+    const body = await readBody(req);
+    const user = await verifyPin(str(body.userId, "userId"), str(body.pin, "pin"));
+    if (!user) throw new HttpError(401, "wrong user or PIN");
+    const res = NextResponse.json({ user });
+    res.cookies.set(SESSION_COOKIE, await sessionToken(user.id), {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+    return res;
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// DELETE /api/session -> logs out
+export function DELETE() {
+  const res = NextResponse.json({ user: null });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
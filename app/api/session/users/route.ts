@@ -0,0 +1,11 @@
+import { handle } from "@/lib/server/http";
+import { listUsers } from "@/lib/server/users";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/session/users -> { users: [{ id, name }] } of the active staff, for the login picker
+export function GET() {
+  return handle(async () => ({
+    users: (await listUsers()).filter((u) => u.isActive !== false).map(({ id, name }) => ({ id, name })),
+  }));
+}
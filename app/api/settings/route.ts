@@ -0,0 +1,16 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { getSettings, parseSettingsPatch, updateSettings } from "@/lib/server/settings";
+
+export const dynamic = "force-dynamic";
+
+export function GET() {
+  return handle(async () => ({ settings: await getSettings() }));
+}
+
+export function PATCH(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "change settings");
+    return { settings: await updateSettings(parseSettingsPatch(await readBody(req))) };
+  });
+}
@@ -0,0 +1,28 @@
+import { handle, readBody } from "@/lib/server/http";
+import { assertDateAllowed, requireUser } from "@/lib/server/auth";
+import { getStocktake, parseCounts, saveStocktake } from "@/lib/server/inventory";
+import { dateISO } from "@/lib/server/validate";
+import { storeFrom } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { date: string } };
+
+export function GET(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireUser(req);
+    return { stocktake: await getStocktake((await storeFrom(req)).id, dateISO(params.date, "date")) };
+  });
+}
+
+// POST /api/stocktakes/2024-05-01 { counts: { "W-001": 11 } } -> replaces that day's counts
+export function POST(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    const user = await requireUser(req);
+    const date = dateISO(params.date, "date");
+    await assertDateAllowed(user, date);
+    const counts = await parseCounts((await readBody(req)).counts);
+    const store = await storeFrom(req);
+    return { stocktake: await saveStocktake(store.id, date, counts) };
+  });
+}
@@ -0,0 +1,15 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { parseStoreInput, updateStore } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// PATCH /api/stores/ST-002 { name?, wineIds? (null = every active wine), isActive? }
+export function PATCH(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireManager(req, "manage stores");
+    return { store: await updateStore(params.id, await parseStoreInput(await readBody(req), true)) };
+  });
+}
@@ -0,0 +1,18 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { createStore, listStores, parseStoreInput } from "@/lib/server/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/stores -> { stores } for the store switcher
+export function GET() {
+  return handle(async () => ({ stores: await listStores() }));
+}
+
+// POST /api/stores { name, wineIds? }
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "manage stores");
+    return { store: await createStore(await parseStoreInput(await readBody(req), false)) };
+  });
+}
@@ -0,0 +1,21 @@
+import { badRequest, handle } from "@/lib/server/http";
+import { requireUser } from "@/lib/server/auth";
+import { listDays } from "@/lib/server/daily";
+import { listStores } from "@/lib/server/stores";
+import { dateISO } from "@/lib/server/validate";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/stores/summary?from=2024-05-01&to=2024-05-31 -> { stores: [{ store, records }] } for every store
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const params = new URL(req.url).searchParams;
+    const from = dateISO(params.get("from"), "from");
+    const to = dateISO(params.get("to") ?? from, "to");
+    if (to < from) badRequest("to must not be before from");
+    const stores = await listStores();
+    const records = await Promise.all(stores.map((store) => listDays(store.id, from, to)));
+    return { stores: stores.map((store, i) => ({ store, records: records[i] })) };
+  });
+}
@@ -0,0 +1,30 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { deactivateSupplier, getSupplier, parseSupplierInput, updateSupplier } from "@/lib/server/suppliers";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+export function GET(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireUser(req);
+    return { supplier: await getSupplier(params.id) };
+  });
+}
+
+export function PATCH(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireManager(req, "manage suppliers");
+    const patch = parseSupplierInput(await readBody(req), true);
+    return { supplier: await updateSupplier(params.id, patch) };
+  });
+}
+
+// Soft delete, like wines.
+export function DELETE(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireManager(req, "manage suppliers");
+    return { supplier: await deactivateSupplier(params.id) };
+  });
+}
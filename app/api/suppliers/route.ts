@@ -0,0 +1,19 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { createSupplier, listSuppliers } from "@/lib/server/suppliers";
+
+export const dynamic = "force-dynamic";
+
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    return { suppliers: await listSuppliers() };
+  });
+}
+
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "manage suppliers");
+    return { supplier: await createSupplier(await readBody(req)) };
+  });
+}
@@ -0,0 +1,15 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager } from "@/lib/server/auth";
+import { parseUserInput, updateUser } from "@/lib/server/users";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// PATCH /api/users/U-001 { name?, pin?, role?, isActive? }
+export function PATCH(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireManager(req, "manage staff");
+    return { user: await updateUser(params.id, parseUserInput(await readBody(req), true)) };
+  });
+}
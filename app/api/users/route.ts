@@ -0,0 +1,24 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { createUser, listUsers, parseUserInput } from "@/lib/server/users";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/users -> { users } (the login picker uses /api/session/users)
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    return { users: await listUsers() };
+  });
+}
+
+// POST /api/users { name, pin, role? } -> anyone may create the first account (a manager), after that only managers
+export function POST(req: Request) {
+  return handle(async () => {
+    const input = parseUserInput(await readBody(req), false);
+    const user = await createUser(input, async (first) => {
+      if (!first) await requireManager(req, "manage staff");
+    });
+    return { user };
+  });
+}
@@ -0,0 +1,30 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { deactivateWine, getWine, parseWineInput, updateWine } from "@/lib/server/wines";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+export function GET(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireUser(req);
+    return { wine: await getWine(params.id) };
+  });
+}
+
+export function PATCH(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireManager(req, "manage the wine master");
+    const patch = parseWineInput(await readBody(req), true);
+    return { wine: await updateWine(params.id, patch) };
+  });
+}
+
+// Soft delete: the wine stays in the master so past records still resolve.
+export function DELETE(req: Request, { params }: Ctx) {
+  return handle(async () => {
+    await requireManager(req, "manage the wine master");
+    return { wine: await deactivateWine(params.id) };
+  });
+}
@@ -0,0 +1,27 @@
+import { handle, readBody } from "@/lib/server/http";
+import { requireManager, requireUser } from "@/lib/server/auth";
+import { createWine, listWines } from "@/lib/server/wines";
+import { storeFrom } from "@/lib/server/stores";
+import { isActiveIn } from "@/lib/stores";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/wines            -> all wines (inactive included, for the master screen)
+// GET /api/wines?active=1   -> only wines active in the request's store (daily input)
+export function GET(req: Request) {
+  return handle(async () => {
+    await requireUser(req);
+    const activeOnly = new URL(req.url).searchParams.get("active") === "1";
+    const wines = await listWines();
+    if (!activeOnly) return { wines };
+    const store = await storeFrom(req);
+    return { wines: wines.filter((w) => isActiveIn(w, store)) };
+  });
+}
+
+export function POST(req: Request) {
+  return handle(async () => {
+    await requireManager(req, "manage the wine master");
+    return { wine: await createWine(await readBody(req)) };
+  });
+}
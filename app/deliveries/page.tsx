@@ -0,0 +1,291 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, PackagePlus, ScanLine, Search } from "lucide-react";
+import type { Supplier, Wine } from "@/lib/types";
+import { addDeliveries, fetchSuppliers, fetchWines } from "@/lib/api";
+import { searchWines } from "@/lib/search";
+import { businessDateISO } from "@/lib/dates";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { BarcodeScanner } from "@/components/barcode-scanner";
+import { Highlight } from "@/components/highlight";
+import { QtyCell } from "@/components/qty-cell";
+
+/**
+ * Delivery entry: one invoice (supplier, number, date) at a time, bottles received and unit
+ * cost per wine — the incoming counterpart of the daily sales step. Scanning a bottle's
+ * barcode adds one bottle to its line.
+ */
+
+type LoadState = "loading" | "ready" | "error";
+
+type Line = { bottles: number; unitCost: string };
+
+const EMPTY_LINE: Line = { bottles: 0, unitCost: "" };
+
+const NO_SUPPLIER = "none";
+
+export default function DeliveriesPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  const [dateISO, setDateISO] = useState(() => businessDateISO(DEFAULT_SETTINGS.businessDayCutoffHour));
+  const [supplierId, setSupplierId] = useState(NO_SUPPLIER);
+  const [invoiceNo, setInvoiceNo] = useState("");
+  const [note, setNote] = useState("");
+  const [lines, setLines] = useState<Record<string, Line>>({});
+  const [query, setQuery] = useState("");
+  const [allWines, setAllWines] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const closeScanner = useCallback(() => setScanning(false), []);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState("");
+
+  const load = async () => {
+    setState("loading");
+    try {
+      const [w, s] = await Promise.all([fetchWines({ activeOnly: true }), fetchSuppliers()]);
+      setWines(w);
+      setSuppliers(s.filter((x) => x.isActive !== false));
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (!highlightId) return;
+    document.getElementById(`wine-row-${highlightId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const t = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(t);
+  }, [highlightId]);
+
+  const hasSupplier = supplierId !== NO_SUPPLIER;
+
+  // With a supplier picked, its own wines are listed unless "all wines" is on.
+  const matches = useMemo(() => {
+    const pool = wines.filter((w) => !hasSupplier || allWines || w.supplierId === supplierId || !!lines[w.id]?.bottles);
+    return searchWines(pool, query);
+  }, [wines, query, hasSupplier, allWines, supplierId, lines]);
+
+  const setLine = (wineId: string, patch: Partial<Line>) => {
+    setSaved("");
+    setLines((prev) => ({ ...prev, [wineId]: { ...(prev[wineId] ?? EMPTY_LINE), ...patch } }));
+  };
+
+  // Lines with bottles are always listed, so a scanned wine shows up even from another supplier.
+  const onScanned = (wine: Wine): string => {
+    const bottles = (lines[wine.id]?.bottles ?? 0) + 1;
+    setQuery("");
+    setLine(wine.id, { bottles });
+    setHighlightId(wine.id);
+    return `${wine.name}：${bottles}本`;
+  };
+
+  // A blank unit cost falls back to the wine master's.
+  const costOf = (wineId: string, l: Line): number | undefined =>
+    l.unitCost === "" ? wines.find((w) => w.id === wineId)?.unitCost : parseInt(l.unitCost, 10);
+
+  const entered = Object.entries(lines).filter(([, l]) => l.bottles > 0);
+  const totalBottles = entered.reduce((sum, [, l]) => sum + l.bottles, 0);
+  const totalCost = entered.reduce((sum, [id, l]) => sum + l.bottles * (costOf(id, l) ?? 0), 0);
+
+  const submit = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const added = await addDeliveries({
+        dateISO,
+        supplierId: hasSupplier ? supplierId : undefined,
+        invoiceNo: invoiceNo.trim() || undefined,
+        note: note.trim() || undefined,
+        lines: entered.map(([wineId, l]) => ({
+          wineId,
+          bottles: l.bottles,
+          unitCost: costOf(wineId, l),
+        })),
+      });
+      setSaved(`${invoiceNo.trim() ? `伝票 ${invoiceNo.trim()}：` : ""}${added.length}行を記録しました。`);
+      setLines({});
+      setInvoiceNo("");
+      setNote("");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/inventory">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              在庫・入荷
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">入荷入力</h1>
+        </div>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">伝票</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-[160px_1fr_160px_1fr] gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">入荷日</Label>
+                <Input type="date" value={dateISO} onChange={(e) => setDateISO(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">仕入先</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger className="rounded-2xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUPPLIER}>指定なし</SelectItem>
+                    {suppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}（{s.id}）
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">伝票番号</Label>
+                <Input value={invoiceNo} onChange={(e) => setInvoiceNo(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">メモ</Label>
+                <Input value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardHeader className="pb-3 space-y-3">
+            <CardTitle className="text-lg">入荷したワイン</CardTitle>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="ワイン名 / 生産者 / ID / JAN で検索"
+                  className="pl-9 rounded-2xl"
+                />
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setScanning(true)} disabled={state !== "ready"}>
+                <ScanLine className="h-4 w-4 mr-2" />
+                スキャン
+              </Button>
+              {hasSupplier && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={allWines} onCheckedChange={(v) => setAllWines(v === true)} />
+                  他の仕入先のワインも表示
+                </label>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {state === "loading" && (
+              <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                読み込み中…
+              </div>
+            )}
+            {state === "error" && (
+              <div className="py-10 text-center text-sm space-y-3">
+                <div className="text-destructive">ワインマスタを取得できませんでした。</div>
+                <Button variant="outline" size="sm" onClick={load}>
+                  再読み込み
+                </Button>
+              </div>
+            )}
+            {state === "ready" && (
+              <div className="overflow-hidden rounded-2xl border divide-y">
+                <div className="hidden sm:grid sm:grid-cols-[minmax(200px,1fr)_180px_140px] bg-muted/50 px-4 py-3 text-sm font-medium">
+                  <div>ワイン</div>
+                  <div>本数</div>
+                  <div>単価（円）</div>
+                </div>
+                {matches.map(({ wine: w, name }) => {
+                  const line = lines[w.id] ?? EMPTY_LINE;
+                  return (
+                    <div
+                      key={w.id}
+                      id={`wine-row-${w.id}`}
+                      className={`grid grid-cols-1 sm:grid-cols-[minmax(200px,1fr)_180px_140px] gap-2 sm:items-center px-4 py-3 transition-colors ${
+                        highlightId === w.id ? "bg-primary/10" : ""
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <div className="truncate font-medium">
+                          <Highlight text={w.name} ranges={name} />
+                        </div>
+                        <div className="text-xs text-muted-foreground">{w.id}</div>
+                      </div>
+                      <QtyCell
+                        value={line.bottles}
+                        onChange={(bottles) => setLine(w.id, { bottles })}
+                        ariaLabel={`${w.name} 入荷本数`}
+                      />
+                      <Input
+                        inputMode="numeric"
+                        value={line.unitCost}
+                        onChange={(e) => setLine(w.id, { unitCost: e.target.value.replace(/[^0-9]/g, "") })}
+                        className="text-right rounded-xl"
+                        placeholder={w.unitCost !== undefined ? String(w.unitCost) : "—"}
+                        aria-label={`${w.name} 単価`}
+                      />
+                    </div>
+                  );
+                })}
+                {matches.length === 0 && (
+                  <div className="px-4 py-6 text-center text-sm text-muted-foreground">
+                    {hasSupplier && !allWines ? "この仕入先に紐づくワインはありません。" : "該当するワインはありません。"}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="text-sm">
+            {entered.length}銘柄 / {totalBottles}本{totalCost > 0 && ` / ¥${totalCost.toLocaleString()}`}
+          </div>
+          {error && <div className="text-sm text-destructive">{error}</div>}
+          {saved && <div className="text-sm">{saved}</div>}
+          <Button className="ml-auto" onClick={submit} disabled={busy || entered.length === 0}>
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PackagePlus className="h-4 w-4 mr-2" />}
+            入荷を記録
+          </Button>
+        </div>
+      </div>
+
+      {scanning && <BarcodeScanner wines={wines} continuous onWine={onScanned} onClose={closeScanner} />}
+    </div>
+  );
+}
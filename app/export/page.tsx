@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Download } from "lucide-react";
+import { todayISO } from "@/lib/dates";
+import { currentStoreId } from "@/lib/stores";
+
+/**
+ * Download of saved daily records for the accountant's workbook: one .xlsx with the
+ * Daily_Sales / Daily_Loss / Wine_Master / Supplier_Master sheets, or each sheet as CSV.
+ * The records are the current store's (the download is a plain link, so it goes as `?store=`).
+ */
+
+export default function ExportPage() {
+  const [from, setFrom] = useState(todayISO());
+  const [to, setTo] = useState(todayISO());
+
+  const valid = !!from && !!to && from <= to;
+  const href = (format: "csv" | "xlsx", sheet?: string) => {
+    const qs = new URLSearchParams({ from, to, format, store: currentStoreId() });
+    if (sheet) qs.set("sheet", sheet);
+    return `/api/export?${qs}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">エクスポート</h1>
+        </div>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">期間</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              サーバーに保存済みの売上・ロスを出力します。1日だけなら開始日と終了日を同じにしてください。
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">開始日</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-[160px]" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">終了日</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-[160px]" />
+              </div>
+            </div>
+            {!valid && <div className="text-sm text-destructive">終了日は開始日以降にしてください。</div>}
+
+            <div className="flex flex-wrap gap-2">
+              <Button disabled={!valid} asChild={valid}>
+                <a href={href("xlsx")}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Excel（全シート）
+                </a>
+              </Button>
+              <Button variant="outline" disabled={!valid} asChild={valid}>
+                <a href={href("csv", "sales")}>売上 CSV</a>
+              </Button>
+              <Button variant="outline" disabled={!valid} asChild={valid}>
+                <a href={href("csv", "losses")}>ロス CSV</a>
+              </Button>
+              <Button variant="outline" disabled={!valid} asChild={valid}>
+                <a href={href("csv", "wines")}>Wine_Master CSV</a>
+              </Button>
+              <Button variant="outline" disabled={!valid} asChild={valid}>
+                <a href={href("csv", "suppliers")}>Supplier_Master CSV</a>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Loader2, Upload } from "lucide-react";
+import type { ImportPreview, MasterDiff, MasterKind, Supplier, Wine } from "@/lib/types";
+import { importMasterFile } from "@/lib/api";
+
+/**
+ * Master import: upload Wine_Master or Supplier_Master as .xlsx or CSV, review the diff
+ * against the current master (new / changed / deactivated), then apply it in one step.
+ */
+
+type Item = Wine | Supplier;
+
+const MASTERS: Record<MasterKind, { sheet: string; columns: string; missing: string }> = {
+  wines: {
+    sheet: "Wine_Master",
+    columns: "Wine ID / Name / Producer / Vintage / Color / Bottle Size ml / Price / Glass Price / Unit Cost / Supplier ID / Active / JAN / Country / Region / Grape",
+    missing: "ファイルに無い有効なワインは無効化されます。",
+  },
+  suppliers: {
+    sheet: "Supplier_Master",
+    columns: "Supplier ID / Name / Contact / Phone / Email / Active",
+    missing: "ファイルに無い有効な仕入先は無効化されます。",
+  },
+};
+
+const KIND_LABEL: Record<MasterDiff<Item>["kind"], string> = {
+  new: "新規",
+  changed: "変更",
+  deactivated: "無効化",
+  unchanged: "変更なし",
+};
+
+const FIELD_LABEL: Record<string, string> = {
+  name: "名前",
+  producer: "生産者",
+  vintage: "ヴィンテージ",
+  color: "色",
+  bottleSizeMl: "容量",
+  price: "価格",
+  glassPrice: "グラス価格",
+  unitCost: "原価",
+  supplierId: "仕入先",
+  jan: "JAN",
+  country: "国",
+  region: "産地",
+  grape: "品種",
+  contact: "担当者",
+  phone: "電話",
+  email: "メール",
+  isActive: "有効",
+};
+
+const show = (v: unknown) => (v === null || v === undefined || v === "" ? "—" : String(v));
+
+export default function ImportPage() {
+  const [kind, setKind] = useState<MasterKind>("wines");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview<Item> | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [applied, setApplied] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const run = async (f: File, apply: boolean) => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await importMasterFile(kind, f, apply);
+      setPreview(res.preview);
+      setApplied(apply);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onKind = (k: MasterKind) => {
+    setKind(k);
+    setFile(null);
+    setPreview(null);
+    setApplied(false);
+    setError("");
+  };
+
+  const onFile = (f: File | null) => {
+    setFile(f);
+    setPreview(null);
+    setApplied(false);
+    if (f) run(f, false);
+  };
+
+  const counts = (preview?.diff ?? []).reduce<Record<string, number>>((acc, d) => {
+    acc[d.kind] = (acc[d.kind] || 0) + 1;
+    return acc;
+  }, {});
+  const pending = (counts.new || 0) + (counts.changed || 0) + (counts.deactivated || 0);
+  const visible = (preview?.diff ?? []).filter((d) => showUnchanged || d.kind !== "unchanged");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">マスタ取込</h1>
+          <div className="ml-auto flex gap-2">
+            {(Object.keys(MASTERS) as MasterKind[]).map((k) => (
+              <Button key={k} size="sm" variant={k === kind ? "default" : "outline"} onClick={() => onKind(k)}>
+                {MASTERS[k].sheet}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">{MASTERS[kind].sheet}</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              .xlsx（{MASTERS[kind].sheet} シート）または CSV。列：{MASTERS[kind].columns}。{MASTERS[kind].missing}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              key={kind}
+              type="file"
+              accept=".xlsx,.csv,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => onFile(e.target.files?.[0] ?? null)}
+            />
+            {busy && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                読み込み中…
+              </div>
+            )}
+            {error && <div className="text-sm text-destructive">{error}</div>}
+
+            {preview && preview.errors.length > 0 && (
+              <div className="rounded-2xl border border-destructive/50 p-4 space-y-1 text-sm">
+                <div className="font-medium text-destructive">
+                  {preview.errors.length}件のエラーがあります。修正してから再度アップロードしてください。
+                </div>
+                {preview.errors.map((e, i) => (
+                  <div key={i}>
+                    {e.row}行目：{e.message}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview && preview.errors.length === 0 && (
+              <>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span>{preview.rows}行</span>
+                  <Badge>新規 {counts.new || 0}</Badge>
+                  <Badge variant="secondary">変更 {counts.changed || 0}</Badge>
+                  <Badge variant="destructive">無効化 {counts.deactivated || 0}</Badge>
+                  <Badge variant="outline">変更なし {counts.unchanged || 0}</Badge>
+                  <label className="ml-auto flex items-center gap-2">
+                    <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                    変更なしも表示
+                  </label>
+                </div>
+
+                <div className="overflow-hidden rounded-2xl border divide-y text-sm">
+                  {visible.map((d) => (
+                    <div key={d.item.id} className="px-4 py-2 flex flex-col sm:flex-row sm:items-center gap-2">
+                      <div className="flex items-center gap-2 min-w-0 sm:w-1/3">
+                        <Badge variant={d.kind === "deactivated" ? "destructive" : d.kind === "new" ? "default" : "outline"}>
+                          {KIND_LABEL[d.kind]}
+                        </Badge>
+                        <span className="truncate">
+                          {d.item.name}（{d.item.id}）
+                        </span>
+                      </div>
+                      {d.kind === "changed" && (
+                        <div className="text-muted-foreground">
+                          {d.changes.map((c) => `${FIELD_LABEL[c.field] ?? c.field}: ${show(c.from)} → ${show(c.to)}`).join(" / ")}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {visible.length === 0 && <div className="px-4 py-6 text-center text-muted-foreground">差分はありません。</div>}
+                </div>
+
+                {applied ? (
+                  <div className="text-sm">マスタに反映しました。</div>
+                ) : (
+                  <Button onClick={() => file && run(file, true)} disabled={busy || pending === 0}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {pending}件をマスタに反映
+                  </Button>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
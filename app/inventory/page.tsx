@@ -0,0 +1,230 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2, PackagePlus } from "lucide-react";
+import type { Delivery, OpeningCount, StockPosition, Supplier, Wine } from "@/lib/types";
+import {
+  fetchDeliveries,
+  fetchOpenings,
+  fetchStockPositions,
+  fetchSuppliers,
+  fetchWines,
+  setOpening,
+} from "@/lib/api";
+import { addDays, todayISO } from "@/lib/dates";
+
+/**
+ * Inventory: opening counts that start each wine's ledger, deliveries, and the expected
+ * stock derived from them and the saved daily sales/losses.
+ */
+
+type LoadState = "loading" | "ready" | "error";
+
+function OpeningEditor({
+  wine,
+  opening,
+  onSave,
+}: {
+  wine: Wine;
+  opening?: OpeningCount;
+  onSave: (o: OpeningCount) => Promise<void>;
+}) {
+  const [dateISO, setDateISO] = useState(opening?.dateISO ?? todayISO());
+  const [bottles, setBottles] = useState(opening ? String(opening.bottles) : "");
+  const [busy, setBusy] = useState(false);
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      await onSave({ wineId: wine.id, dateISO, bottles: parseInt(bottles || "0", 10) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input type="date" value={dateISO} onChange={(e) => setDateISO(e.target.value)} className="w-[150px]" />
+      <Input
+        inputMode="numeric"
+        value={bottles}
+        onChange={(e) => setBottles(e.target.value.replace(/[^0-9]/g, ""))}
+        className="w-20 text-center"
+        placeholder="本数"
+        aria-label={`${wine.name} 開始在庫`}
+      />
+      <Button variant="outline" size="sm" onClick={save} disabled={busy || !bottles}>
+        保存
+      </Button>
+    </div>
+  );
+}
+
+export default function InventoryPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [openings, setOpenings] = useState<Record<string, OpeningCount>>({});
+  const [positions, setPositions] = useState<Record<string, StockPosition>>({});
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  const load = async () => {
+    try {
+      const [w, o, p, d, s] = await Promise.all([
+        fetchWines({ activeOnly: true }),
+        fetchOpenings(),
+        fetchStockPositions(todayISO()),
+        fetchDeliveries({ from: addDays(todayISO(), -30) }),
+        fetchSuppliers(),
+      ]);
+      setWines(w);
+      setOpenings(o);
+      setPositions(p);
+      setDeliveries(d);
+      setSuppliers(s);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const nameOf = useMemo(() => {
+    const m = new Map(wines.map((w) => [w.id, w.name]));
+    return (id: string) => m.get(id) ?? id;
+  }, [wines]);
+
+  const supplierName = useMemo(() => new Map(suppliers.map((s) => [s.id, s.name])), [suppliers]);
+
+  const saveOpening = async (o: OpeningCount) => {
+    try {
+      await setOpening(o);
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">在庫・入荷</h1>
+          <Button size="sm" className="ml-auto" asChild>
+            <Link href="/deliveries">
+              <PackagePlus className="h-4 w-4 mr-2" />
+              入荷を記録
+            </Link>
+          </Button>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">在庫（予定）</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              開始在庫（棚卸した日の朝の本数）から、入荷を足し、保存済みの売上・破損・グラス提供で開けた本数を引いています。
+            </div>
+          </CardHeader>
+          <CardContent>
+            {state === "loading" && (
+              <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                読み込み中…
+              </div>
+            )}
+            {state === "error" && (
+              <div className="py-10 text-center text-sm space-y-3">
+                <div className="text-destructive">在庫を取得できませんでした。</div>
+                <Button variant="outline" size="sm" onClick={load}>
+                  再読み込み
+                </Button>
+              </div>
+            )}
+            {state === "ready" && (
+              <div className="overflow-hidden rounded-2xl border divide-y">
+                <div className="hidden sm:grid sm:grid-cols-[minmax(200px,1fr)_360px_100px] bg-muted/50 px-4 py-3 text-sm font-medium">
+                  <div>ワイン</div>
+                  <div>開始在庫（日付・本数）</div>
+                  <div className="text-right">現在</div>
+                </div>
+                {wines.map((w) => {
+                  const pos = positions[w.id];
+                  return (
+                    <div
+                      key={w.id}
+                      className="grid grid-cols-1 sm:grid-cols-[minmax(200px,1fr)_360px_100px] gap-2 sm:items-center px-4 py-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="truncate font-medium">{w.name}</div>
+                        <div className="text-xs text-muted-foreground">{w.id}</div>
+                      </div>
+                      <OpeningEditor
+                        key={openings[w.id]?.dateISO ?? "none"}
+                        wine={w}
+                        opening={openings[w.id]}
+                        onSave={saveOpening}
+                      />
+                      <div className={`sm:text-right font-semibold ${pos && pos.endBottles < 0 ? "text-destructive" : ""}`}>
+                        {pos ? `${pos.endBottles}本` : "—"}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">直近30日の入荷</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y text-sm">
+              {[...deliveries].reverse().map((d) => (
+                <div key={d.id} className="flex items-center gap-3 py-2">
+                  <div className="text-muted-foreground w-24 shrink-0">{d.dateISO}</div>
+                  <div className="min-w-0">
+                    <div className="truncate">{nameOf(d.wineId)}</div>
+                    {(d.supplierId || d.invoiceNo) && (
+                      <div className="text-xs text-muted-foreground truncate">
+                        {[d.supplierId && (supplierName.get(d.supplierId) ?? d.supplierId), d.invoiceNo && `伝票 ${d.invoiceNo}`]
+                          .filter(Boolean)
+                          .join(" / ")}
+                      </div>
+                    )}
+                  </div>
+                  <div className="ml-auto shrink-0 text-right">
+                    <div>+{d.bottles}本</div>
+                    {d.unitCost !== undefined && (
+                      <div className="text-xs text-muted-foreground">@¥{d.unitCost.toLocaleString()}</div>
+                    )}
+                  </div>
+                  {d.note && <div className="text-xs text-muted-foreground truncate max-w-[30%]">{d.note}</div>}
+                </div>
+              ))}
+              {deliveries.length === 0 && <div className="py-4 text-muted-foreground">入荷の記録はありません。</div>}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
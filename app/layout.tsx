@@ -1,14 +1,24 @@
 import "./globals.css";
+import { ServiceWorker } from "@/components/service-worker";
 
 export const metadata = {
   title: "Wine Bar Daily Ops",
-  description: "Daily Sales → Daily Loss input"
+  description: "Daily Sales → Daily Loss input",
+  icons: { icon: "/icon.svg", apple: "/icon-192.png" },
+  appleWebApp: { capable: true, title: "Wine Bar" }
+};
+
+export const viewport = {
+  themeColor: "#18181b"
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="ja">
-      <body>{children}</body>
+      <body>
+        {children}
+        <ServiceWorker />
+      </body>
     </html>
   );
 }
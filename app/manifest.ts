@@ -0,0 +1,22 @@
+import type { MetadataRoute } from "next";
+
+// Served as /manifest.webmanifest; with public/sw.js this makes the input screen installable.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Wine Bar Daily Ops",
+    short_name: "Wine Bar",
+    description: "Daily Sales → Daily Loss input",
+    lang: "ja",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    orientation: "any",
+    background_color: "#ffffff",
+    theme_color: "#18181b",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml" },
+      { src: "/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icon-512.png", sizes: "512x512", type: "image/png" },
+    ],
+  };
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,89 +9,124 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Search, ArrowRight, ArrowLeft, Save, RotateCcw, Star } from "lucide-react";
+import {
+  Search,
+  ArrowRight,
+  ArrowLeft,
+  Save,
+  RotateCcw,
+  FileInput,
+  Star,
+  Loader2,
+  Lock,
+  AlertTriangle,
+  UserRound,
+  Undo2,
+  Redo2,
+  ArrowUpDown,
+  ScanLine,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+import type {
+  DailyPart,
+  DailyRecord,
+  LossLine,
+  LossType,
+  SaleLine,
+  ServerDailyRecord,
+  Settings,
+  StockPosition,
+  Store,
+  User,
+  Wine,
+} from "@/lib/types";
+import Link from "next/link";
+import {
+  ApiError,
+  closeDay,
+  fetchDailyRecord,
+  fetchDailyRecords,
+  fetchSettings,
+  fetchStockPositions,
+  fetchStocktake,
+  fetchStores,
+  fetchUsers,
+  fetchWines,
+  reopenDay,
+  saveStocktake,
+  updateWine,
+} from "@/lib/api";
+import { recordEdit, recordReset } from "@/lib/audit";
+import { type Anomaly, anomalyKey, type CheckedField, findAnomalies, historyStats, type WineStats } from "@/lib/anomaly";
+import { dayMoney, formatYen, lossCost } from "@/lib/kpi";
+import { deriveOpened } from "@/lib/opened";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { expectedEndBottles, varianceReport } from "@/lib/stock";
+import { addDays, businessDateISO } from "@/lib/dates";
+import { currentStoreId, DEFAULT_STORE_ID, isActiveIn, setCurrentStoreId } from "@/lib/stores";
+import { EMPTY_HISTORY, redo, remember, undo, type UndoHistory } from "@/lib/undo";
+import { sortWines, toggleFavorite } from "@/lib/preferences";
+import { applyPosSales, type PosReviewLine } from "@/lib/pos";
+import {
+  GROUP_KEY_LABEL,
+  groupLabel,
+  groupSubtotal,
+  groupValue,
+  groupValues,
+  groupWines,
+  type WineGroupKey,
+} from "@/lib/grouping";
+import { searchWines, type WineMatch } from "@/lib/search";
+import {
+  type Conflict,
+  emptyRecord,
+  hydrateFromServer,
+  markSaved,
+  pushPart,
+  readOutbox,
+  readRecord,
+  type RejectedSave,
+  replayOutbox,
+  resolveConflict,
+  sameDay,
+  writeRecord,
+} from "@/lib/sync";
+import { AnomalyConfirm } from "@/components/anomaly-confirm";
+import { AuditLog } from "@/components/audit-log";
+import { ConflictMerge } from "@/components/conflict-merge";
+import { clampInt, QtyCell } from "@/components/qty-cell";
+import { DayReview } from "@/components/day-review";
+import { Highlight } from "@/components/highlight";
+import { LossDetails } from "@/components/loss-details";
+import { BarcodeScanner } from "@/components/barcode-scanner";
+import { PosImportPanel } from "@/components/pos-import";
+import { StaffLogin, useStaffSession } from "@/components/staff-login";
+import { type ToastAction, UndoToast } from "@/components/undo-toast";
+import { VarianceReport } from "@/components/variance-report";
+import { WineDetail } from "@/components/wine-detail";
+import { usePreferences, WineOrderPanel } from "@/components/wine-order";
 
 /**
- * Minimal, fast, mobile-first “Daily Sales → Daily Loss” input prototype.
+ * Minimal, fast, mobile-first “Daily Sales → Daily Loss → 棚卸 → 締め” input.
  * - Optimized for ~30 wines: search, favorites, compact grid, big tap targets, quick +/-.
- * - Stores drafts in localStorage by date. Replace persistence with your API later.
+ * - Favorites and the list order belong to the logged-in user and follow them across dates
+ *   and devices (lib/preferences.ts); the order is changed by dragging in 並び順.
+ * - The server (POST /api/daily-sales, /api/daily-loss) holds the record; localStorage keeps
+ *   an offline draft per date until the server has accepted it (see lib/sync.ts).
+ * - Staff log in with a PIN (shared tablet); every line change is journaled under the
+ *   logged-in user and saved with the record's audit trail (see lib/audit.ts).
+ * - Line edits and 当日入力をリセット can be undone / redone (buttons, toast, Ctrl+Z / Ctrl+Shift+Z).
+ * - With several stores, the top bar switches store; wines, records and drafts follow it (lib/stores.ts).
  */
 
 // --- Types
 
-type Wine = {
-  id: string; // Wine ID (e.g., W-001)
-  name: string;
-  isActive?: boolean;
-};
-
-type SaleLine = {
-  wineId: string;
-  bottleQty: number; // integer
-  glassQty: number; // integer
-};
-
-type LossType = "none" | "remaining_discard" | "broken";
-
-type LossLine = {
-  wineId: string;
-  lossType: LossType;
-  brokenBottles: number; // integer
-  // remaining_discard has no manual ml: in Excel it auto-calculates opened remainder.
-  note?: string;
-};
-
-type DailyRecord = {
-  dateISO: string; // YYYY-MM-DD
-  sales: Record<string, SaleLine>;
-  losses: Record<string, LossLine>;
-  favorites: Record<string, boolean>;
-};
-
-// --- Helpers
-
-const pad2 = (n: number) => (n < 10 ? `0${n}` : `${n}`);
-
-function todayISO(): string {
-  const d = new Date();
-  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
-}
-
-function clampInt(n: number, min = 0, max = 999): number {
-  if (Number.isNaN(n)) return min;
-  return Math.max(min, Math.min(max, Math.trunc(n)));
-}
-
-function lsKey(dateISO: string) {
-  return `winebar.daily.${dateISO}`;
-}
+type Step = "sales" | "losses" | "stocktake" | "review";
 
-function readRecord(dateISO: string): DailyRecord | null {
-  try {
-    const raw = localStorage.getItem(lsKey(dateISO));
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    if (!parsed?.dateISO) return null;
-    return parsed as DailyRecord;
-  } catch {
-    return null;
-  }
-}
+type LoadState = "loading" | "ready" | "error";
 
-function writeRecord(rec: DailyRecord) {
-  localStorage.setItem(lsKey(rec.dateISO), JSON.stringify(rec));
-}
-
-// --- Demo master (replace with API: GET /api/wines)
-
-const DEMO_WINES: Wine[] = Array.from({ length: 30 }).map((_, i) => {
-  const idx = i + 1;
-  return {
-    id: `W-${String(idx).padStart(3, "0")}`,
-    name: `Wine ${String(idx).padStart(2, "0")}`,
-    isActive: true,
-  };
-});
+type SaveState = "idle" | "saving" | "queued" | "error";
 
 // --- UI components
 
@@ -105,8 +140,17 @@ function TopBar({
   canBack,
   canNext,
   saveLabel,
+  userName,
+  onSwitchUser,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  stores,
+  storeId,
+  onStoreId,
 }: {
-  step: "sales" | "losses";
+  step: Step;
   dateISO: string;
   onDateISO: (v: string) => void;
   onBack: () => void;
@@ -115,6 +159,15 @@ function TopBar({
   canBack: boolean;
   canNext: boolean;
   saveLabel: string;
+  userName: string;
+  onSwitchUser: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  stores: Store[];
+  storeId: string;
+  onStoreId: (id: string) => void;
 }) {
   return (
     <div className="sticky top-0 z-30 bg-background/90 backdrop-blur border-b">
@@ -122,8 +175,24 @@ function TopBar({
         <div className="flex items-center gap-2">
           <Badge variant={step === "sales" ? "default" : "secondary"}>日次売上</Badge>
           <Badge variant={step === "losses" ? "default" : "secondary"}>日次ロス</Badge>
+          <Badge variant={step === "stocktake" ? "default" : "secondary"}>棚卸</Badge>
+          <Badge variant={step === "review" ? "default" : "secondary"}>確認・締め</Badge>
         </div>
         <div className="ml-auto flex items-center gap-2">
+          {stores.length > 1 && (
+            <Select value={storeId} onValueChange={onStoreId}>
+              <SelectTrigger className="w-[140px] rounded-2xl" aria-label="店舗">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {stores.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <div className="hidden sm:flex items-center gap-2">
             <Label className="text-sm text-muted-foreground">日付</Label>
             <Input
@@ -133,6 +202,17 @@ function TopBar({
               className="w-[160px]"
             />
           </div>
+          <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo} title="元に戻す（Ctrl+Z）" aria-label="元に戻す">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo} title="やり直す（Ctrl+Shift+Z）" aria-label="やり直す">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onSwitchUser} title="スタッフ交代">
+            <UserRound className="h-4 w-4 mr-2" />
+            {userName}
+            <span className="ml-1 text-xs text-muted-foreground">交代</span>
+          </Button>
           <Button variant="ghost" size="sm" onClick={onSave}>
             <Save className="h-4 w-4 mr-2" />
             {saveLabel}
@@ -158,81 +238,22 @@ function TopBar({
   );
 }
 
-function QtyCell({
-  value,
-  onChange,
-  ariaLabel,
-  autoFocus,
-}: {
-  value: number;
-  onChange: (next: number) => void;
-  ariaLabel: string;
-  autoFocus?: boolean;
-}) {
-  const [draft, setDraft] = useState<string>(String(value || ""));
-  const lastValueRef = useRef(value);
-
-  useEffect(() => {
-    if (lastValueRef.current !== value) {
-      lastValueRef.current = value;
-      setDraft(value ? String(value) : "");
-    }
-  }, [value]);
-
-  const commit = () => {
-    const next = clampInt(parseInt(draft || "0", 10), 0, 999);
-    onChange(next);
-    setDraft(next ? String(next) : "");
-  };
-
-  return (
-    <div className="flex items-center gap-2">
-      <Button
-        variant="outline"
-        size="icon"
-        className="h-9 w-9 rounded-xl"
-        onClick={() => onChange(clampInt(value - 1))}
-        aria-label={`${ariaLabel} -1`}
-      >
-        −
-      </Button>
-      <Input
-        inputMode="numeric"
-        pattern="[0-9]*"
-        value={draft}
-        onChange={(e) => setDraft(e.target.value.replace(/[^0-9]/g, ""))}
-        onBlur={commit}
-        onKeyDown={(e) => {
-          if (e.key === "Enter") {
-            (e.target as HTMLInputElement).blur();
-          }
-        }}
-        autoFocus={autoFocus}
-        aria-label={ariaLabel}
-        className="w-16 text-center rounded-xl"
-        placeholder="0"
-      />
-      <Button
-        variant="outline"
-        size="icon"
-        className="h-9 w-9 rounded-xl"
-        onClick={() => onChange(clampInt(value + 1))}
-        aria-label={`${ariaLabel} +1`}
-      >
-        +
-      </Button>
-    </div>
-  );
-}
-
 function WineRowHeader({
   wine,
   isFavorite,
   onToggleFavorite,
+  onOpenDetail,
+  stock,
+  updated,
+  match,
 }: {
   wine: Wine;
   isFavorite: boolean;
   onToggleFavorite: () => void;
+  onOpenDetail: () => void;
+  stock?: number | null; // expected bottles on hand; null = no ledger for this wine
+  updated?: string; // "name HH:mm" of the last saved change to this row's line
+  match?: WineMatch; // what the search matched, highlighted
 }) {
   return (
     <div className="min-w-0">
@@ -244,54 +265,248 @@ function WineRowHeader({
         >
           <Star className={`h-4 w-4 ${isFavorite ? "fill-current" : ""}`} />
         </button>
-        <div className="min-w-0">
-          <div className="truncate font-medium">{wine.name}</div>
-          <div className="truncate text-xs text-muted-foreground">{wine.id}</div>
-        </div>
+        <button onClick={onOpenDetail} className="min-w-0 text-left rounded-lg hover:bg-muted px-1 -mx-1">
+          <div className="truncate font-medium">
+            <Highlight text={wine.name} ranges={match?.name} />
+          </div>
+          <div className="truncate text-xs text-muted-foreground">
+            {wine.id}
+            {!!match?.producer.length && (
+              <span className="ml-2">
+                <Highlight text={wine.producer} ranges={match.producer} />
+              </span>
+            )}
+            {stock !== undefined && stock !== null && (
+              <span className={`ml-2 ${stock < 0 ? "text-destructive" : ""}`}>在庫 {stock}本</span>
+            )}
+          </div>
+          {updated && <div className="truncate text-xs text-muted-foreground">最終更新 {updated}</div>}
+        </button>
       </div>
     </div>
   );
 }
 
+function OutlierNote({ anomaly }: { anomaly?: Anomaly }) {
+  if (!anomaly) return null;
+  return (
+    <div className="flex items-start gap-1 text-xs text-amber-600 max-w-[200px]">
+      <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+      <span>{anomaly.message}</span>
+    </div>
+  );
+}
+
 // --- Main App
 
 export default function WineBarDailyOpsPrototype() {
-  const [dateISO, setDateISO] = useState<string>(todayISO());
-  const [step, setStep] = useState<"sales" | "losses">("sales");
+  const staff = useStaffSession();
+  const userId = staff.user?.id ?? "";
+  const setStaffUser = staff.setUser;
+  const [users, setUsers] = useState<User[]>([]);
+  const { prefs, save: savePrefs } = usePreferences(userId);
+  const favorites = useMemo(() => new Set(prefs.favorites), [prefs.favorites]);
+  const [ordering, setOrdering] = useState<boolean>(false);
+  const [posImporting, setPosImporting] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!staff.user) return;
+    fetchUsers()
+      .then(setUsers)
+      .catch(() => setUsers(staff.user ? [staff.user] : []));
+  }, [staff.user]);
+
+  // The store this device works for; every request and draft is per store.
+  const [storeId, setStoreId] = useState<string>(() => currentStoreId());
+  const [stores, setStores] = useState<Store[]>([]);
+  const store = stores.find((s) => s.id === storeId);
+
+  useEffect(() => {
+    if (!staff.user) return;
+    fetchStores()
+      .then((list) => {
+        // A store disabled meanwhile is refused by the API: go back to the first store.
+        if (list.some((s) => s.id === storeId && s.isActive === false)) switchStore(DEFAULT_STORE_ID);
+        setStores(list.filter((s) => s.isActive !== false));
+      })
+      .catch(() => {
+        // Offline: no switcher; keep working for the current store.
+      });
+  }, [staff.user]);
+
+  const switchStore = (id: string) => {
+    setCurrentStoreId(id); // before the effects below refetch with the new X-Store-Id
+    setStoreId(id);
+  };
+
+  const [dateISO, setDateISO] = useState<string>(() => businessDateISO(DEFAULT_SETTINGS.businessDayCutoffHour));
+  const [step, setStep] = useState<Step>("sales");
   const [query, setQuery] = useState<string>("");
   const [showOnlyTouched, setShowOnlyTouched] = useState<boolean>(false);
   const [showOnlyFavorites, setShowOnlyFavorites] = useState<boolean>(false);
 
-  const wines = useMemo(() => DEMO_WINES.filter((w) => w.isActive !== false), []);
+  // Grid grouping (lib/grouping.ts); the chips filter on the values of the same key.
+  const [groupBy, setGroupBy] = useState<WineGroupKey | "none">("color");
+  const [groupFilter, setGroupFilter] = useState<string[]>([]);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
 
-  const [record, setRecord] = useState<DailyRecord>(() => {
-    const existing = typeof window !== "undefined" ? readRecord(todayISO()) : null;
-    if (existing) return existing;
-    return {
-      dateISO: todayISO(),
-      sales: {},
-      losses: {},
-      favorites: {},
+  const changeGroupBy = (key: WineGroupKey | "none") => {
+    setGroupBy(key);
+    setGroupFilter([]);
+    setCollapsedGroups(new Set());
+  };
+
+  const toggleGroupFilter = (value: string) =>
+    setGroupFilter((prev) => (prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value]));
+
+  const toggleGroup = (value: string) =>
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(value)) next.delete(value);
+      else next.add(value);
+      return next;
+    });
+
+  const [allWines, setAllWines] = useState<Wine[]>([]);
+  const [winesState, setWinesState] = useState<LoadState>("loading");
+  const [winesError, setWinesError] = useState<string>("");
+
+  const loadWines = () => {
+    setWinesState("loading");
+    fetchWines({ activeOnly: true })
+      .then((list) => {
+        setAllWines(list);
+        setWinesState("ready");
+      })
+      .catch((err: Error) => {
+        setWinesError(err.message);
+        setWinesState("error");
+      });
+  };
+
+  // The read routes need a session: load once somebody is logged in.
+  useEffect(() => {
+    if (userId) loadWines();
+  }, [storeId, userId]);
+
+  const [positions, setPositions] = useState<Record<string, StockPosition>>({});
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    fetchStockPositions(dateISO)
+      .then((p) => !cancelled && setPositions(p))
+      .catch(() => !cancelled && setPositions({}));
+    return () => {
+      cancelled = true;
     };
-  });
+  }, [dateISO, storeId, userId]);
+
+  // Recent saved days, for the plausibility checks on entered quantities.
+  const [history, setHistory] = useState<{ stats: Record<string, WineStats>; days: number }>({ stats: {}, days: 0 });
+  const [acknowledged, setAcknowledged] = useState<Set<string>>(new Set());
 
-  // Reload when date changes
   useEffect(() => {
-    const existing = readRecord(dateISO);
-    if (existing) {
-      setRecord(existing);
-    } else {
-      setRecord({
-        dateISO,
-        sales: {},
-        losses: {},
-        favorites: record.favorites ?? {},
+    let cancelled = false;
+    setAcknowledged(new Set());
+    if (!userId) return;
+    fetchDailyRecords(addDays(dateISO, -30), addDays(dateISO, -1))
+      .then((records) => !cancelled && setHistory({ stats: historyStats(records), days: records.length }))
+      .catch(() => !cancelled && setHistory({ stats: {}, days: 0 }));
+    return () => {
+      cancelled = true;
+    };
+  }, [dateISO, storeId, userId]);
+
+  // Wine whose history panel is open (tap on the name in its row).
+  const [detailWineId, setDetailWineId] = useState<string | null>(null);
+  const closeDetail = useCallback(() => setDetailWineId(null), []);
+
+  // Barcode scan: the row found is scrolled into view and highlighted for a moment.
+  const [scanning, setScanning] = useState<boolean>(false);
+  const closeScanner = useCallback(() => setScanning(false), []);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!highlightId) return;
+    document.getElementById(`wine-row-${highlightId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const t = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(t);
+  }, [highlightId]);
+
+  // 棚卸: bottles counted at the end of the day, saved separately from the daily record.
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [countsDirty, setCountsDirty] = useState<boolean>(false);
+  const countsRef = useRef(counts);
+  countsRef.current = counts;
+
+  useEffect(() => {
+    let cancelled = false;
+    setCounts({});
+    setCountsDirty(false);
+    if (!userId) return;
+    fetchStocktake(dateISO)
+      .then((st) => !cancelled && setCounts(st.counts))
+      .catch(() => {
+        // Offline: start from an empty count.
       });
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [dateISO, storeId, userId]);
+
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    fetchSettings()
+      .then(setSettings)
+      .catch(() => {
+        // Offline: the built-in default is close enough for a preview; the server recomputes on save.
+      });
+  }, []);
+
+  const wines = useMemo(() => allWines.filter((w) => isActiveIn(w, store)), [allWines, store]);
+
+  const [record, setRecord] = useState<DailyRecord>(() => {
+    const today = businessDateISO(DEFAULT_SETTINGS.businessDayCutoffHour);
+    const existing = typeof window !== "undefined" ? readRecord(today, storeId) : null;
+    return existing ?? emptyRecord(today, storeId);
+  });
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  const [saveError, setSaveError] = useState<string>("");
+  const [pendingCount, setPendingCount] = useState<number>(0);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  // Queued saves the server refused on replay (e.g. the day was closed meanwhile).
+  const [rejected, setRejected] = useState<RejectedSave[]>([]);
+
+  // Undo / redo over this date's line edits (lib/undo.ts), and the toast offering the way back.
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  const [toast, setToast] = useState<{ message: string; action: ToastAction } | null>(null);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Reload when the date or store changes: local draft first (instant / offline), then the server copy.
+  useEffect(() => {
+    const existing = readRecord(dateISO, storeId);
+    setRecord(existing ?? emptyRecord(dateISO, storeId));
     setStep("sales");
     setQuery("");
     setShowOnlyTouched(false);
-  }, [dateISO]);
+    setSaveState("idle");
+    setUndoHistory(EMPTY_HISTORY);
+    setToast(null);
+
+    if (!userId) return;
+    let cancelled = false;
+    fetchDailyRecord(dateISO)
+      .then((server) => {
+        if (!cancelled) setRecord((prev) => hydrateFromServer(prev, server));
+      })
+      .catch(() => {
+        // Offline or server down: keep working on the draft.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dateISO, storeId, userId]);
 
   // Persist draft
   useEffect(() => {
@@ -310,23 +525,31 @@ export default function WineBarDailyOpsPrototype() {
     return s;
   }, [record.sales, record.losses]);
 
-  const filteredWines = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    return wines
-      .filter((w) => {
-        if (showOnlyFavorites && !record.favorites?.[w.id]) return false;
-        if (showOnlyTouched && !touchedWineIds.has(w.id)) return false;
-        if (!q) return true;
-        return w.id.toLowerCase().includes(q) || w.name.toLowerCase().includes(q);
-      })
-      .sort((a, b) => {
-        // Favorites first, then name
-        const af = record.favorites?.[a.id] ? 1 : 0;
-        const bf = record.favorites?.[b.id] ? 1 : 0;
-        if (af !== bf) return bf - af;
-        return a.name.localeCompare(b.name);
-      });
-  }, [wines, query, showOnlyTouched, showOnlyFavorites, record.favorites, touchedWineIds]);
+  const orderedWines = useMemo(() => sortWines(wines, prefs), [wines, prefs]);
+
+  // While a query is typed the list is ranked by lib/search.ts; otherwise it keeps the user's order.
+  const searchMatches = useMemo(() => {
+    const pool = orderedWines.filter(
+      (w) =>
+        (!showOnlyFavorites || favorites.has(w.id)) &&
+        (!showOnlyTouched || touchedWineIds.has(w.id)) &&
+        (groupBy === "none" || groupFilter.length === 0 || groupFilter.includes(groupValue(w, groupBy)))
+    );
+    return searchWines(pool, query);
+  }, [orderedWines, query, showOnlyTouched, showOnlyFavorites, favorites, touchedWineIds, groupBy, groupFilter]);
+
+  const filteredWines = useMemo(() => searchMatches.map((m) => m.wine), [searchMatches]);
+  const matchById = useMemo(() => new Map(searchMatches.map((m) => [m.wine.id, m])), [searchMatches]);
+
+  const wineGroups = useMemo(
+    () => (groupBy === "none" ? [{ value: "", label: "", wines: filteredWines }] : groupWines(filteredWines, groupBy)),
+    [filteredWines, groupBy]
+  );
+
+  const groupChips = useMemo(() => {
+    if (groupBy === "none") return [];
+    return groupValues(wines, groupBy).map((value) => ({ value, label: groupLabel(groupBy, value) }));
+  }, [wines, groupBy]);
 
   const totalBottle = useMemo(() => {
     let sum = 0;
@@ -340,18 +563,265 @@ export default function WineBarDailyOpsPrototype() {
     return sum;
   }, [record.sales]);
 
-  const salesComplete = true; // keep permissive: allow next even with zeros
-  const lossesComplete = true;
+  // Live preview of what the server will store as discardMl on save.
+  const opened = useMemo(
+    () => deriveOpened(record, wines, record.carryInMl ?? {}, settings.defaultPourMl),
+    [record, wines, settings.defaultPourMl]
+  );
+
+  const detailWine = wines.find((w) => w.id === detailWineId);
+
+  const anomalies = useMemo(
+    () => findAnomalies(wines, record, history.stats, history.days, positions, opened),
+    [wines, record, history, positions, opened]
+  );
+
+  const anomalyFor = (wineId: string, field: CheckedField) =>
+    anomalies.find((a) => a.wineId === wineId && a.field === field);
+
+  const money = useMemo(
+    () => dayMoney(wines, record, opened, settings.defaultPourMl),
+    [wines, record, opened, settings.defaultPourMl]
+  );
+
+  const variance = useMemo(
+    () => varianceReport(wines, positions, record, opened, counts, settings.varianceThresholdBottles),
+    [wines, positions, record, opened, counts, settings.varianceThresholdBottles]
+  );
+
+  const uncountedCount = useMemo(
+    () => wines.filter((w) => positions[w.id] && counts[w.id] === undefined).length,
+    [wines, positions, counts]
+  );
+
+  const saveLabel =
+    step === "sales" ? "売上を保存" : step === "losses" ? "ロスを保存" : step === "stocktake" ? "棚卸を保存" : "保存";
+
+  const isClosed = !!record.closedAt;
+  // Staff may look at other days but only change the current business day; the API checks the same.
+  const isManager = staff.user?.role === "manager";
+  const canEditDay = isManager || dateISO === businessDateISO(settings.businessDayCutoffHour);
+  const readOnly = isClosed || !canEditDay;
+  const [closeBusy, setCloseBusy] = useState<boolean>(false);
+  const [closeError, setCloseError] = useState<string>("");
+
+  const isDirty = !!(record.dirty?.sales || record.dirty?.losses);
+
+  const addConflict = (c: Conflict) =>
+    setConflicts((prev) => [...prev.filter((x) => !(sameDay(x, c) && x.part === c.part)), c]);
+
+  // POST one part of the record. Offline → queued (still counts as done for the flow);
+  // conflicting edits from another device → merge screen.
+  const saveToServer = async (part: DailyPart): Promise<boolean> => {
+    const sent = record;
+    setSaveState("saving");
+    try {
+      const res = await pushPart(sent, part);
+      setPendingCount(readOutbox().length);
+      if (res.status === "queued") {
+        setSaveState("queued");
+        return true;
+      }
+      if (res.status === "conflict") {
+        addConflict(res.conflict);
+        setSaveState("idle");
+        return false;
+      }
+      setRecord((prev) => markSaved(prev, part, sent[part], res.server, res.journal));
+      setSaveState("idle");
+      return true;
+    } catch (err) {
+      // Session expired or the account was disabled: log in again; the draft is kept.
+      if (err instanceof ApiError && err.status === 401) staff.setUser(null);
+      setSaveError((err as Error).message);
+      setSaveState("error");
+      return false;
+    }
+  };
+
+  // Replay queued saves on start-up, after a login and whenever the connection comes back.
+  useEffect(() => {
+    if (!userId) return;
+    const replay = async () => {
+      try {
+        const { saved, conflicts: found, rejected: refused, loggedOut } = await replayOutbox();
+        for (const s of saved) {
+          setRecord((prev) => (sameDay(prev, s) ? markSaved(prev, s.part, s.sent, s.server, s.journal) : prev));
+        }
+        found.forEach(addConflict);
+        if (refused.length) setRejected((prev) => [...prev, ...refused]);
+        if (loggedOut) setStaffUser(null);
+        setSaveState((prev) => (prev === "queued" && readOutbox().length === 0 ? "idle" : prev));
+      } catch {
+        // Server still unreachable: entries stay queued.
+      }
+      setPendingCount(readOutbox().length);
+    };
+    replay();
+    window.addEventListener("online", replay);
+    return () => window.removeEventListener("online", replay);
+  }, [userId, setStaffUser]);
+
+  const onResolveConflict = async (conflict: Conflict, picks: Record<string, "local" | "server">) => {
+    setConflicts((prev) => prev.filter((c) => c !== conflict));
+    if (sameDay(conflict, record)) {
+      const next = resolveConflict(record, conflict, picks);
+      setRecord(next);
+      // State is not updated yet inside this closure, so push the resolved draft directly.
+      const res = await pushPart(next, conflict.part);
+      if (res.status === "saved") {
+        setRecord((prev) => markSaved(prev, conflict.part, next[conflict.part], res.server, res.journal));
+      }
+      if (res.status === "conflict") addConflict(res.conflict);
+    } else {
+      const draft = readRecord(conflict.dateISO, conflict.storeId);
+      if (!draft) return;
+      const next = resolveConflict(draft, conflict, picks);
+      writeRecord(next);
+      const res = await pushPart(next, conflict.part);
+      if (res.status === "saved") writeRecord(markSaved(next, conflict.part, next[conflict.part], res.server, res.journal));
+      if (res.status === "conflict") addConflict(res.conflict);
+    }
+    setPendingCount(readOutbox().length);
+  };
+
+  // Outliers not yet acknowledged must be confirmed before a save; resolves false on "修正する".
+  const [confirming, setConfirming] = useState<{ items: Anomaly[]; resolve: (ok: boolean) => void } | null>(null);
+
+  const confirmOutliers = (parts: DailyPart[]) =>
+    new Promise<boolean>((resolve) => {
+      const items = anomalies.filter((a) => parts.includes(a.part) && !acknowledged.has(anomalyKey(a)));
+      if (items.length === 0) resolve(true);
+      else setConfirming({ items, resolve });
+    });
+
+  const onConfirmOutliers = (ok: boolean) => {
+    if (!confirming) return;
+    if (ok) setAcknowledged((prev) => new Set([...prev, ...confirming.items.map(anomalyKey)]));
+    confirming.resolve(ok);
+    setConfirming(null);
+  };
+
+  const checkedSave = async (part: DailyPart) => (await confirmOutliers([part])) && saveToServer(part);
 
-  const saveLabel = step === "sales" ? "下書き保存" : "下書き保存";
+  const saveAll = async () => {
+    const parts = (["sales", "losses"] as const).filter((part) => record.dirty?.[part]);
+    if (!(await confirmOutliers(parts))) return;
+    for (const part of parts) {
+      if (!(await saveToServer(part))) return;
+    }
+  };
+
+  const saveCounts = async (): Promise<boolean> => {
+    const sent = counts;
+    setSaveState("saving");
+    try {
+      await saveStocktake(dateISO, sent);
+      if (countsRef.current === sent) setCountsDirty(false);
+      setSaveState("idle");
+      return true;
+    } catch (err) {
+      setSaveError((err as Error).message);
+      setSaveState("error");
+      return false;
+    }
+  };
+
+  const setCount = (wineId: string, bottles: number) => {
+    setCounts((prev) => ({ ...prev, [wineId]: bottles }));
+    setCountsDirty(true);
+  };
+
+  // A scanned wine: its row is shown (filters cleared); in 棚卸 the scan also counts one bottle.
+  const onScanned = (wine: Wine): string => {
+    setQuery("");
+    setShowOnlyTouched(false);
+    setShowOnlyFavorites(false);
+    setGroupFilter([]);
+    if (groupBy !== "none") {
+      const value = groupValue(wine, groupBy);
+      setCollapsedGroups((prev) => new Set([...prev].filter((v) => v !== value)));
+    }
+    setHighlightId(wine.id);
+    if (step !== "stocktake") return wine.name;
+    if (readOnly) return `${wine.name}（閲覧のみのため数えません）`;
+    const bottles = (countsRef.current[wine.id] ?? 0) + 1;
+    countsRef.current = { ...countsRef.current, [wine.id]: bottles };
+    setCount(wine.id, bottles);
+    return `${wine.name}：${bottles}本`;
+  };
+
+  const assignJan = async (wine: Wine, jan: string) => {
+    const updated = await updateWine(wine.id, { jan });
+    setAllWines((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  // POST /daily-sales → on success move on to /daily-loss → 棚卸 → review and 締め.
+  const goNext = async () => {
+    if (step === "stocktake") {
+      if (!countsDirty || (await saveCounts())) setStep("review");
+    } else if (readOnly) {
+      setStep(step === "sales" ? "losses" : "stocktake");
+    } else if (step === "sales") {
+      if (await checkedSave("sales")) setStep("losses");
+    } else if (step === "losses") {
+      if (await checkedSave("losses")) setStep("stocktake");
+    }
+  };
+
+  const goBack = () =>
+    setStep(step === "review" ? "stocktake" : step === "stocktake" ? "losses" : "sales");
+
+  const runDayAction = async (action: () => Promise<ServerDailyRecord>) => {
+    setCloseBusy(true);
+    setCloseError("");
+    try {
+      const server = await action();
+      setRecord((prev) => hydrateFromServer(prev, server));
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) staff.setUser(null);
+      setCloseError((err as Error).message);
+    } finally {
+      setCloseBusy(false);
+    }
+  };
+
+  const wineName = (wineId: string) => allWines.find((w) => w.id === wineId)?.name ?? wineId;
 
   const resetDay = () => {
-    setRecord({ dateISO, sales: {}, losses: {}, favorites: record.favorites ?? {} });
+    if (readOnly || !isManager) return;
+    setUndoHistory((h) => remember(h, record, "リセット"));
+    setToast({ message: "当日の売上・ロスをリセットしました", action: "undo" });
+    // Only the lines are cleared: the close marker and the opened-bottle carry-in stay.
+    setRecord({
+      ...emptyRecord(dateISO, storeId),
+      closedAt: record.closedAt,
+      carryInMl: record.carryInMl,
+      base: record.base,
+      journal: recordReset(record, userId),
+      dirty: { sales: true, losses: true },
+    });
     setStep("sales");
   };
 
+  const applyPos = (lines: PosReviewLine[], usePos: Set<string>) => {
+    if (readOnly) return;
+    setUndoHistory((h) => remember(h, record, "POS取込"));
+    setToast({ message: "POSの売上を反映しました（未保存）", action: "undo" });
+    setRecord((prev) => applyPosSales(prev, lines, usePos, userId));
+  };
+
   const upsertSale = (wineId: string, patch: Partial<SaleLine>) => {
+    const cur = record.sales?.[wineId];
+    const changed =
+      (patch.bottleQty !== undefined && clampInt(patch.bottleQty) !== (cur?.bottleQty ?? 0)) ||
+      (patch.glassQty !== undefined && clampInt(patch.glassQty) !== (cur?.glassQty ?? 0));
+    if (changed && !readOnly) {
+      const field = patch.bottleQty !== undefined ? "ボトル" : "グラス";
+      setUndoHistory((h) => remember(h, record, `${wineName(wineId)} ${field}`, `sales:${wineId}:${field}`));
+    }
     setRecord((prev) => {
+      if (prev.closedAt || !canEditDay) return prev;
       const cur = prev.sales?.[wineId] || { wineId, bottleQty: 0, glassQty: 0 };
       const next: SaleLine = {
         wineId,
@@ -359,12 +829,34 @@ export default function WineBarDailyOpsPrototype() {
         glassQty: clampInt(patch.glassQty ?? cur.glassQty),
       };
       const sales = { ...(prev.sales || {}), [wineId]: next };
-      return { ...prev, sales };
+      const journal = recordEdit(prev.journal, "sales", wineId, prev.sales?.[wineId], next, userId);
+      return { ...prev, sales, journal, dirty: { ...prev.dirty, sales: true } };
     });
   };
 
   const upsertLoss = (wineId: string, patch: Partial<LossLine>) => {
+    const cur = record.losses?.[wineId];
+    const changed =
+      (patch.lossType !== undefined && patch.lossType !== (cur?.lossType ?? "none")) ||
+      (patch.brokenBottles !== undefined && clampInt(patch.brokenBottles) !== (cur?.brokenBottles ?? 0)) ||
+      (patch.note !== undefined && patch.note !== cur?.note) ||
+      ("reason" in patch && patch.reason !== cur?.reason) ||
+      (patch.photoIds !== undefined && patch.photoIds.join() !== (cur?.photoIds ?? []).join());
+    if (changed && !readOnly) {
+      const field =
+        "reason" in patch
+          ? "ロス理由"
+          : patch.photoIds !== undefined
+            ? "写真"
+            : patch.lossType !== undefined
+              ? "ロス種別"
+              : patch.brokenBottles !== undefined
+                ? "破損"
+                : "メモ";
+      setUndoHistory((h) => remember(h, record, `${wineName(wineId)} ${field}`, `losses:${wineId}:${field}`));
+    }
     setRecord((prev) => {
+      if (prev.closedAt || !canEditDay) return prev;
       const cur =
         prev.losses?.[wineId] || ({ wineId, lossType: "none", brokenBottles: 0 } as LossLine);
       const next: LossLine = {
@@ -373,37 +865,89 @@ export default function WineBarDailyOpsPrototype() {
         brokenBottles: clampInt(patch.brokenBottles ?? cur.brokenBottles),
         note: patch.note ?? cur.note,
       };
+      const reason = "reason" in patch ? patch.reason : cur.reason;
+      const photoIds = patch.photoIds ?? cur.photoIds;
+      if (reason) next.reason = reason;
+      if (photoIds?.length) next.photoIds = photoIds;
       const losses = { ...(prev.losses || {}), [wineId]: next };
-      return { ...prev, losses };
+      const journal = recordEdit(prev.journal, "losses", wineId, prev.losses?.[wineId], next, userId);
+      return { ...prev, losses, journal, dirty: { ...prev.dirty, losses: true } };
     });
   };
 
-  const toggleFavorite = (wineId: string) => {
-    setRecord((prev) => {
-      const favorites = { ...(prev.favorites || {}) };
-      favorites[wineId] = !favorites[wineId];
-      return { ...prev, favorites };
-    });
+  const applyHistory = (dir: ToastAction) => {
+    if (readOnly) return;
+    const res = (dir === "undo" ? undo : redo)(undoHistory, record, userId);
+    if (!res) return;
+    setUndoHistory(res.history);
+    setRecord(res.record);
+    setToast(
+      dir === "undo"
+        ? { message: `「${res.step.label}」を元に戻しました`, action: "redo" }
+        : { message: `「${res.step.label}」をやり直しました`, action: "undo" }
+    );
   };
 
+  // Desktop: Ctrl/⌘+Z undo, Ctrl/⌘+Shift+Z or Ctrl+Y redo. Text fields keep their own undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        e.preventDefault();
+        applyHistory(key === "y" || e.shiftKey ? "redo" : "undo");
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
   // Loss input should also show the full list (same as Sales).
 // Do not auto-enable the "touched only" filter; users can toggle it if needed.
 useEffect(() => {
   // no-op
 }, [step]);
 
+  const updatedText = (line?: SaleLine | LossLine) => {
+    if (!line?.updatedBy || !line.updatedAt) return undefined;
+    const name = users.find((u) => u.id === line.updatedBy)?.name ?? line.updatedBy;
+    return `${name} ${new Date(line.updatedAt).toLocaleTimeString("ja-JP", { hour: "2-digit", minute: "2-digit" })}`;
+  };
+
+  if (staff.state === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        読み込み中…
+      </div>
+    );
+  }
+
+  if (!staff.user) return <StaffLogin onLogin={staff.setUser} />;
+
   return (
     <div className="min-h-screen bg-background">
       <TopBar
         step={step}
         dateISO={dateISO}
         onDateISO={setDateISO}
-        onBack={() => setStep("sales")}
-        onNext={() => setStep(step === "sales" ? "losses" : "sales")}
-        onSave={() => writeRecord(record)}
-        canBack={step === "losses"}
-        canNext={step === "sales" ? salesComplete : lossesComplete}
+        onBack={goBack}
+        onNext={goNext}
+        onSave={() => (step === "review" ? saveAll() : step === "stocktake" ? saveCounts() : checkedSave(step))}
+        canBack={step !== "sales"}
+        canNext={saveState !== "saving" && step !== "review"}
         saveLabel={saveLabel}
+        userName={staff.user.name}
+        onSwitchUser={staff.signOut}
+        canUndo={!readOnly && undoHistory.past.length > 0}
+        canRedo={!readOnly && undoHistory.future.length > 0}
+        onUndo={() => applyHistory("undo")}
+        onRedo={() => applyHistory("redo")}
+        stores={stores}
+        storeId={storeId}
+        onStoreId={switchStore}
       />
 
       <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
@@ -412,198 +956,498 @@ useEffect(() => {
             <div className="flex items-start gap-3">
               <div className="min-w-0">
                 <CardTitle className="text-xl">
-                  {step === "sales" ? "日次売上入力" : "日次ロス入力"}
+                  {step === "sales"
+                    ? "日次売上入力"
+                    : step === "losses"
+                      ? "日次ロス入力"
+                      : step === "stocktake"
+                        ? "棚卸"
+                        : "確認・締め"}
                 </CardTitle>
                 <div className="text-sm text-muted-foreground mt-1">
                   {step === "sales"
                   ? "各ワインの販売数（ボトル・グラス）を入力。30銘柄でも迷わない導線にしています。"
-                  : "ロス入力も売上入力と同じく全銘柄一覧で入力できます。必要なら『入力済みのみ』で絞り込み。"}
+                  : step === "losses"
+                  ? "ロス入力も売上入力と同じく全銘柄一覧で入力できます。必要なら『入力済みのみ』で絞り込み。"
+                  : step === "stocktake"
+                  ? "セラーにある本数を数えて入力。記録上の在庫との差異をレポートします（任意の手順です）。"
+                  : "当日の売上・ロスを確認して締めます。締めた日は閲覧のみになります。"}
                 </div>
               </div>
 
               <div className="ml-auto flex items-center gap-2">
-                <Button variant="outline" size="sm" onClick={resetDay}>
-                  <RotateCcw className="h-4 w-4 mr-2" />
-                  当日入力をリセット
-                </Button>
+                {step === "sales" && !readOnly && (
+                  <Button variant="outline" size="sm" onClick={() => setPosImporting(true)}>
+                    <FileInput className="h-4 w-4 mr-2" />
+                    POS取込
+                  </Button>
+                )}
+                {isManager && (
+                  <Button variant="outline" size="sm" onClick={resetDay} disabled={readOnly}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    当日入力をリセット
+                  </Button>
+                )}
               </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            {/* Controls */}
-            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
-              <div className="relative flex-1">
-                <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  placeholder="検索（Wine ID / ワイン名）"
-                  className="pl-9 rounded-2xl"
-                />
+            {isClosed && step !== "review" && (
+              <div className="flex items-center gap-2 rounded-2xl border bg-muted/50 px-4 py-3 text-sm">
+                <Lock className="h-4 w-4" />
+                この日は締め済みです（閲覧のみ）。修正が必要な場合は「確認・締め」からマネージャーが再オープンしてください。
               </div>
-
-              <div className="flex items-center gap-3">
-                <label className="flex items-center gap-2 text-sm">
-                  <Checkbox checked={showOnlyTouched} onCheckedChange={(v) => setShowOnlyTouched(!!v)} />
-                  入力済みのみ
-                </label>
-                <label className="flex items-center gap-2 text-sm">
-                  <Checkbox
-                    checked={showOnlyFavorites}
-                    onCheckedChange={(v) => setShowOnlyFavorites(!!v)}
-                  />
-                  お気に入りのみ
-                </label>
+            )}
+            {!isClosed && !canEditDay && step !== "review" && (
+              <div className="flex items-center gap-2 rounded-2xl border bg-muted/50 px-4 py-3 text-sm">
+                <Lock className="h-4 w-4" />
+                スタッフが入力できるのは当日分のみです（閲覧のみ）。過去日の修正はマネージャーに依頼してください。
               </div>
-            </div>
+            )}
 
-            {/* KPIs */}
-            {step === "sales" ? (
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-                <Card className="rounded-2xl">
-                  <CardContent className="p-4">
-                    <div className="text-xs text-muted-foreground">ボトル合計</div>
-                    <div className="text-2xl font-semibold mt-1">{totalBottle}</div>
-                  </CardContent>
-                </Card>
-                <Card className="rounded-2xl">
-                  <CardContent className="p-4">
-                    <div className="text-xs text-muted-foreground">グラス合計</div>
-                    <div className="text-2xl font-semibold mt-1">{totalGlass}</div>
-                  </CardContent>
-                </Card>
-                <Card className="rounded-2xl col-span-2">
-                  <CardContent className="p-4">
-                    <div className="text-xs text-muted-foreground">入力のコツ</div>
-                    <div className="text-sm mt-1">
-                      まず検索で当日よく動く銘柄を絞り込み → +/- で数を入れると最速です。
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
+            {step === "review" ? (
+              <>
+                <DayReview
+                  record={record}
+                  wines={allWines}
+                  reasons={settings.lossReasons}
+                  busy={closeBusy}
+                  error={closeError}
+                  canClose={canEditDay}
+                  canReopen={isManager}
+                  onCloseDay={() => runDayAction(() => closeDay(dateISO))}
+                  onReopen={(reason) => runDayAction(() => reopenDay(dateISO, reason))}
+                />
+                <AuditLog record={record} wines={allWines} users={users} reasons={settings.lossReasons} />
+              </>
             ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                <Card className="rounded-2xl">
-                  <CardContent className="p-4">
-                    <div className="text-xs text-muted-foreground">対象日</div>
-                    <div className="text-lg font-semibold mt-1">{dateISO}</div>
-                  </CardContent>
-                </Card>
-                <Card className="rounded-2xl">
-                  <CardContent className="p-4">
-                    <div className="text-xs text-muted-foreground">入力対象（絞り込み後）</div>
-                    <div className="text-lg font-semibold mt-1">{filteredWines.length}銘柄</div>
-                  </CardContent>
-                </Card>
-                <Card className="rounded-2xl">
-                  <CardContent className="p-4">
-                    <div className="text-xs text-muted-foreground">推奨</div>
-                    <div className="text-sm mt-1">売上入力と同じく全銘柄一覧。必要なら『入力済みのみ』で絞り込み。</div>
-                  </CardContent>
-                </Card>
-              </div>
-            )}
+              <>
+                {/* Controls */}
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      placeholder="検索（ワイン名 / 生産者 / 品種・産地 / Wine ID / JAN）"
+                      className="pl-9 rounded-2xl"
+                    />
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setScanning(true)}>
+                    <ScanLine className="h-4 w-4 mr-2" />
+                    スキャン
+                  </Button>
+
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={showOnlyTouched} onCheckedChange={(v) => setShowOnlyTouched(!!v)} />
+                      入力済みのみ
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={showOnlyFavorites}
+                        onCheckedChange={(v) => setShowOnlyFavorites(!!v)}
+                      />
+                      お気に入りのみ
+                    </label>
+                    <Button variant="outline" size="sm" onClick={() => setOrdering(true)}>
+                      <ArrowUpDown className="h-4 w-4 mr-2" />
+                      並び順
+                    </Button>
+                  </div>
+                </div>
 
-            {/* Table */}
-            <div className="overflow-hidden rounded-2xl border">
-              <div className="grid grid-cols-1">
-                <div className="hidden sm:grid sm:grid-cols-[minmax(280px,1fr)_220px_220px] bg-muted/50 border-b px-4 py-3 text-sm font-medium">
-                  <div>ワイン</div>
-                  {step === "sales" ? (
-                    <>
-                      <div className="text-center">ボトル</div>
-                      <div className="text-center">グラス</div>
-                    </>
-                  ) : (
-                    <>
-                      <div className="text-center">ロス種別</div>
-                      <div className="text-center">破損本数</div>
-                    </>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={groupBy} onValueChange={(v) => changeGroupBy(v as WineGroupKey | "none")}>
+                    <SelectTrigger className="w-[150px] rounded-2xl" aria-label="グループ">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">グループなし</SelectItem>
+                      {(Object.keys(GROUP_KEY_LABEL) as WineGroupKey[]).map((k) => (
+                        <SelectItem key={k} value={k}>
+                          {GROUP_KEY_LABEL[k]}で分ける
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {groupChips.map((c) => (
+                    <button
+                      key={c.value}
+                      onClick={() => toggleGroupFilter(c.value)}
+                      aria-pressed={groupFilter.includes(c.value)}
+                      className={`rounded-full border px-3 py-1 text-sm ${
+                        groupFilter.includes(c.value) ? "border-primary bg-primary text-primary-foreground" : "hover:bg-muted"
+                      }`}
+                    >
+                      {c.label}
+                    </button>
+                  ))}
+                  {groupFilter.length > 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => setGroupFilter([])}>
+                      絞り込み解除
+                    </Button>
                   )}
                 </div>
 
-                <div className="divide-y">
-                  {filteredWines.map((w, idx) => {
-                    const isFav = !!record.favorites?.[w.id];
-                    const sale = record.sales?.[w.id] || { wineId: w.id, bottleQty: 0, glassQty: 0 };
-                    const loss =
-                      record.losses?.[w.id] || ({ wineId: w.id, lossType: "none", brokenBottles: 0 } as LossLine);
-
-                    return (
-                      <div
-                        key={w.id}
-                        className="grid grid-cols-1 sm:grid-cols-[minmax(280px,1fr)_220px_220px] gap-3 sm:gap-0 px-4 py-4 sm:py-3"
-                      >
-                        <WineRowHeader
-                          wine={w}
-                          isFavorite={isFav}
-                          onToggleFavorite={() => toggleFavorite(w.id)}
-                        />
-
-                        {step === "sales" ? (
-                          <>
-                            <div className="flex sm:justify-center items-center gap-3">
-                              <div className="sm:hidden text-xs text-muted-foreground w-14">ボトル</div>
-                              <QtyCell
-                                value={sale.bottleQty}
-                                onChange={(v) => upsertSale(w.id, { bottleQty: v })}
-                                ariaLabel={`${w.name} ボトル数`}
-                                autoFocus={idx === 0 && !query}
-                              />
-                            </div>
-                            <div className="flex sm:justify-center items-center gap-3">
-                              <div className="sm:hidden text-xs text-muted-foreground w-14">グラス</div>
-                              <QtyCell
-                                value={sale.glassQty}
-                                onChange={(v) => upsertSale(w.id, { glassQty: v })}
-                                ariaLabel={`${w.name} グラス数`}
-                              />
-                            </div>
-                          </>
-                        ) : (
-                          <>
-                            <div className="flex sm:justify-center items-center gap-3">
-                              <div className="sm:hidden text-xs text-muted-foreground w-14">種別</div>
-                              <Select
-                                value={loss.lossType}
-                                onValueChange={(v) => upsertLoss(w.id, { lossType: v as LossType })}
-                              >
-                                <SelectTrigger className="rounded-2xl w-[220px]">
-                                  <SelectValue placeholder="選択" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="none">なし</SelectItem>
-                                  <SelectItem value="remaining_discard">残量廃棄</SelectItem>
-                                  <SelectItem value="broken">破損</SelectItem>
-                                </SelectContent>
-                              </Select>
-                            </div>
-                            <div className="flex sm:justify-center items-center gap-3">
-                              <div className="sm:hidden text-xs text-muted-foreground w-14">破損</div>
-                              <QtyCell
-                                value={loss.brokenBottles}
-                                onChange={(v) => upsertLoss(w.id, { brokenBottles: v })}
-                                ariaLabel={`${w.name} 破損本数`}
-                              />
-                            </div>
-                          </>
-                        )}
+                {/* KPIs */}
+                {step === "sales" ? (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                      <Card className="rounded-2xl">
+                        <CardContent className="p-4">
+                          <div className="text-xs text-muted-foreground">ボトル合計</div>
+                          <div className="text-2xl font-semibold mt-1">{totalBottle}</div>
+                        </CardContent>
+                      </Card>
+                      <Card className="rounded-2xl">
+                        <CardContent className="p-4">
+                          <div className="text-xs text-muted-foreground">グラス合計</div>
+                          <div className="text-2xl font-semibold mt-1">{totalGlass}</div>
+                        </CardContent>
+                      </Card>
+                      <Card className="rounded-2xl">
+                        <CardContent className="p-4">
+                          <div className="text-xs text-muted-foreground">売上</div>
+                          <div className="text-lg font-semibold mt-1">{formatYen(money.revenue)}</div>
+                        </CardContent>
+                      </Card>
+                      <Card className="rounded-2xl">
+                        <CardContent className="p-4">
+                          <div className="text-xs text-muted-foreground">原価</div>
+                          <div className="text-lg font-semibold mt-1">{formatYen(money.cogs)}</div>
+                        </CardContent>
+                      </Card>
+                      <Card className="rounded-2xl">
+                        <CardContent className="p-4">
+                          <div className="text-xs text-muted-foreground">粗利</div>
+                          <div className="text-lg font-semibold mt-1">
+                            {formatYen(money.grossMargin)}
+                            {money.revenue > 0 && (
+                              <span className="text-xs text-muted-foreground ml-1">
+                                {Math.round((money.grossMargin / money.revenue) * 100)}%
+                              </span>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                      <Card className="rounded-2xl">
+                        <CardContent className="p-4">
+                          <div className="text-xs text-muted-foreground">ロス額</div>
+                          <div className={`text-lg font-semibold mt-1 ${money.lossCost > 0 ? "text-destructive" : ""}`}>
+                            {formatYen(money.lossCost)}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </div>
+                    {money.unpriced.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        グラス価格または原価が未設定の銘柄が{money.unpriced.length}件あります（0円として計算）。
                       </div>
-                    );
-                  })}
+                    )}
+                  </div>
+                ) : step === "stocktake" ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <Card className="rounded-2xl">
+                      <CardContent className="p-4">
+                        <div className="text-xs text-muted-foreground">カウント済み</div>
+                        <div className="text-lg font-semibold mt-1">
+                          {Object.keys(counts).length} / {wines.length}銘柄
+                        </div>
+                      </CardContent>
+                    </Card>
+                    <Card className="rounded-2xl">
+                      <CardContent className="p-4">
+                        <div className="text-xs text-muted-foreground">要確認（差異 ±{settings.varianceThresholdBottles}本超）</div>
+                        <div className="text-lg font-semibold mt-1">{variance.filter((v) => v.flagged).length}銘柄</div>
+                      </CardContent>
+                    </Card>
+                    <Card className="rounded-2xl">
+                      <CardContent className="p-4">
+                        <div className="text-xs text-muted-foreground">補正</div>
+                        <div className="text-sm mt-1">保存した実数が当日終了時点の在庫になり、翌日以降の予定在庫はそこから計算します。</div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <Card className="rounded-2xl">
+                      <CardContent className="p-4">
+                        <div className="text-xs text-muted-foreground">対象日</div>
+                        <div className="text-lg font-semibold mt-1">{dateISO}</div>
+                      </CardContent>
+                    </Card>
+                    <Card className="rounded-2xl">
+                      <CardContent className="p-4">
+                        <div className="text-xs text-muted-foreground">入力対象（絞り込み後）</div>
+                        <div className="text-lg font-semibold mt-1">{filteredWines.length}銘柄</div>
+                      </CardContent>
+                    </Card>
+                    <Card className="rounded-2xl">
+                      <CardContent className="p-4">
+                        <div className="text-xs text-muted-foreground">ロス額（原価）</div>
+                        <div className={`text-lg font-semibold mt-1 ${money.lossCost > 0 ? "text-destructive" : ""}`}>
+                          {formatYen(money.lossCost)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          破損 {formatYen(money.brokenCost)} / 残量廃棄 {formatYen(money.discardCost)}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
 
-                  {filteredWines.length === 0 && (
-                    <div className="px-4 py-10 text-center text-sm text-muted-foreground">
-                      該当するワインがありません。検索条件を見直してください。
+                {/* Table */}
+                <div className="overflow-hidden rounded-2xl border">
+                  <div className="grid grid-cols-1">
+                    <div className="hidden sm:grid sm:grid-cols-[minmax(280px,1fr)_220px_220px] bg-muted/50 border-b px-4 py-3 text-sm font-medium">
+                      <div>ワイン</div>
+                      {step === "sales" ? (
+                        <>
+                          <div className="text-center">ボトル</div>
+                          <div className="text-center">グラス</div>
+                        </>
+                      ) : step === "losses" ? (
+                        <>
+                          <div className="text-center">ロス種別</div>
+                          <div className="text-center">破損本数</div>
+                        </>
+                      ) : (
+                        <>
+                          <div className="text-center">予定在庫</div>
+                          <div className="text-center">実数</div>
+                        </>
+                      )}
                     </div>
-                  )}
+
+                    <div className="divide-y">
+                      {wineGroups.map((g) => {
+                        const collapsed = !query.trim() && collapsedGroups.has(g.value);
+                        const subtotal = groupSubtotal(g.wines, record.sales || {});
+                        return (
+                          <React.Fragment key={g.value}>
+                            {groupBy !== "none" && (
+                              <button
+                                onClick={() => toggleGroup(g.value)}
+                                aria-expanded={!collapsed}
+                                className="flex w-full items-center gap-2 bg-muted/30 px-4 py-2 text-left text-sm font-medium hover:bg-muted/60"
+                              >
+                                {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                {g.label}
+                                <span className="text-xs font-normal text-muted-foreground">{g.wines.length}銘柄</span>
+                                <span className="ml-auto text-xs font-normal text-muted-foreground">
+                                  ボトル {subtotal.bottles} / グラス {subtotal.glasses}
+                                </span>
+                              </button>
+                            )}
+                            {!collapsed &&
+                              g.wines.map((w) => {
+                                const isFav = favorites.has(w.id);
+                                const sale = record.sales?.[w.id] || { wineId: w.id, bottleQty: 0, glassQty: 0 };
+                                const loss =
+                                  record.losses?.[w.id] || ({ wineId: w.id, lossType: "none", brokenBottles: 0 } as LossLine);
+                                const lossYen = lossCost(w, record.losses?.[w.id], opened[w.id]?.discardMl);
+                                const expected = expectedEndBottles(
+                                  positions[w.id],
+                                  record.sales?.[w.id],
+                                  record.losses?.[w.id],
+                                  opened[w.id]
+                                );
+
+                                return (
+                                  <div
+                                    key={w.id}
+                                    id={`wine-row-${w.id}`}
+                                    className={`grid grid-cols-1 sm:grid-cols-[minmax(280px,1fr)_220px_220px] gap-3 sm:gap-0 px-4 py-4 sm:py-3 transition-colors ${
+                                      highlightId === w.id ? "bg-primary/10" : ""
+                                    }`}
+                                  >
+                                    <WineRowHeader
+                                      wine={w}
+                                      isFavorite={isFav}
+                                      onToggleFavorite={() => savePrefs(toggleFavorite(prefs, w.id))}
+                                      onOpenDetail={() => setDetailWineId(w.id)}
+                                      match={matchById.get(w.id)}
+                                      stock={step === "sales" ? expected : undefined}
+                                      updated={
+                                        step === "sales"
+                                          ? updatedText(record.sales?.[w.id])
+                                          : step === "losses"
+                                            ? updatedText(record.losses?.[w.id])
+                                            : undefined
+                                      }
+                                    />
+
+                                    {step === "sales" ? (
+                                      <>
+                                        <div className="flex sm:justify-center items-center gap-3">
+                                          <div className="sm:hidden text-xs text-muted-foreground w-14">ボトル</div>
+                                          <div className="flex flex-col gap-1">
+                                            <QtyCell
+                                              value={sale.bottleQty}
+                                              onChange={(v) => upsertSale(w.id, { bottleQty: v })}
+                                              ariaLabel={`${w.name} ボトル数`}
+                                              autoFocus={w.id === filteredWines[0]?.id && !query}
+                                              disabled={readOnly}
+                                            />
+                                            <OutlierNote anomaly={anomalyFor(w.id, "bottleQty")} />
+                                          </div>
+                                        </div>
+                                        <div className="flex sm:justify-center items-center gap-3">
+                                          <div className="sm:hidden text-xs text-muted-foreground w-14">グラス</div>
+                                          <div className="flex flex-col gap-1">
+                                            <QtyCell
+                                              value={sale.glassQty}
+                                              onChange={(v) => upsertSale(w.id, { glassQty: v })}
+                                              ariaLabel={`${w.name} グラス数`}
+                                              disabled={readOnly}
+                                            />
+                                            <OutlierNote anomaly={anomalyFor(w.id, "glassQty")} />
+                                          </div>
+                                        </div>
+                                      </>
+                                    ) : step === "losses" ? (
+                                      <>
+                                        <div className="flex sm:justify-center items-center gap-3">
+                                          <div className="sm:hidden text-xs text-muted-foreground w-14">種別</div>
+                                          <div className="flex flex-col sm:items-center gap-1">
+                                            <Select
+                                              value={loss.lossType}
+                                              onValueChange={(v) => upsertLoss(w.id, { lossType: v as LossType })}
+                                              disabled={readOnly}
+                                            >
+                                              <SelectTrigger className="rounded-2xl w-[220px]">
+                                                <SelectValue placeholder="選択" />
+                                              </SelectTrigger>
+                                              <SelectContent>
+                                                <SelectItem value="none">なし</SelectItem>
+                                                <SelectItem value="remaining_discard">残量廃棄</SelectItem>
+                                                <SelectItem value="broken">破損</SelectItem>
+                                              </SelectContent>
+                                            </Select>
+                                            {loss.lossType === "remaining_discard" && (
+                                              <div className="text-xs text-muted-foreground">
+                                                廃棄 {opened[w.id]?.discardMl ?? 0}ml（{formatYen(lossYen.discard)}）
+                                              </div>
+                                            )}
+                                          </div>
+                                        </div>
+                                        <div className="flex sm:justify-center items-center gap-3">
+                                          <div className="sm:hidden text-xs text-muted-foreground w-14">破損</div>
+                                          <div className="flex flex-col gap-1">
+                                            <div className="flex items-center gap-3">
+                                              <QtyCell
+                                                value={loss.brokenBottles}
+                                                onChange={(v) => upsertLoss(w.id, { brokenBottles: v })}
+                                                ariaLabel={`${w.name} 破損本数`}
+                                                disabled={readOnly}
+                                              />
+                                              {lossYen.broken > 0 && (
+                                                <div className="text-xs text-destructive">{formatYen(lossYen.broken)}</div>
+                                              )}
+                                            </div>
+                                            <OutlierNote anomaly={anomalyFor(w.id, "brokenBottles")} />
+                                          </div>
+                                        </div>
+                                        <LossDetails
+                                          line={loss}
+                                          wineName={w.name}
+                                          reasons={settings.lossReasons}
+                                          disabled={readOnly}
+                                          onChange={(patch) => upsertLoss(w.id, patch)}
+                                        />
+                                      </>
+                                    ) : (
+                                      <>
+                                        <div className="flex sm:justify-center items-center gap-3">
+                                          <div className="sm:hidden text-xs text-muted-foreground w-14">予定</div>
+                                          <div className="text-lg font-semibold">{expected ?? "—"}</div>
+                                        </div>
+                                        <div className="flex sm:justify-center items-center gap-3">
+                                          <div className="sm:hidden text-xs text-muted-foreground w-14">実数</div>
+                                          <QtyCell
+                                            value={counts[w.id] ?? 0}
+                                            onChange={(v) => setCount(w.id, v)}
+                                            ariaLabel={`${w.name} 実数`}
+                                            disabled={readOnly}
+                                          />
+                                        </div>
+                                      </>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                          </React.Fragment>
+                        );
+                      })}
+
+                      {winesState === "loading" && (
+                        <div className="px-4 py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          ワインマスタを読み込み中…
+                        </div>
+                      )}
+
+                      {winesState === "error" && (
+                        <div className="px-4 py-10 text-center text-sm space-y-3">
+                          <div className="text-destructive">ワインマスタを取得できませんでした（{winesError}）</div>
+                          <Button variant="outline" size="sm" onClick={loadWines}>
+                            再読み込み
+                          </Button>
+                        </div>
+                      )}
+
+                      {winesState === "ready" && filteredWines.length === 0 && (
+                        <div className="px-4 py-10 text-center text-sm text-muted-foreground">
+                          該当するワインがありません。検索条件を見直してください。
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {step === "stocktake" && (
+                  <VarianceReport
+                    lines={variance}
+                    wines={wines}
+                    thresholdBottles={settings.varianceThresholdBottles}
+                    uncounted={uncountedCount}
+                  />
+                )}
+              </>
+            )}
+
+            {rejected.length > 0 && (
+              <div className="flex items-start gap-2 rounded-2xl border border-destructive/50 px-4 py-3 text-sm text-destructive">
+                <div className="flex-1 space-y-1">
+                  <div>送信待ちの保存がサーバーに受け付けられませんでした。入力は端末の下書きに残っています。</div>
+                  {rejected.map((r) => (
+                    <div key={`${r.storeId}/${r.dateISO}/${r.part}`} className="text-xs">
+                      {r.dateISO} の{r.part === "sales" ? "売上" : "ロス"}：{r.message}
+                    </div>
+                  ))}
                 </div>
+                <Button variant="ghost" size="sm" onClick={() => setRejected([])}>
+                  閉じる
+                </Button>
               </div>
-            </div>
+            )}
 
             <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
               <div className="text-xs text-muted-foreground">
-                入力は自動で下書き保存されます（localStorage）。本番ではAPIに置き換えます。
+                {saveState === "saving" ? (
+                  "サーバーに保存中…"
+                ) : saveState === "queued" || pendingCount > 0 ? (
+                  `オフラインのため送信待ちです（${pendingCount}件）。接続が戻ると自動で送信します。`
+                ) : saveState === "error" ? (
+                  <span className="text-destructive">
+                    保存に失敗しました（{saveError}）。入力は端末に下書き保存されています。
+                  </span>
+                ) : isDirty ? (
+                  "未送信の変更があります（端末に下書き保存済み）。「保存」または「次へ」でサーバーに送信します。"
+                ) : (
+                  "サーバーと同期済みです。"
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Button
@@ -618,11 +1462,67 @@ useEffect(() => {
                 >
                   日次ロス
                 </Button>
+                <Button
+                  variant={step === "stocktake" ? "default" : "outline"}
+                  onClick={() => setStep("stocktake")}
+                >
+                  棚卸
+                </Button>
+                <Button
+                  variant={step === "review" ? "default" : "outline"}
+                  onClick={() => setStep("review")}
+                >
+                  確認・締め
+                </Button>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        <Card className="rounded-2xl shadow-sm">
+          <CardContent className="p-5 flex flex-wrap items-center gap-2">
+            <div className="font-medium mr-2">管理メニュー</div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/inventory">在庫・入荷</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/reports">レポート</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/deliveries">入荷入力</Link>
+            </Button>
+
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/export">エクスポート</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/stores/summary">店舗別サマリー</Link>
+            </Button>
+            {isManager && (
+              <>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/suppliers">仕入先</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/import">マスタ取込</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/staff">スタッフ・権限</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/stores">店舗</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/pos">POSコード</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/settings">設定</Link>
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Next steps note */}
         <Card className="rounded-2xl shadow-sm">
           <CardContent className="p-5 space-y-2">
@@ -635,6 +1535,78 @@ useEffect(() => {
           </CardContent>
         </Card>
       </div>
+
+      {conflicts.length > 0 && (
+        <ConflictMerge
+          key={`${conflicts[0].dateISO}:${conflicts[0].part}`}
+          conflict={conflicts[0]}
+          wines={allWines}
+          reasons={settings.lossReasons}
+          onResolve={(picks) => onResolveConflict(conflicts[0], picks)}
+          onLater={() => setConflicts((prev) => prev.slice(1))}
+        />
+      )}
+
+      {toast && (
+        <UndoToast
+          message={toast.message}
+          action={toast.action}
+          onAction={() => applyHistory(toast.action)}
+          onDismiss={dismissToast}
+        />
+      )}
+
+      {confirming && (
+        <AnomalyConfirm
+          anomalies={confirming.items}
+          wines={allWines}
+          onConfirm={() => onConfirmOutliers(true)}
+          onCancel={() => onConfirmOutliers(false)}
+        />
+      )}
+
+      {ordering && (
+        <WineOrderPanel wines={orderedWines} prefs={prefs} onSave={savePrefs} onClose={() => setOrdering(false)} />
+      )}
+
+      {scanning && (
+        <BarcodeScanner
+          wines={wines}
+          continuous={step === "stocktake"}
+          onWine={onScanned}
+          onAssign={isManager ? assignJan : undefined}
+          onClose={closeScanner}
+        />
+      )}
+
+      {posImporting && (
+        <PosImportPanel
+          dateISO={dateISO}
+          sales={record.sales ?? {}}
+          wines={wines}
+          canMap={isManager}
+          onApply={applyPos}
+          onClose={() => setPosImporting(false)}
+        />
+      )}
+
+      {detailWine && (
+        <WineDetail
+          wine={detailWine}
+          dateISO={dateISO}
+          sale={record.sales?.[detailWine.id]}
+          loss={record.losses?.[detailWine.id]}
+          position={positions[detailWine.id]}
+          expected={expectedEndBottles(
+            positions[detailWine.id],
+            record.sales?.[detailWine.id],
+            record.losses?.[detailWine.id],
+            opened[detailWine.id]
+          )}
+          reasons={settings.lossReasons}
+          onClose={closeDetail}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+import type { PosMapping, PosUnit, Wine } from "@/lib/types";
+import { fetchPosMappings, fetchSession, fetchWines, savePosMappings } from "@/lib/api";
+
+/**
+ * POS code mapping (managers only): which wine, and whether bottle or glass, each POS item
+ * code stands for. The POS import (入力画面 → POS取込) uses this table for every store;
+ * codes can also be mapped from the import's review as they come up.
+ */
+
+type LoadState = "loading" | "ready" | "error" | "forbidden";
+
+const UNIT_LABEL: Record<PosUnit, string> = { bottle: "ボトル", glass: "グラス" };
+
+function MappingRow({
+  mapping,
+  wines,
+  onChange,
+  onRemove,
+}: {
+  mapping: PosMapping;
+  wines: Wine[];
+  onChange: (mapping: PosMapping) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[160px_1fr_120px_auto] gap-2 sm:items-center px-4 py-3">
+      <Input
+        value={mapping.code}
+        onChange={(e) => onChange({ ...mapping, code: e.target.value })}
+        placeholder="商品コード"
+        aria-label="商品コード"
+      />
+      <Select value={mapping.wineId} onValueChange={(wineId) => onChange({ ...mapping, wineId })}>
+        <SelectTrigger className="rounded-2xl" aria-label="ワイン">
+          <SelectValue placeholder="ワインを選択" />
+        </SelectTrigger>
+        <SelectContent>
+          {wines.map((w) => (
+            <SelectItem key={w.id} value={w.id}>
+              {w.name}
+              {w.isActive === false ? "（無効）" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={mapping.unit} onValueChange={(v) => onChange({ ...mapping, unit: v as PosUnit })}>
+        <SelectTrigger className="rounded-2xl" aria-label="単位">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(UNIT_LABEL) as PosUnit[]).map((u) => (
+            <SelectItem key={u} value={u}>
+              {UNIT_LABEL[u]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="icon" onClick={onRemove} aria-label="削除">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export default function PosMappingPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [saved, setSaved] = useState<PosMapping[]>([]);
+  const [draft, setDraft] = useState<PosMapping[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const [me, mappings, allWines] = await Promise.all([fetchSession(), fetchPosMappings(), fetchWines()]);
+      if (me?.role !== "manager") {
+        setState("forbidden");
+        return;
+      }
+      setWines(allWines);
+      setSaved(mappings);
+      setDraft(mappings);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const save = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const next = await savePosMappings(draft.map((m) => ({ ...m, code: m.code.trim() })));
+      setSaved(next);
+      setDraft(next);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const valid = draft.every((m) => m.code.trim() && m.wineId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">POSコード対応表</h1>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">対応表を取得できませんでした。</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+        {state === "forbidden" && (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            この画面はマネージャーのみ利用できます。入力画面でマネージャーとしてログインしてください。
+          </div>
+        )}
+
+        {state === "ready" && (
+          <Card className="rounded-2xl shadow-sm">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">対応表（{saved.length}件）</CardTitle>
+              <div className="text-sm text-muted-foreground">
+                POSの商品コードごとに、ワインとボトル／グラスの別を登録します。全店舗で共通です。
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="overflow-hidden rounded-2xl border divide-y">
+                {draft.map((m, i) => (
+                  <MappingRow
+                    key={i}
+                    mapping={m}
+                    wines={wines}
+                    onChange={(next) => setDraft((prev) => prev.map((x, j) => (j === i ? next : x)))}
+                    onRemove={() => setDraft((prev) => prev.filter((_, j) => j !== i))}
+                  />
+                ))}
+                <div className="px-4 py-3 bg-muted/30">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDraft((prev) => [...prev, { code: "", wineId: "", unit: "bottle" }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    行を追加
+                  </Button>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDraft(saved)} disabled={busy || !dirty}>
+                  元に戻す
+                </Button>
+                <Button onClick={save} disabled={busy || !dirty || !valid}>
+                  {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  保存
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import type { ServerDailyRecord, Wine } from "@/lib/types";
+import { fetchDailyRecords, fetchWines } from "@/lib/api";
+import { addDays, todayISO } from "@/lib/dates";
+import { formatYen } from "@/lib/kpi";
+import { type Bucket, topLosses, topSellers, trend, weekdayPattern, wineTotals } from "@/lib/reports";
+import { BarChart, type ChartSeries } from "@/components/bar-chart";
+
+/**
+ * Reports over a date range of saved daily records: sales and losses per day / week /
+ * month, top sellers, highest-loss wines and weekday averages.
+ */
+
+type LoadState = "loading" | "ready" | "error";
+
+const PRESETS = [7, 30, 90, 365];
+
+const BUCKET_LABEL: Record<Bucket, string> = { day: "日", week: "週", month: "月" };
+
+const SALES_SERIES: ChartSeries[] = [
+  { key: "bottles", label: "ボトル", className: "bg-primary" },
+  { key: "glasses", label: "グラス", className: "bg-primary/40" },
+];
+
+const LOSS_SERIES: ChartSeries[] = [
+  { key: "brokenBottles", label: "破損（本）", className: "bg-destructive" },
+  { key: "discardBottles", label: "残量廃棄（本換算）", className: "bg-destructive/40" },
+];
+
+const one = (n: number) => (Math.round(n * 10) / 10).toLocaleString("ja-JP");
+
+export default function ReportsPage() {
+  const [to, setTo] = useState(todayISO());
+  const [from, setFrom] = useState(addDays(todayISO(), -29));
+  const [bucket, setBucket] = useState<Bucket>("day");
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [days, setDays] = useState<ServerDailyRecord[]>([]);
+  const [wines, setWines] = useState<Wine[]>([]);
+
+  const valid = !!from && !!to && from <= to;
+
+  const load = async () => {
+    if (!valid) return;
+    setState("loading");
+    try {
+      const [d, w] = await Promise.all([fetchDailyRecords(from, to), fetchWines()]);
+      setDays(d);
+      setWines(w);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [from, to]);
+
+  const nameOf = useMemo(() => {
+    const m = new Map(wines.map((w) => [w.id, w.name]));
+    return (id: string) => m.get(id) ?? id;
+  }, [wines]);
+
+  const points = useMemo(() => (valid ? trend(days, wines, from, to, bucket) : []), [days, wines, from, to, bucket, valid]);
+  const totals = useMemo(() => wineTotals(days, wines), [days, wines]);
+  const sellers = useMemo(() => topSellers(totals), [totals]);
+  const losers = useMemo(() => topLosses(totals), [totals]);
+  const weekdays = useMemo(() => weekdayPattern(days, wines), [days, wines]);
+
+  const sum = points.reduce(
+    (acc, p) => ({
+      bottles: acc.bottles + p.bottles,
+      glasses: acc.glasses + p.glasses,
+      revenue: acc.revenue + p.revenue,
+      lossCost: acc.lossCost + p.lossCost,
+    }),
+    { bottles: 0, glasses: 0, revenue: 0, lossCost: 0 }
+  );
+
+  const chartPoints = (keys: ChartSeries[]) =>
+    points.map((p) => ({
+      label: p.label,
+      values: Object.fromEntries(keys.map((s) => [s.key, p[s.key as keyof typeof p] as number])),
+    }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">レポート</h1>
+        </div>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardContent className="p-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">開始日</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">終了日</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <div className="flex gap-2">
+                {PRESETS.map((n) => (
+                  <Button
+                    key={n}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setTo(todayISO());
+                      setFrom(addDays(todayISO(), -(n - 1)));
+                    }}
+                  >
+                    直近{n}日
+                  </Button>
+                ))}
+              </div>
+              <div className="flex gap-2 ml-auto">
+                {(Object.keys(BUCKET_LABEL) as Bucket[]).map((b) => (
+                  <Button key={b} size="sm" variant={bucket === b ? "default" : "outline"} onClick={() => setBucket(b)}>
+                    {BUCKET_LABEL[b]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {!valid && <div className="text-sm text-destructive mt-2">終了日は開始日以降にしてください。</div>}
+          </CardContent>
+        </Card>
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">記録を取得できませんでした（{error}）</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+
+        {state === "ready" && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <Card className="rounded-2xl">
+                <CardContent className="p-4">
+                  <div className="text-xs text-muted-foreground">記録のある日</div>
+                  <div className="text-lg font-semibold mt-1">{days.length}日</div>
+                </CardContent>
+              </Card>
+              <Card className="rounded-2xl">
+                <CardContent className="p-4">
+                  <div className="text-xs text-muted-foreground">ボトル</div>
+                  <div className="text-lg font-semibold mt-1">{sum.bottles}</div>
+                </CardContent>
+              </Card>
+              <Card className="rounded-2xl">
+                <CardContent className="p-4">
+                  <div className="text-xs text-muted-foreground">グラス</div>
+                  <div className="text-lg font-semibold mt-1">{sum.glasses}</div>
+                </CardContent>
+              </Card>
+              <Card className="rounded-2xl">
+                <CardContent className="p-4">
+                  <div className="text-xs text-muted-foreground">売上</div>
+                  <div className="text-lg font-semibold mt-1">{formatYen(sum.revenue)}</div>
+                </CardContent>
+              </Card>
+              <Card className="rounded-2xl">
+                <CardContent className="p-4">
+                  <div className="text-xs text-muted-foreground">ロス額</div>
+                  <div className="text-lg font-semibold mt-1">{formatYen(sum.lossCost)}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">販売数（{BUCKET_LABEL[bucket]}別）</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BarChart points={chartPoints(SALES_SERIES)} series={SALES_SERIES} format={one} />
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">ロス（{BUCKET_LABEL[bucket]}別）</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BarChart points={chartPoints(LOSS_SERIES)} series={LOSS_SERIES} stacked format={one} />
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Card className="rounded-2xl shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">売れ筋</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y text-sm">
+                    {sellers.map((t, i) => (
+                      <div key={t.wineId} className="flex items-center gap-3 py-2">
+                        <div className="w-5 text-muted-foreground">{i + 1}</div>
+                        <div className="truncate">{nameOf(t.wineId)}</div>
+                        <div className="ml-auto shrink-0 text-right">
+                          <div>{formatYen(t.revenue)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            ボトル {t.bottles} / グラス {t.glasses}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    {sellers.length === 0 && <div className="py-4 text-muted-foreground">売上の記録はありません。</div>}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="rounded-2xl shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">ロスの多いワイン</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y text-sm">
+                    {losers.map((t, i) => (
+                      <div key={t.wineId} className="flex items-center gap-3 py-2">
+                        <div className="w-5 text-muted-foreground">{i + 1}</div>
+                        <div className="truncate">{nameOf(t.wineId)}</div>
+                        <div className="ml-auto shrink-0 text-right">
+                          <div className="text-destructive">{formatYen(t.lossCost)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            破損 {t.brokenBottles}本 / 廃棄 {one(t.discardBottles)}本
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    {losers.length === 0 && <div className="py-4 text-muted-foreground">ロスの記録はありません。</div>}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">曜日別（1日平均）</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <BarChart
+                  points={weekdays.map((p) => ({ label: p.label, values: { bottles: p.bottles, glasses: p.glasses } }))}
+                  series={SALES_SERIES}
+                  format={one}
+                />
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground text-xs">
+                        <th className="text-left font-medium py-1">曜日</th>
+                        <th className="text-right font-medium">日数</th>
+                        <th className="text-right font-medium">ボトル</th>
+                        <th className="text-right font-medium">グラス</th>
+                        <th className="text-right font-medium">売上</th>
+                        <th className="text-right font-medium">ロス額</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {weekdays.map((p) => (
+                        <tr key={p.weekday}>
+                          <td className="py-1">{p.label}</td>
+                          <td className="text-right">{p.days}</td>
+                          <td className="text-right">{one(p.bottles)}</td>
+                          <td className="text-right">{one(p.glasses)}</td>
+                          <td className="text-right">{formatYen(p.revenue)}</td>
+                          <td className="text-right">{formatYen(p.lossCost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus } from "lucide-react";
+import type { LossReason, LossType, Settings } from "@/lib/types";
+import { fetchSession, fetchSettings, updateSettings } from "@/lib/api";
+import { LOSS_LABEL } from "@/lib/losses";
+
+/**
+ * Shop settings (managers only): the default glass pour, the stocktake variance threshold
+ * and the loss reasons offered in the loss rows. Reasons are disabled rather than deleted
+ * so that lines which already use one keep their label.
+ */
+
+type LoadState = "loading" | "ready" | "error" | "forbidden";
+
+function nextReasonId(reasons: LossReason[]): string {
+  const max = Math.max(0, ...reasons.map((r) => parseInt(r.id.replace(/^reason_/, ""), 10) || 0));
+  return `reason_${max + 1}`;
+}
+
+function ReasonRow({ reason, onChange }: { reason: LossReason; onChange: (reason: LossReason) => void }) {
+  const active = reason.isActive !== false;
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[140px_1fr_180px_auto] gap-2 sm:items-center px-4 py-3">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        {reason.id}
+        {!active && <Badge variant="outline">無効</Badge>}
+      </div>
+      <Input value={reason.label} onChange={(e) => onChange({ ...reason, label: e.target.value })} aria-label="理由" />
+      <Select value={reason.lossType} onValueChange={(v) => onChange({ ...reason, lossType: v as LossType })}>
+        <SelectTrigger className="rounded-2xl" aria-label="ロス種別">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(LOSS_LABEL).map(([type, label]) => (
+            <SelectItem key={type} value={type}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" variant="outline" onClick={() => onChange({ ...reason, isActive: !active })}>
+        {active ? "無効化" : "有効化"}
+      </Button>
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState<Settings | null>(null);
+  const [draft, setDraft] = useState<Settings | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const [me, settings] = await Promise.all([fetchSession(), fetchSettings()]);
+      if (me?.role !== "manager") {
+        setState("forbidden");
+        return;
+      }
+      setSaved(settings);
+      setDraft(settings);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const setReason = (i: number, reason: LossReason) =>
+    setDraft((prev) => prev && { ...prev, lossReasons: prev.lossReasons.map((r, j) => (j === i ? reason : r)) });
+
+  const addReason = () =>
+    setDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          lossReasons: [...prev.lossReasons, { id: nextReasonId(prev.lossReasons), label: "", lossType: "broken" }],
+        }
+    );
+
+  const save = async () => {
+    if (!draft) return;
+    setBusy(true);
+    setError("");
+    try {
+      const next = await updateSettings({
+        ...draft,
+        lossReasons: draft.lossReasons.map((r) => ({ ...r, label: r.label.trim() })),
+      });
+      setSaved(next);
+      setDraft(next);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const valid = !!draft && draft.lossReasons.every((r) => r.label.trim());
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">設定</h1>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">設定を取得できませんでした。</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+        {state === "forbidden" && (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            この画面はマネージャーのみ利用できます。入力画面でマネージャーとしてログインしてください。
+          </div>
+        )}
+
+        {state === "ready" && draft && (
+          <>
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">基本</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">グラス1杯の量（ml）</Label>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    value={draft.defaultPourMl}
+                    onChange={(e) => setDraft({ ...draft, defaultPourMl: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">棚卸差異の許容（本）</Label>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    value={draft.varianceThresholdBottles}
+                    onChange={(e) => setDraft({ ...draft, varianceThresholdBottles: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">営業日の切り替え時刻（時、0〜12）</Label>
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    value={draft.businessDayCutoffHour}
+                    onChange={(e) => setDraft({ ...draft, businessDayCutoffHour: Number(e.target.value) || 0 })}
+                  />
+                  <div className="text-xs text-muted-foreground">
+                    深夜0時からこの時刻までは前日の営業日として扱います（スタッフの入力可能日）。
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">ロス理由</CardTitle>
+                <div className="text-sm text-muted-foreground">
+                  ロス入力で選べる理由です。理由を選ぶと、ロス種別が未選択ならここで決めた種別が入ります。
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-hidden rounded-2xl border divide-y">
+                  {draft.lossReasons.map((r, i) => (
+                    <ReasonRow key={r.id} reason={r} onChange={(next) => setReason(i, next)} />
+                  ))}
+                  <div className="px-4 py-3 bg-muted/30">
+                    <Button size="sm" variant="outline" onClick={addReason}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      理由を追加
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(saved)} disabled={busy || !dirty}>
+                元に戻す
+              </Button>
+              <Button onClick={save} disabled={busy || !dirty || !valid}>
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                保存
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus } from "lucide-react";
+import type { Role, User } from "@/lib/types";
+import { createUser, fetchSession, fetchUsers, updateUser, type UserPatch } from "@/lib/api";
+
+/**
+ * Staff accounts and roles (managers only): add staff, rename, set a new PIN, assign the
+ * staff / manager role, or disable an account (disabled staff disappear from the login
+ * screen; their names stay in the audit log). There is always at least one active manager.
+ */
+
+type LoadState = "loading" | "ready" | "error" | "forbidden";
+
+const PIN_RE = /^\d{4,8}$/;
+
+const digits = (v: string) => v.replace(/\D/g, "").slice(0, 8);
+
+const ROLE_LABEL: Record<Role, string> = { staff: "スタッフ", manager: "マネージャー" };
+
+function RoleSelect({ value, onChange, disabled }: { value: Role; onChange: (role: Role) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as Role)} disabled={disabled}>
+      <SelectTrigger className="rounded-2xl" aria-label="権限">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ROLE_LABEL) as Role[]).map((r) => (
+          <SelectItem key={r} value={r}>
+            {ROLE_LABEL[r]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function StaffRow({ user, onSave }: { user: User; onSave: (patch: UserPatch) => Promise<void> }) {
+  const [name, setName] = useState(user.name);
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const active = user.isActive !== false;
+  const dirty = name.trim() !== user.name || !!pin;
+  const valid = !!name.trim() && (!pin || PIN_RE.test(pin));
+
+  const save = async (patch: UserPatch) => {
+    setBusy(true);
+    try {
+      await onSave(patch);
+      setPin("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr_150px_200px_auto] gap-2 sm:items-center px-4 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        {user.id}
+        {!active && <Badge variant="outline">無効</Badge>}
+      </div>
+      <Input value={name} onChange={(e) => setName(e.target.value)} aria-label="名前" />
+      <RoleSelect value={user.role} onChange={(role) => save({ role })} disabled={busy} />
+      <Input
+        type="password"
+        inputMode="numeric"
+        value={pin}
+        onChange={(e) => setPin(digits(e.target.value))}
+        placeholder="新しいPIN（変更時のみ）"
+        aria-label="新しいPIN"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => save({ name: name.trim(), ...(pin ? { pin } : {}) })}
+          disabled={busy || !dirty || !valid}
+        >
+          保存
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => save({ isActive: !active })} disabled={busy}>
+          {active ? "無効化" : "有効化"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function StaffPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [users, setUsers] = useState<User[]>([]);
+  const [name, setName] = useState("");
+  const [pin, setPin] = useState("");
+  const [role, setRole] = useState<Role>("staff");
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const [me, list] = await Promise.all([fetchSession(), fetchUsers()]);
+      if (me?.role !== "manager") {
+        setState("forbidden");
+        return;
+      }
+      setUsers(list);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const add = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const created = await createUser(name.trim(), pin, role);
+      setUsers((prev) => [...prev, created]);
+      setName("");
+      setPin("");
+      setRole("staff");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveUser = async (id: string, patch: UserPatch) => {
+    setError("");
+    try {
+      const updated = await updateUser(id, patch);
+      setUsers((prev) => prev.map((u) => (u.id === id ? updated : u)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">スタッフ・権限</h1>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">スタッフを取得できませんでした。</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+        {state === "forbidden" && (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            この画面はマネージャーのみ利用できます。入力画面でマネージャーとしてログインしてください。
+          </div>
+        )}
+
+        {state === "ready" && (
+          <Card className="rounded-2xl shadow-sm">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">スタッフ一覧</CardTitle>
+              <div className="text-sm text-muted-foreground">
+                スタッフは当日の売上・ロス・棚卸の入力のみ、マネージャーは過去日の修正・再オープン・リセット・マスタ管理もできます。
+                PINは数字4〜8桁で、変更するときだけ入力してください。
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-hidden rounded-2xl border divide-y">
+                {users.map((u) => (
+                  <StaffRow key={u.id} user={u} onSave={(patch) => saveUser(u.id, patch)} />
+                ))}
+                <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr_150px_200px_auto] gap-2 sm:items-center px-4 py-3 bg-muted/30">
+                  <div className="text-sm text-muted-foreground">新規</div>
+                  <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="名前" aria-label="名前" />
+                  <RoleSelect value={role} onChange={setRole} />
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    value={pin}
+                    onChange={(e) => setPin(digits(e.target.value))}
+                    placeholder="PIN"
+                    aria-label="PIN"
+                  />
+                  <Button size="sm" onClick={add} disabled={busy || !name.trim() || !PIN_RE.test(pin)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    追加
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
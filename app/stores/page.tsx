@@ -0,0 +1,290 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, Loader2, Plus } from "lucide-react";
+import type { Store, Wine } from "@/lib/types";
+import { createStore, fetchSession, fetchStores, fetchWines, type StorePatch, updateStore } from "@/lib/api";
+import { DEFAULT_STORE_ID } from "@/lib/stores";
+
+/**
+ * Stores (managers only): add a store, rename or disable it, and choose the wines it
+ * carries. A store without its own list offers every active wine of the master; daily
+ * records and inventory are kept per store. The first store cannot be disabled.
+ */
+
+type LoadState = "loading" | "ready" | "error" | "forbidden";
+
+function StoreRow({
+  store,
+  selected,
+  onSelect,
+  onSave,
+}: {
+  store: Store;
+  selected: boolean;
+  onSelect: () => void;
+  onSave: (patch: StorePatch) => Promise<void>;
+}) {
+  const [name, setName] = useState(store.name);
+  const [busy, setBusy] = useState(false);
+  const active = store.isActive !== false;
+
+  const save = async (patch: StorePatch) => {
+    setBusy(true);
+    try {
+      await onSave(patch);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr_140px_auto] gap-2 sm:items-center px-4 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        {store.id}
+        {!active && <Badge variant="outline">無効</Badge>}
+      </div>
+      <Input value={name} onChange={(e) => setName(e.target.value)} aria-label="店舗名" />
+      <div className="text-sm text-muted-foreground">
+        {store.wineIds ? `${store.wineIds.length}銘柄` : "全銘柄"}
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant={selected ? "default" : "outline"} onClick={onSelect}>
+          取扱銘柄
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => save({ name: name.trim() })}
+          disabled={busy || !name.trim() || name.trim() === store.name}
+        >
+          保存
+        </Button>
+        {store.id !== DEFAULT_STORE_ID && (
+          <Button size="sm" variant="outline" onClick={() => save({ isActive: !active })} disabled={busy}>
+            {active ? "無効化" : "有効化"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function WineList({
+  store,
+  wines,
+  onSave,
+}: {
+  store: Store;
+  wines: Wine[];
+  onSave: (wineIds: string[] | null) => Promise<void>;
+}) {
+  const [all, setAll] = useState(!store.wineIds);
+  const [picked, setPicked] = useState<Set<string>>(new Set(store.wineIds ?? wines.map((w) => w.id)));
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (id: string, on: boolean) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      await onSave(all ? null : wines.filter((w) => picked.has(w.id)).map((w) => w.id));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card className="rounded-2xl shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{store.name} の取扱銘柄</CardTitle>
+        <div className="text-sm text-muted-foreground">
+          選んだ銘柄だけがこの店舗の入力画面に表示されます。マスタで無効にした銘柄はどの店舗にも表示されません。
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={all} onCheckedChange={(v) => setAll(!!v)} />
+          マスタの有効な全銘柄を扱う
+        </label>
+        {!all && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">{picked.size}銘柄を選択中</span>
+              <Button size="sm" variant="ghost" onClick={() => setPicked(new Set(wines.map((w) => w.id)))}>
+                すべて選択
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setPicked(new Set())}>
+                すべて解除
+              </Button>
+            </div>
+            <div className="overflow-hidden rounded-2xl border divide-y">
+              {wines.map((w) => (
+                <label key={w.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <Checkbox checked={picked.has(w.id)} onCheckedChange={(v) => toggle(w.id, !!v)} />
+                  <span className="truncate">{w.name}</span>
+                  <span className="ml-auto shrink-0 text-xs text-muted-foreground">{w.id}</span>
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+        <Button onClick={save} disabled={busy}>
+          {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          取扱銘柄を保存
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function StoresPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [stores, setStores] = useState<Store[]>([]);
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const [me, list, allWines] = await Promise.all([fetchSession(), fetchStores(), fetchWines()]);
+      if (me?.role !== "manager") {
+        setState("forbidden");
+        return;
+      }
+      setStores(list);
+      setWines(allWines.filter((w) => w.isActive !== false));
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const add = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const created = await createStore(name.trim());
+      setStores((prev) => [...prev, created]);
+      setName("");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveStore = async (id: string, patch: StorePatch) => {
+    setError("");
+    try {
+      const updated = await updateStore(id, patch);
+      setStores((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const selected = stores.find((s) => s.id === selectedId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">店舗</h1>
+          <Button variant="outline" size="sm" className="ml-auto" asChild>
+            <Link href="/stores/summary">店舗別サマリー</Link>
+          </Button>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">店舗を取得できませんでした。</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+        {state === "forbidden" && (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            この画面はマネージャーのみ利用できます。入力画面でマネージャーとしてログインしてください。
+          </div>
+        )}
+
+        {state === "ready" && (
+          <>
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">店舗一覧</CardTitle>
+                <div className="text-sm text-muted-foreground">
+                  売上・ロス・棚卸・入荷は店舗ごとに記録されます。入力画面の上部で店舗を切り替えてください。
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-hidden rounded-2xl border divide-y">
+                  {stores.map((s) => (
+                    <StoreRow
+                      key={s.id}
+                      store={s}
+                      selected={s.id === selectedId}
+                      onSelect={() => setSelectedId(s.id === selectedId ? null : s.id)}
+                      onSave={(patch) => saveStore(s.id, patch)}
+                    />
+                  ))}
+                  <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr_auto] gap-2 sm:items-center px-4 py-3 bg-muted/30">
+                    <div className="text-sm text-muted-foreground">新規</div>
+                    <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="店舗名" aria-label="店舗名" />
+                    <Button size="sm" onClick={add} disabled={busy || !name.trim()}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      追加
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <WineList
+                key={selected.id}
+                store={selected}
+                wines={wines}
+                onSave={(wineIds) => saveStore(selected.id, { wineIds })}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import type { Wine } from "@/lib/types";
+import { fetchStoreSummary, fetchWines, type StoreRecords } from "@/lib/api";
+import { addDays, todayISO } from "@/lib/dates";
+import { formatYen } from "@/lib/kpi";
+import { rangeTotals, topSellers, type Totals, wineTotals } from "@/lib/reports";
+import { BarChart, type ChartSeries } from "@/components/bar-chart";
+
+/**
+ * Consolidated view over every store for a date range: sales, revenue and losses per
+ * store with the all-store total, and the best sellers across stores.
+ */
+
+type LoadState = "loading" | "ready" | "error";
+
+const PRESETS = [7, 30, 90, 365];
+
+const REVENUE_SERIES: ChartSeries[] = [
+  { key: "revenue", label: "売上", className: "bg-primary" },
+  { key: "lossCost", label: "ロス額", className: "bg-destructive/60" },
+];
+
+const one = (n: number) => (Math.round(n * 10) / 10).toLocaleString("ja-JP");
+
+type StoreRow = { id: string; name: string; days: number; totals: Totals };
+
+function TotalsCells({ days, totals }: { days: number; totals: Totals }) {
+  return (
+    <>
+      <div className="text-right">{days}日</div>
+      <div className="text-right">{totals.bottles}</div>
+      <div className="text-right">{totals.glasses}</div>
+      <div className="text-right">{formatYen(totals.revenue)}</div>
+      <div className="text-right">
+        {formatYen(totals.lossCost)}
+        <div className="text-xs text-muted-foreground">
+          破損 {totals.brokenBottles}本 / 廃棄 {one(totals.discardBottles)}本
+        </div>
+      </div>
+    </>
+  );
+}
+
+const GRID = "grid grid-cols-[1fr_60px_60px_60px_110px_150px] gap-2 items-center px-4 py-2";
+
+export default function StoreSummaryPage() {
+  const [to, setTo] = useState(todayISO());
+  const [from, setFrom] = useState(addDays(todayISO(), -29));
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [stores, setStores] = useState<StoreRecords[]>([]);
+  const [wines, setWines] = useState<Wine[]>([]);
+
+  const valid = !!from && !!to && from <= to;
+
+  const load = async () => {
+    if (!valid) return;
+    setState("loading");
+    try {
+      const [s, w] = await Promise.all([fetchStoreSummary(from, to), fetchWines()]);
+      setStores(s);
+      setWines(w);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [from, to]);
+
+  const rows = useMemo<StoreRow[]>(
+    () =>
+      stores.map(({ store, records }) => ({
+        id: store.id,
+        name: store.name,
+        days: records.length,
+        totals: rangeTotals(records, wines),
+      })),
+    [stores, wines]
+  );
+  const allRecords = useMemo(() => stores.flatMap((s) => s.records), [stores]);
+  const grand = useMemo(() => rangeTotals(allRecords, wines), [allRecords, wines]);
+  const sellers = useMemo(() => topSellers(wineTotals(allRecords, wines)), [allRecords, wines]);
+
+  const nameOf = useMemo(() => {
+    const m = new Map(wines.map((w) => [w.id, w.name]));
+    return (id: string) => m.get(id) ?? id;
+  }, [wines]);
+
+  const chartPoints = rows.map((r) => ({
+    label: r.name,
+    values: { revenue: r.totals.revenue, lossCost: r.totals.lossCost },
+  }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">店舗別サマリー</h1>
+        </div>
+
+        <Card className="rounded-2xl shadow-sm">
+          <CardContent className="p-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">開始日</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">終了日</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <div className="flex gap-2">
+                {PRESETS.map((n) => (
+                  <Button
+                    key={n}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setTo(todayISO());
+                      setFrom(addDays(todayISO(), -(n - 1)));
+                    }}
+                  >
+                    直近{n}日
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {!valid && <div className="text-sm text-destructive mt-2">終了日は開始日以降にしてください。</div>}
+          </CardContent>
+        </Card>
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">記録を取得できませんでした（{error}）</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+
+        {state === "ready" && (
+          <>
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">店舗別</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <div className="min-w-[640px] overflow-hidden rounded-2xl border divide-y text-sm">
+                    <div className={`${GRID} bg-muted/50 text-xs text-muted-foreground`}>
+                      <div>店舗</div>
+                      <div className="text-right">記録</div>
+                      <div className="text-right">ボトル</div>
+                      <div className="text-right">グラス</div>
+                      <div className="text-right">売上</div>
+                      <div className="text-right">ロス額</div>
+                    </div>
+                    {rows.map((r) => (
+                      <div key={r.id} className={GRID}>
+                        <div className="truncate">{r.name}</div>
+                        <TotalsCells days={r.days} totals={r.totals} />
+                      </div>
+                    ))}
+                    <div className={`${GRID} font-medium bg-muted/30`}>
+                      <div>全店合計</div>
+                      <TotalsCells days={allRecords.length} totals={grand} />
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">売上・ロス額（店舗別）</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BarChart points={chartPoints} series={REVENUE_SERIES} format={formatYen} />
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">全店の売れ筋</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y text-sm">
+                  {sellers.map((t, i) => (
+                    <div key={t.wineId} className="flex items-center gap-3 py-2">
+                      <div className="w-5 text-muted-foreground">{i + 1}</div>
+                      <div className="truncate">{nameOf(t.wineId)}</div>
+                      <div className="ml-auto shrink-0 text-right">
+                        <div>{formatYen(t.revenue)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          ボトル {t.bottles} / グラス {t.glasses}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {sellers.length === 0 && <div className="py-4 text-muted-foreground">売上の記録はありません。</div>}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus } from "lucide-react";
+import type { Supplier, Wine } from "@/lib/types";
+import { createSupplier, fetchSuppliers, fetchWines, updateSupplier, updateWine } from "@/lib/api";
+
+/**
+ * Supplier master: add and edit suppliers, and link each wine to the supplier it is bought
+ * from (used to narrow the delivery entry list).
+ */
+
+type LoadState = "loading" | "ready" | "error";
+
+type SupplierForm = Pick<Supplier, "name" | "contact" | "phone" | "email">;
+
+const EMPTY_FORM: SupplierForm = { name: "", contact: "", phone: "", email: "" };
+
+const NO_SUPPLIER = "none";
+
+function SupplierFields({ value, onChange }: { value: SupplierForm; onChange: (next: SupplierForm) => void }) {
+  const field = (key: keyof SupplierForm, placeholder: string) => (
+    <Input
+      value={value[key]}
+      onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+      placeholder={placeholder}
+      aria-label={placeholder}
+    />
+  );
+  return (
+    <>
+      {field("name", "仕入先名")}
+      {field("contact", "担当者")}
+      {field("phone", "電話")}
+      {field("email", "メール")}
+    </>
+  );
+}
+
+function SupplierRow({ supplier, onSave }: { supplier: Supplier; onSave: (patch: Partial<Supplier>) => Promise<void> }) {
+  const [form, setForm] = useState<SupplierForm>(supplier);
+  const [busy, setBusy] = useState(false);
+  const active = supplier.isActive !== false;
+  const dirty = (Object.keys(EMPTY_FORM) as (keyof SupplierForm)[]).some((k) => form[k] !== supplier[k]);
+
+  const save = async (patch: Partial<Supplier>) => {
+    setBusy(true);
+    try {
+      await onSave(patch);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr_1fr_1fr_1fr_auto] gap-2 sm:items-center px-4 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        {supplier.id}
+        {!active && <Badge variant="outline">無効</Badge>}
+      </div>
+      <SupplierFields value={form} onChange={setForm} />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => save(form)} disabled={busy || !dirty || !form.name.trim()}>
+          保存
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => save({ isActive: !active })} disabled={busy}>
+          {active ? "無効化" : "有効化"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function SuppliersPage() {
+  const [state, setState] = useState<LoadState>("loading");
+  const [error, setError] = useState("");
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [draft, setDraft] = useState<SupplierForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const [s, w] = await Promise.all([fetchSuppliers(), fetchWines({ activeOnly: true })]);
+      setSuppliers(s);
+      setWines(w);
+      setState("ready");
+    } catch (err) {
+      setError((err as Error).message);
+      setState("error");
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const add = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const created = await createSupplier(draft);
+      setSuppliers((prev) => [...prev, created]);
+      setDraft(EMPTY_FORM);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveSupplier = async (id: string, patch: Partial<Supplier>) => {
+    setError("");
+    try {
+      const updated = await updateSupplier(id, patch);
+      setSuppliers((prev) => prev.map((s) => (s.id === id ? updated : s)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const linkWine = async (wineId: string, value: string) => {
+    setError("");
+    try {
+      const updated = await updateWine(wineId, { supplierId: value === NO_SUPPLIER ? null : value });
+      setWines((prev) => prev.map((w) => (w.id === wineId ? updated : w)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const activeSuppliers = suppliers.filter((s) => s.isActive !== false);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              入力画面
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold">仕入先</h1>
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        {state === "loading" && (
+          <div className="py-10 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            読み込み中…
+          </div>
+        )}
+        {state === "error" && (
+          <div className="py-10 text-center text-sm space-y-3">
+            <div className="text-destructive">仕入先を取得できませんでした。</div>
+            <Button variant="outline" size="sm" onClick={load}>
+              再読み込み
+            </Button>
+          </div>
+        )}
+
+        {state === "ready" && (
+          <>
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Supplier_Master</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-hidden rounded-2xl border divide-y">
+                  {suppliers.map((s) => (
+                    <SupplierRow key={s.id} supplier={s} onSave={(patch) => saveSupplier(s.id, patch)} />
+                  ))}
+                  <div className="grid grid-cols-1 sm:grid-cols-[80px_1fr_1fr_1fr_1fr_auto] gap-2 sm:items-center px-4 py-3 bg-muted/30">
+                    <div className="text-sm text-muted-foreground">新規</div>
+                    <SupplierFields value={draft} onChange={setDraft} />
+                    <Button size="sm" onClick={add} disabled={busy || !draft.name.trim()}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      追加
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="rounded-2xl shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">ワインの仕入先</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-hidden rounded-2xl border divide-y">
+                  {wines.map((w) => (
+                    <div key={w.id} className="grid grid-cols-1 sm:grid-cols-[minmax(200px,1fr)_260px] gap-2 sm:items-center px-4 py-3">
+                      <div className="min-w-0">
+                        <div className="truncate font-medium">{w.name}</div>
+                        <div className="text-xs text-muted-foreground">{w.id}</div>
+                      </div>
+                      <Select value={w.supplierId ?? NO_SUPPLIER} onValueChange={(v) => linkWine(w.id, v)}>
+                        <SelectTrigger className="rounded-2xl" aria-label={`${w.name} 仕入先`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SUPPLIER}>未設定</SelectItem>
+                          {suppliers
+                            .filter((s) => s.isActive !== false || s.id === w.supplierId)
+                            .map((s) => (
+                              <SelectItem key={s.id} value={s.id}>
+                                {s.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {activeSuppliers.length === 0 && (
+                  <div className="pt-3 text-sm text-muted-foreground">先に仕入先を追加してください。</div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
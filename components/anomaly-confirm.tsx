@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle } from "lucide-react";
+import type { Wine } from "@/lib/types";
+import { type Anomaly, anomalyKey, FIELD_LABEL } from "@/lib/anomaly";
+
+/**
+ * Shown on save when entered quantities look implausible. Each outlier has to be ticked
+ * before saving; "修正する" goes back to the list without saving.
+ */
+export function AnomalyConfirm({
+  anomalies,
+  wines,
+  onConfirm,
+  onCancel,
+}: {
+  anomalies: Anomaly[];
+  wines: Wine[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const [checked, setChecked] = useState<Record<string, boolean>>({});
+  const nameOf = (id: string) => wines.find((w) => w.id === id)?.name ?? id;
+  const allChecked = anomalies.every((a) => checked[anomalyKey(a)]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4">
+      <Card className="rounded-2xl w-full max-w-2xl max-h-[85vh] overflow-y-auto">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            <CardTitle className="text-lg">入力値を確認してください</CardTitle>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {anomalies.length}件がいつもの数や在庫と合いません。正しければチェックを入れて保存してください。
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {anomalies.map((a) => {
+            const key = anomalyKey(a);
+            return (
+              <label key={key} className="flex items-start gap-3 rounded-xl border p-3 cursor-pointer">
+                <Checkbox
+                  checked={!!checked[key]}
+                  onCheckedChange={(v) => setChecked((prev) => ({ ...prev, [key]: v === true }))}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {nameOf(a.wineId)}：{FIELD_LABEL[a.field]} {a.value}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{a.message}</div>
+                </div>
+              </label>
+            );
+          })}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onCancel}>
+              修正する
+            </Button>
+            <Button onClick={onConfirm} disabled={!allChecked}>
+              確認して保存
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
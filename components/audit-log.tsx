@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight } from "lucide-react";
+import type { AuditEntry, DailyPart, DailyRecord, LossReason, User, Wine } from "@/lib/types";
+import { describeLine } from "@/lib/audit";
+
+/**
+ * 変更履歴 for one day: every change the server accepted (record.base.audit) plus the
+ * edits on this device that have not been saved yet, newest first.
+ */
+
+type Row = AuditEntry & { pending: boolean };
+
+type Filter = "all" | DailyPart;
+
+const FILTER_LABEL: Record<Filter, string> = { all: "すべて", sales: "売上", losses: "ロス" };
+
+const time = (iso: string) =>
+  new Date(iso).toLocaleString("ja-JP", { month: "numeric", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export function AuditLog({
+  record,
+  wines,
+  users,
+  reasons,
+}: {
+  record: DailyRecord;
+  wines: Wine[];
+  users: User[];
+  reasons: LossReason[];
+}) {
+  const [filter, setFilter] = useState<Filter>("all");
+
+  const wineName = (id: string) => wines.find((w) => w.id === id)?.name ?? id;
+  const userName = (id: string) => users.find((u) => u.id === id)?.name ?? id;
+
+  const rows: Row[] = [
+    ...(record.base?.audit ?? []).map((e) => ({ ...e, pending: false })),
+    ...(record.journal ?? []).map((e) => ({ ...e, byName: userName(e.by), savedBy: e.by, pending: true })),
+  ]
+    .filter((e) => filter === "all" || e.part === filter)
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  return (
+    <div className="rounded-2xl border">
+      <div className="bg-muted/50 border-b px-4 py-2 flex items-center gap-2">
+        <div className="text-sm font-medium">変更履歴</div>
+        <div className="ml-auto flex gap-1">
+          {(Object.keys(FILTER_LABEL) as Filter[]).map((f) => (
+            <Button key={f} size="sm" variant={filter === f ? "default" : "ghost"} onClick={() => setFilter(f)}>
+              {FILTER_LABEL[f]}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="divide-y text-sm">
+        {rows.map((e, i) => (
+          <div key={`${e.at}-${e.wineId}-${e.part}-${i}`} className="px-4 py-2 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-muted-foreground w-24 shrink-0">{time(e.at)}</span>
+              <span className="font-medium">{e.byName}</span>
+              <Badge variant="outline">{FILTER_LABEL[e.part]}</Badge>
+              {e.action === "reset" && <Badge variant="secondary">リセット</Badge>}
+              {e.action === "pos_import" && <Badge variant="secondary">POS取込</Badge>}
+              {e.pending && <Badge variant="secondary">未保存</Badge>}
+              <span className="truncate">{wineName(e.wineId)}</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+              <span>{describeLine(e.part, e.before, reasons)}</span>
+              <ArrowRight className="h-3.5 w-3.5" />
+              <span className="text-foreground">{describeLine(e.part, e.after, reasons)}</span>
+              {e.savedBy !== e.by && <span className="text-xs">（{userName(e.savedBy)} が送信）</span>}
+            </div>
+          </div>
+        ))}
+        {rows.length === 0 && <div className="px-4 py-4 text-muted-foreground">変更の記録はありません。</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import React from "react";
+
+/**
+ * Small dependency-free bar chart for the reports page: one column per point, series
+ * either stacked or side by side. Hover a column for its values.
+ */
+
+export type ChartSeries = { key: string; label: string; className: string };
+
+export type ChartPoint = { label: string; values: Record<string, number> };
+
+export function BarChart({
+  points,
+  series,
+  stacked = false,
+  format = (n) => String(Math.round(n * 10) / 10),
+}: {
+  points: ChartPoint[];
+  series: ChartSeries[];
+  stacked?: boolean;
+  format?: (n: number) => string;
+}) {
+  const columnMax = (p: ChartPoint) =>
+    stacked
+      ? series.reduce((sum, s) => sum + (p.values[s.key] || 0), 0)
+      : Math.max(0, ...series.map((s) => p.values[s.key] || 0));
+  const max = Math.max(0, ...points.map(columnMax));
+  // Keep labels readable when there are many columns (daily view over months).
+  const labelEvery = Math.max(1, Math.ceil(points.length / 16));
+  const pct = (n: number) => (max > 0 ? `${(n / max) * 100}%` : "0%");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {series.map((s) => (
+          <div key={s.key} className="flex items-center gap-1">
+            <span className={`inline-block h-2.5 w-2.5 rounded-sm ${s.className}`} />
+            {s.label}
+          </div>
+        ))}
+        <div className="ml-auto">最大 {format(max)}</div>
+      </div>
+      <div className="overflow-x-auto">
+        <div className="flex items-end gap-1 h-40 border-b" style={{ minWidth: points.length * 14 }}>
+          {points.map((p) => (
+            <div
+              key={p.label}
+              className={`flex-1 h-full flex items-end ${stacked ? "flex-col-reverse justify-start" : "gap-px"}`}
+              title={`${p.label}\n${series.map((s) => `${s.label}: ${format(p.values[s.key] || 0)}`).join("\n")}`}
+            >
+              {series.map((s) => (
+                <div
+                  key={s.key}
+                  className={`${stacked ? "w-full" : "flex-1"} rounded-t-sm ${s.className}`}
+                  style={{ height: pct(p.values[s.key] || 0) }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 pt-1" style={{ minWidth: points.length * 14 }}>
+          {points.map((p, i) => (
+            <div key={p.label} className="flex-1 text-center text-[10px] text-muted-foreground truncate">
+              {i % labelEvery === 0 ? p.label : ""}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScanLine, X } from "lucide-react";
+import type { Wine } from "@/lib/types";
+import { normalizeJan, winesByJan } from "@/lib/barcode";
+
+/**
+ * Camera barcode scanner (the browser's BarcodeDetector) for finding wines by JAN.
+ * Where the browser has no BarcodeDetector, or for a USB scanner, the code can be typed
+ * into the field below the camera. `continuous` keeps the panel open for counting: each
+ * scan calls `onWine` again (the same code is ignored while it stays in front of the camera).
+ * An unknown code can be registered on a wine when `onAssign` is given (managers).
+ */
+
+type DetectedBarcode = { rawValue: string };
+
+type BarcodeDetectorLike = { detect(source: HTMLVideoElement): Promise<DetectedBarcode[]> };
+
+type BarcodeDetectorClass = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"];
+
+const SCAN_INTERVAL_MS = 250;
+
+// The same code again within this time is the same bottle still in view.
+const REPEAT_MS = 1500;
+
+const detectorClass = () => (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+
+export function BarcodeScanner({
+  wines,
+  continuous,
+  onWine,
+  onAssign,
+  onClose,
+}: {
+  wines: Wine[];
+  continuous: boolean;
+  onWine: (wine: Wine) => string; // returns the feedback shown under the camera
+  onAssign?: (wine: Wine, jan: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState("");
+  const [typed, setTyped] = useState("");
+  const [message, setMessage] = useState("");
+  const [choices, setChoices] = useState<Wine[]>([]);
+  const [unknown, setUnknown] = useState("");
+  const [assignId, setAssignId] = useState("");
+
+  // The detection loop outlives renders; it always calls the latest handler.
+  const handleRef = useRef<(code: string) => void>(() => {});
+
+  const pick = (wine: Wine) => {
+    setChoices([]);
+    setMessage(onWine(wine));
+    if (!continuous) onClose();
+  };
+
+  handleRef.current = (raw: string) => {
+    const jan = normalizeJan(raw);
+    setUnknown("");
+    setChoices([]);
+    if (!jan) {
+      setMessage(`「${raw}」はJANコードではありません`);
+      return;
+    }
+    const found = winesByJan(wines, jan);
+    if (found.length === 1) pick(found[0]);
+    else if (found.length > 1) {
+      setChoices(found);
+      setMessage(`JAN ${jan} のワインが${found.length}件あります。選んでください。`);
+    } else {
+      setUnknown(jan);
+      setMessage(`JAN ${jan} のワインは登録されていません`);
+    }
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    const Detector = detectorClass();
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError("このブラウザはカメラでのバーコード読み取りに対応していません。コードを入力してください。");
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    let last = { code: "", at: 0 };
+    const detector = new Detector({ formats: FORMATS });
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then(async (s) => {
+        if (stopped) return s.getTracks().forEach((t) => t.stop());
+        stream = s;
+        const video = videoRef.current!;
+        video.srcObject = s;
+        await video.play();
+        timer = setInterval(async () => {
+          if (video.readyState < 2) return;
+          const [hit] = await detector.detect(video).catch(() => []);
+          if (!hit || stopped) return;
+          const now = Date.now();
+          const repeat = hit.rawValue === last.code && now - last.at < REPEAT_MS;
+          last = { code: hit.rawValue, at: now };
+          if (!repeat) handleRef.current(hit.rawValue);
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => setCameraError("カメラを使用できません。ブラウザのカメラの許可を確認するか、コードを入力してください。"));
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  const submitTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typed.trim()) return;
+    handleRef.current(typed.trim());
+    setTyped("");
+  };
+
+  const assign = async () => {
+    const wine = wines.find((w) => w.id === assignId);
+    if (!wine || !onAssign) return;
+    try {
+      await onAssign(wine, unknown);
+      setUnknown("");
+      setAssignId("");
+      setMessage(onWine({ ...wine, jan: unknown }));
+      if (!continuous) onClose();
+    } catch (err) {
+      setMessage((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <Card
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto rounded-2xl shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="バーコード読み取り"
+      >
+        <CardHeader className="pb-3">
+          <div className="flex items-start gap-3">
+            <div className="min-w-0">
+              <CardTitle className="text-lg">バーコード読み取り</CardTitle>
+              <div className="text-sm text-muted-foreground">
+                {continuous ? "読み取るたびに本数が1つ増えます。" : "読み取ったワインの行に移動します。"}
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="ml-auto shrink-0" onClick={onClose} aria-label="閉じる">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {cameraError ? (
+            <div className="rounded-2xl border bg-muted/50 p-4 text-sm text-muted-foreground">{cameraError}</div>
+          ) : (
+            <div className="relative overflow-hidden rounded-2xl bg-black">
+              <video ref={videoRef} className="aspect-video w-full object-cover" muted playsInline />
+              <ScanLine className="absolute inset-0 m-auto h-16 w-3/4 text-white/70" />
+            </div>
+          )}
+
+          <form className="flex gap-2" onSubmit={submitTyped}>
+            <Input
+              value={typed}
+              onChange={(e) => setTyped(e.target.value)}
+              inputMode="numeric"
+              placeholder="JANコードを入力"
+              aria-label="JANコード"
+              autoFocus={!!cameraError}
+              className="rounded-2xl"
+            />
+            <Button type="submit" variant="outline" disabled={!typed.trim()}>
+              検索
+            </Button>
+          </form>
+
+          {message && <div className="text-sm">{message}</div>}
+
+          {choices.length > 0 && (
+            <div className="overflow-hidden rounded-2xl border divide-y text-sm">
+              {choices.map((w) => (
+                <button key={w.id} className="block w-full px-4 py-2 text-left hover:bg-muted" onClick={() => pick(w)}>
+                  {w.name}
+                  <span className="ml-2 text-xs text-muted-foreground">{w.vintage ?? "NV"}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {unknown && onAssign && (
+            <div className="flex gap-2">
+              <Select value={assignId} onValueChange={setAssignId}>
+                <SelectTrigger className="rounded-2xl" aria-label="JANを登録するワイン">
+                  <SelectValue placeholder="このJANを登録するワイン" />
+                </SelectTrigger>
+                <SelectContent>
+                  {wines.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>
+                      {w.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={assign} disabled={!assignId}>
+                登録
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { LossLine, LossReason, SaleLine, Wine } from "@/lib/types";
+import { describeLine } from "@/lib/audit";
+import type { Conflict } from "@/lib/sync";
+
+/**
+ * Merge screen for a save rejected because another device changed the same lines.
+ * Lines that merged cleanly are applied silently; only real conflicts are listed here.
+ */
+
+const describe = (part: Conflict["part"], line: SaleLine | LossLine | undefined, reasons: LossReason[]) =>
+  line ? describeLine(part, line, reasons) : "未入力";
+
+function Choice({
+  active,
+  label,
+  value,
+  onClick,
+}: {
+  active: boolean;
+  label: string;
+  value: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex-1 rounded-xl border px-3 py-2 text-left ${active ? "border-primary bg-primary/5" : "hover:bg-muted"}`}
+    >
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-sm font-medium">{value}</div>
+    </button>
+  );
+}
+
+export function ConflictMerge({
+  conflict,
+  wines,
+  reasons,
+  onResolve,
+  onLater,
+}: {
+  conflict: Conflict;
+  wines: Wine[];
+  reasons: LossReason[];
+  onResolve: (picks: Record<string, "local" | "server">) => void;
+  onLater: () => void;
+}) {
+  const [picks, setPicks] = useState<Record<string, "local" | "server">>(() =>
+    Object.fromEntries(conflict.lines.map((c) => [c.wineId, "local" as const]))
+  );
+  const nameOf = (id: string) => wines.find((w) => w.id === id)?.name ?? id;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center p-4">
+      <Card className="rounded-2xl w-full max-w-2xl max-h-[85vh] overflow-y-auto">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            <CardTitle className="text-lg">他の端末と入力が重なりました</CardTitle>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {conflict.dateISO} の{conflict.part === "sales" ? "売上" : "ロス"}で、
+            {conflict.lines.length}銘柄が別の端末でも変更されています。残す方を選んでください。
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {conflict.lines.map((c) => (
+            <div key={c.wineId} className="rounded-xl border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="font-medium truncate">{nameOf(c.wineId)}</div>
+                <Badge variant="secondary">{c.wineId}</Badge>
+              </div>
+              <div className="flex gap-2">
+                <Choice
+                  active={picks[c.wineId] === "local"}
+                  label="この端末"
+                  value={describe(conflict.part, c.local, reasons)}
+                  onClick={() => setPicks((p) => ({ ...p, [c.wineId]: "local" }))}
+                />
+                <Choice
+                  active={picks[c.wineId] === "server"}
+                  label="サーバー（他の端末）"
+                  value={describe(conflict.part, c.server, reasons)}
+                  onClick={() => setPicks((p) => ({ ...p, [c.wineId]: "server" }))}
+                />
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onLater}>
+              あとで
+            </Button>
+            <Button onClick={() => onResolve(picks)}>この内容で保存</Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Camera, Lock, LockOpen } from "lucide-react";
+import type { DailyRecord, LossReason, Wine } from "@/lib/types";
+import { LOSS_LABEL, reasonLabel } from "@/lib/losses";
+
+/**
+ * Review step after 日次ロス: what is about to be closed, then 締め.
+ * A closed day can only be reopened by a manager, with a reason that is kept on the record.
+ * Staff can close today only; the buttons they may not use are not shown.
+ */
+
+export function DayReview({
+  record,
+  wines,
+  reasons,
+  busy,
+  error,
+  canClose,
+  canReopen,
+  onCloseDay,
+  onReopen,
+}: {
+  record: DailyRecord;
+  wines: Wine[];
+  reasons: LossReason[];
+  busy: boolean;
+  error: string;
+  canClose: boolean;
+  canReopen: boolean;
+  onCloseDay: () => void;
+  onReopen: (reason: string) => void; // logged under the logged-in user
+}) {
+  const [reopening, setReopening] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const nameOf = (id: string) => wines.find((w) => w.id === id)?.name ?? id;
+  const sales = Object.values(record.sales || {}).filter((l) => l.bottleQty > 0 || l.glassQty > 0);
+  const losses = Object.values(record.losses || {}).filter((l) => l.lossType !== "none" || l.brokenBottles > 0);
+  const totalBottle = sales.reduce((sum, l) => sum + l.bottleQty, 0);
+  const totalGlass = sales.reduce((sum, l) => sum + l.glassQty, 0);
+  const totalBroken = losses.reduce((sum, l) => sum + l.brokenBottles, 0);
+  const unsaved = !!(record.dirty?.sales || record.dirty?.losses);
+  const closed = !!record.closedAt;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <Card className="rounded-2xl">
+          <CardContent className="p-4">
+            <div className="text-xs text-muted-foreground">ボトル合計</div>
+            <div className="text-2xl font-semibold mt-1">{totalBottle}</div>
+          </CardContent>
+        </Card>
+        <Card className="rounded-2xl">
+          <CardContent className="p-4">
+            <div className="text-xs text-muted-foreground">グラス合計</div>
+            <div className="text-2xl font-semibold mt-1">{totalGlass}</div>
+          </CardContent>
+        </Card>
+        <Card className="rounded-2xl">
+          <CardContent className="p-4">
+            <div className="text-xs text-muted-foreground">ロス件数</div>
+            <div className="text-2xl font-semibold mt-1">{losses.length}</div>
+          </CardContent>
+        </Card>
+        <Card className="rounded-2xl">
+          <CardContent className="p-4">
+            <div className="text-xs text-muted-foreground">破損本数</div>
+            <div className="text-2xl font-semibold mt-1">{totalBroken}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="rounded-2xl border">
+          <div className="bg-muted/50 border-b px-4 py-2 text-sm font-medium">売上（{sales.length}銘柄）</div>
+          <div className="divide-y text-sm">
+            {sales.map((l) => (
+              <div key={l.wineId} className="flex items-center gap-2 px-4 py-2">
+                <div className="truncate">{nameOf(l.wineId)}</div>
+                <div className="ml-auto shrink-0 text-muted-foreground">
+                  ボトル {l.bottleQty} / グラス {l.glassQty}
+                </div>
+              </div>
+            ))}
+            {sales.length === 0 && <div className="px-4 py-4 text-muted-foreground">売上の入力はありません。</div>}
+          </div>
+        </div>
+        <div className="rounded-2xl border">
+          <div className="bg-muted/50 border-b px-4 py-2 text-sm font-medium">ロス（{losses.length}銘柄）</div>
+          <div className="divide-y text-sm">
+            {losses.map((l) => (
+              <div key={l.wineId} className="px-4 py-2">
+                <div className="flex items-center gap-2">
+                  <div className="truncate">{nameOf(l.wineId)}</div>
+                  <div className="ml-auto shrink-0 text-muted-foreground">
+                    {LOSS_LABEL[l.lossType] ?? l.lossType}
+                    {l.lossType === "remaining_discard" && l.discardMl !== undefined ? ` ${l.discardMl}ml` : ""}
+                    {l.brokenBottles > 0 ? ` / 破損 ${l.brokenBottles}本` : ""}
+                  </div>
+                </div>
+                {(l.reason || l.note || !!l.photoIds?.length) && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {l.reason && <Badge variant="outline">{reasonLabel(reasons, l.reason)}</Badge>}
+                    {l.note && <span className="truncate">{l.note}</span>}
+                    {!!l.photoIds?.length && (
+                      <span className="ml-auto flex shrink-0 items-center gap-1">
+                        <Camera className="h-3.5 w-3.5" />
+                        {l.photoIds.length}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            {losses.length === 0 && <div className="px-4 py-4 text-muted-foreground">ロスの入力はありません。</div>}
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      {!closed ? (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-2xl border p-4">
+          <div className="text-sm text-muted-foreground">
+            {!canClose
+              ? "当日以外の締めはマネージャーのみ行えます。"
+              : unsaved
+                ? "未送信の変更があります。サーバーに保存できてから締めてください。"
+                : "締めると、この日の売上・ロスは閲覧のみになります。"}
+          </div>
+          <Button className="sm:ml-auto" onClick={onCloseDay} disabled={busy || unsaved || !canClose}>
+            <Lock className="h-4 w-4 mr-2" />
+            締める
+          </Button>
+        </div>
+      ) : (
+        <div className="rounded-2xl border p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Badge>締め済み</Badge>
+            <div className="text-sm text-muted-foreground">
+              {new Date(record.closedAt!).toLocaleString("ja-JP")} に締めました。
+            </div>
+            {canReopen && !reopening && (
+              <Button variant="outline" size="sm" className="ml-auto" onClick={() => setReopening(true)}>
+                <LockOpen className="h-4 w-4 mr-2" />
+                再オープン（マネージャー）
+              </Button>
+            )}
+          </div>
+          {reopening && (
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3 sm:items-end">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">理由（必須）</Label>
+                <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="例：グラス数の入力漏れ" />
+              </div>
+              <Button onClick={() => onReopen(reason.trim())} disabled={busy || !reason.trim()}>
+                再オープン
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import React from "react";
+import type { TextRange } from "@/lib/search";
+
+/** `text` with the given ranges (from lib/search.ts) marked, e.g. the part a search matched. */
+export function Highlight({ text, ranges }: { text: string; ranges?: TextRange[] }) {
+  if (!ranges?.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const [start, end] of ranges) {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-amber-200/70 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  }
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Loader2, X } from "lucide-react";
+import type { LossLine, LossReason } from "@/lib/types";
+import { lossPhotoUrl, uploadLossPhoto } from "@/lib/api";
+import { MAX_LOSS_PHOTOS } from "@/lib/losses";
+import { shrinkPhoto } from "@/lib/photos";
+
+/**
+ * Second line of a loss row: why the wine was lost, a free note, and photos of the broken
+ * bottle or faulty cork for supplier claims. Folded away until the line has a loss.
+ */
+
+const NO_REASON = "__none";
+
+export function LossDetails({
+  line,
+  wineName,
+  reasons,
+  disabled,
+  onChange,
+}: {
+  line: LossLine;
+  wineName: string;
+  reasons: LossReason[];
+  disabled: boolean;
+  onChange: (patch: Partial<LossLine>) => void;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState("");
+
+  const photoIds = line.photoIds ?? [];
+  const hasLoss = line.lossType !== "none" || line.brokenBottles > 0;
+  // Disabled reasons are not offered, but a line that already has one still shows it.
+  const choices = reasons.filter((r) => r.isActive !== false || r.id === line.reason);
+
+  const pickReason = (id: string) => {
+    const reason = reasons.find((r) => r.id === id);
+    // The reason usually implies the loss type: fill it in when none was chosen yet.
+    const lossType = reason && line.lossType === "none" ? reason.lossType : undefined;
+    onChange({ reason: reason?.id, ...(lossType ? { lossType } : {}) });
+  };
+
+  const attach = async (files: FileList | null) => {
+    const picked = Array.from(files ?? []).slice(0, MAX_LOSS_PHOTOS - photoIds.length);
+    if (!picked.length) return;
+    setUploading(true);
+    setError("");
+    try {
+      const ids: string[] = [];
+      for (const file of picked) ids.push(await uploadLossPhoto(await shrinkPhoto(file)));
+      onChange({ photoIds: [...photoIds, ...ids] });
+    } catch (err) {
+      setError(navigator.onLine ? (err as Error).message : "オフラインのため写真を送信できません");
+    } finally {
+      setUploading(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  if (!hasLoss && !open && !line.reason && !line.note && !photoIds.length) {
+    if (disabled) return null;
+    return (
+      <div className="sm:col-span-3">
+        <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setOpen(true)}>
+          理由・メモ・写真を追加
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sm:col-span-3 space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-[220px_1fr_auto] gap-2 sm:items-center">
+        <Select value={line.reason ?? NO_REASON} onValueChange={(v) => pickReason(v)} disabled={disabled}>
+          <SelectTrigger className="rounded-2xl" aria-label={`${wineName} ロス理由`}>
+            <SelectValue placeholder="理由" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_REASON}>理由なし</SelectItem>
+            {choices.map((r) => (
+              <SelectItem key={r.id} value={r.id}>
+                {r.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={line.note ?? ""}
+          onChange={(e) => onChange({ note: e.target.value })}
+          placeholder="メモ（例：コルク不良、開栓時に異臭）"
+          maxLength={200}
+          disabled={disabled}
+          aria-label={`${wineName} ロスメモ`}
+          className="rounded-2xl"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            className="hidden"
+            onChange={(e) => attach(e.target.files)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileRef.current?.click()}
+            disabled={disabled || uploading || photoIds.length >= MAX_LOSS_PHOTOS}
+          >
+            {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+            写真
+          </Button>
+        </div>
+      </div>
+      {photoIds.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photoIds.map((id) => (
+            <div key={id} className="relative">
+              <a href={lossPhotoUrl(id)} target="_blank" rel="noreferrer">
+                <img src={lossPhotoUrl(id)} alt={`${wineName} ロス写真`} className="h-16 w-16 rounded-xl border object-cover" />
+              </a>
+              {!disabled && (
+                <button
+                  className="absolute -right-1.5 -top-1.5 rounded-full border bg-background p-0.5 shadow-sm"
+                  onClick={() => onChange({ photoIds: photoIds.filter((p) => p !== id) })}
+                  aria-label="写真を外す"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Upload, X } from "lucide-react";
+import type { PosImport, PosItem, PosUnit, SaleLine, Wine } from "@/lib/types";
+import { fetchPosMappings, importPosSales, savePosMappings } from "@/lib/api";
+import { type PosLineStatus, type PosReviewLine, posReview } from "@/lib/pos";
+
+/**
+ * POS取込: upload the POS export for the day, review how it compares with what was
+ * already typed in, then prefill the sales. Lines entered by hand that differ from the
+ * POS are highlighted and kept unless switched to the POS value; codes the mapping table
+ * does not know are listed (managers can map them here and read the file again).
+ */
+
+const STATUS_LABEL: Record<PosLineStatus, string> = { new: "POS", same: "一致", manual: "手入力あり" };
+
+const UNIT_LABEL: Record<PosUnit, string> = { bottle: "ボトル", glass: "グラス" };
+
+const qty = (l?: SaleLine) => (l ? `ボトル ${l.bottleQty} / グラス ${l.glassQty}` : "—");
+
+function MapCode({
+  item,
+  wines,
+  onMap,
+}: {
+  item: PosItem;
+  wines: Wine[];
+  onMap: (wineId: string, unit: PosUnit) => Promise<void>;
+}) {
+  const [wineId, setWineId] = useState("");
+  const [unit, setUnit] = useState<PosUnit>("bottle");
+  const [busy, setBusy] = useState(false);
+
+  const map = async () => {
+    setBusy(true);
+    try {
+      await onMap(wineId, unit);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_200px_110px_auto] gap-2 sm:items-center px-4 py-2">
+      <div className="min-w-0">
+        <div className="truncate">{item.name || item.code}</div>
+        <div className="text-xs text-muted-foreground">
+          {item.code} ・ {item.qty}点
+        </div>
+      </div>
+      <Select value={wineId} onValueChange={setWineId}>
+        <SelectTrigger className="rounded-2xl" aria-label={`${item.code} のワイン`}>
+          <SelectValue placeholder="ワインを選択" />
+        </SelectTrigger>
+        <SelectContent>
+          {wines.map((w) => (
+            <SelectItem key={w.id} value={w.id}>
+              {w.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={unit} onValueChange={(v) => setUnit(v as PosUnit)}>
+        <SelectTrigger className="rounded-2xl" aria-label={`${item.code} の単位`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(UNIT_LABEL) as PosUnit[]).map((u) => (
+            <SelectItem key={u} value={u}>
+              {UNIT_LABEL[u]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" variant="outline" onClick={map} disabled={busy || !wineId}>
+        対応付け
+      </Button>
+    </div>
+  );
+}
+
+export function PosImportPanel({
+  dateISO,
+  sales,
+  wines,
+  canMap,
+  onApply,
+  onClose,
+}: {
+  dateISO: string;
+  sales: Record<string, SaleLine>;
+  wines: Wine[];
+  canMap: boolean; // managers may add mappings from here
+  onApply: (lines: PosReviewLine[], usePos: Set<string>) => void;
+  onClose: () => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<PosImport | null>(null);
+  const [usePos, setUsePos] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const read = async (f: File) => {
+    setBusy(true);
+    setError("");
+    try {
+      setResult(await importPosSales(dateISO, f));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onFile = (f: File | null) => {
+    setFile(f);
+    setResult(null);
+    setUsePos(new Set());
+    if (f) read(f);
+  };
+
+  const mapCode = async (code: string, wineId: string, unit: PosUnit) => {
+    setError("");
+    try {
+      const current = await fetchPosMappings();
+      await savePosMappings([...current.filter((m) => m.code !== code), { code, wineId, unit }]);
+      if (file) await read(file);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const toggle = (wineId: string) =>
+    setUsePos((prev) => {
+      const next = new Set(prev);
+      if (next.has(wineId)) next.delete(wineId);
+      else next.add(wineId);
+      return next;
+    });
+
+  const nameOf = (id: string) => wines.find((w) => w.id === id)?.name ?? id;
+  const lines = result ? posReview(sales, result.sales) : [];
+  const manual = lines.filter((l) => l.status === "manual");
+  const changes = lines.filter((l) => l.status === "new").length + usePos.size;
+
+  const apply = () => {
+    onApply(lines, usePos);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-stretch sm:justify-end bg-black/40" onClick={onClose}>
+      <Card
+        className="w-full sm:max-w-2xl max-h-[90vh] sm:max-h-none overflow-y-auto rounded-t-2xl sm:rounded-none sm:rounded-l-2xl shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="POS取込"
+      >
+        <CardHeader className="pb-3">
+          <div className="flex items-start gap-3">
+            <div className="min-w-0">
+              <CardTitle className="text-lg">POS取込（{dateISO}）</CardTitle>
+              <div className="text-sm text-muted-foreground">
+                POSの売上エクスポート（CSV / .xlsx / JSON、列：商品コード・数量・任意で日付と商品名）を読み込み、売上の入力欄に反映します。保存はいつも通り「売上を保存」で行います。
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="ml-auto shrink-0" onClick={onClose} aria-label="閉じる">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.json,text/csv,application/json"
+            onChange={(e) => onFile(e.target.files?.[0] ?? null)}
+          />
+          {busy && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              読み込み中…
+            </div>
+          )}
+          {error && <div className="text-sm text-destructive">{error}</div>}
+
+          {result && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>{result.rows}行</span>
+                {result.skippedRows > 0 && <Badge variant="outline">他の日付 {result.skippedRows}行</Badge>}
+                <Badge>反映 {Object.keys(result.sales).length}銘柄</Badge>
+                {manual.length > 0 && <Badge variant="secondary">手入力あり {manual.length}</Badge>}
+                {result.unmapped.length > 0 && <Badge variant="destructive">未対応コード {result.unmapped.length}</Badge>}
+              </div>
+
+              {result.errors.length > 0 && (
+                <div className="rounded-2xl border border-destructive/50 p-4 space-y-1 text-sm">
+                  <div className="font-medium text-destructive">
+                    {result.errors.length}行を読み込めませんでした（この行は反映されません）。
+                  </div>
+                  {result.errors.map((e, i) => (
+                    <div key={i}>
+                      {e.row}行目：{e.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {result.unmapped.length > 0 && (
+                <div className="rounded-2xl border border-destructive/50 text-sm">
+                  <div className="border-b px-4 py-2">
+                    <div className="font-medium text-destructive">ワインに対応付けられていないPOSコード</div>
+                    <div className="text-xs text-muted-foreground">
+                      {canMap
+                        ? "ワインと単位を選ぶと対応表に登録し、ファイルを読み直します。"
+                        : "反映されません。対応表への登録はマネージャーに依頼してください。"}
+                    </div>
+                  </div>
+                  <div className="divide-y">
+                    {result.unmapped.map((item) =>
+                      canMap ? (
+                        <MapCode
+                          key={item.code}
+                          item={item}
+                          wines={wines}
+                          onMap={(wineId, unit) => mapCode(item.code, wineId, unit)}
+                        />
+                      ) : (
+                        <div key={item.code} className="flex items-center gap-2 px-4 py-2">
+                          <span className="truncate">{item.name || item.code}</span>
+                          <span className="ml-auto shrink-0 text-muted-foreground">
+                            {item.code} ・ {item.qty}点
+                          </span>
+                        </div>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-hidden rounded-2xl border divide-y text-sm">
+                {lines.map((l) => (
+                  <div
+                    key={l.wineId}
+                    className={`grid grid-cols-1 sm:grid-cols-[1fr_150px_150px] gap-1 sm:gap-2 sm:items-center px-4 py-2 ${
+                      l.status === "manual" ? "bg-amber-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant={l.status === "manual" ? "secondary" : "outline"}>{STATUS_LABEL[l.status]}</Badge>
+                      <span className="truncate">{nameOf(l.wineId)}</span>
+                    </div>
+                    {l.status === "manual" ? (
+                      <>
+                        <button
+                          onClick={() => usePos.has(l.wineId) && toggle(l.wineId)}
+                          className={`rounded-xl border px-2 py-1 text-left ${!usePos.has(l.wineId) ? "border-primary bg-primary/5" : "hover:bg-muted"}`}
+                        >
+                          <div className="text-xs text-muted-foreground">手入力</div>
+                          {qty(l.entered)}
+                        </button>
+                        <button
+                          onClick={() => !usePos.has(l.wineId) && toggle(l.wineId)}
+                          className={`rounded-xl border px-2 py-1 text-left ${usePos.has(l.wineId) ? "border-primary bg-primary/5" : "hover:bg-muted"}`}
+                        >
+                          <div className="text-xs text-muted-foreground">POS</div>
+                          {qty(l.pos)}
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <div className="text-muted-foreground">{l.entered ? qty(l.entered) : "未入力"}</div>
+                        <div>{qty(l.pos)}</div>
+                      </>
+                    )}
+                  </div>
+                ))}
+                {lines.length === 0 && <div className="px-4 py-6 text-center text-muted-foreground">反映する売上はありません。</div>}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={onClose}>
+                  キャンセル
+                </Button>
+                <Button onClick={apply} disabled={busy || changes === 0}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {changes}銘柄を売上に反映
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
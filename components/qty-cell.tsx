@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export function clampInt(n: number, min = 0, max = 999): number {
+  if (Number.isNaN(n)) return min;
+  return Math.max(min, Math.min(max, Math.trunc(n)));
+}
+
+/**
+ * Integer count with big −/+ tap targets; the typed value is committed on blur or Enter.
+ * Used for sales, losses and delivery bottle counts.
+ */
+export function QtyCell({
+  value,
+  onChange,
+  ariaLabel,
+  autoFocus,
+  disabled,
+}: {
+  value: number;
+  onChange: (next: number) => void;
+  ariaLabel: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+}) {
+  const [draft, setDraft] = useState<string>(String(value || ""));
+  const lastValueRef = useRef(value);
+
+  useEffect(() => {
+    if (lastValueRef.current !== value) {
+      lastValueRef.current = value;
+      setDraft(value ? String(value) : "");
+    }
+  }, [value]);
+
+  const commit = () => {
+    const next = clampInt(parseInt(draft || "0", 10), 0, 999);
+    onChange(next);
+    setDraft(next ? String(next) : "");
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-9 w-9 rounded-xl"
+        onClick={() => onChange(clampInt(value - 1))}
+        disabled={disabled}
+        aria-label={`${ariaLabel} -1`}
+      >
+        −
+      </Button>
+      <Input
+        inputMode="numeric"
+        pattern="[0-9]*"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value.replace(/[^0-9]/g, ""))}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            (e.target as HTMLInputElement).blur();
+          }
+        }}
+        autoFocus={autoFocus}
+        disabled={disabled}
+        aria-label={ariaLabel}
+        className="w-16 text-center rounded-xl"
+        placeholder="0"
+      />
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-9 w-9 rounded-xl"
+        onClick={() => onChange(clampInt(value + 1))}
+        disabled={disabled}
+        aria-label={`${ariaLabel} +1`}
+      >
+        +
+      </Button>
+    </div>
+  );
+}
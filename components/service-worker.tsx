@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers public/sw.js (production builds only: in `next dev` a cached shell would hide
+ * code changes). Once the worker is active it is handed the build assets this page has
+ * already loaded, so the app opens offline from the very first visit.
+ */
+export function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((reg) => {
+        const urls = performance.getEntriesByType("resource").map((e) => e.name);
+        reg.active?.postMessage({ type: "cache-assets", urls });
+      })
+      .catch(() => {
+        // No offline shell (e.g. plain http on a LAN address); the app works as before.
+      });
+  }, []);
+  return null;
+}
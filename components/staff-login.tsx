@@ -0,0 +1,254 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Delete, Loader2, UserRound } from "lucide-react";
+import type { User } from "@/lib/types";
+import { ApiError, createUser, fetchLoginUsers, fetchSession, login, logout, type LoginUser } from "@/lib/api";
+
+/**
+ * Staff login for the shared tablet: tap your name, enter your PIN. The logged-in user is
+ * cached in localStorage so the input screen still knows who is working while offline;
+ * the server checks the session cookie on every save.
+ */
+
+const USER_KEY = "winebar.user";
+
+const PIN_LENGTH = { min: 4, max: 8 };
+
+type LoadState = "loading" | "ready" | "error";
+
+function readCachedUser(): User | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(USER_KEY) || "null");
+    return parsed?.id ? (parsed as User) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Who is logged in on this device; `user` is null until someone logs in. */
+export function useStaffSession() {
+  const [user, setUserState] = useState<User | null>(null);
+  const [state, setState] = useState<"loading" | "ready">("loading");
+
+  const setUser = useCallback((next: User | null) => {
+    if (next) localStorage.setItem(USER_KEY, JSON.stringify(next));
+    else localStorage.removeItem(USER_KEY);
+    setUserState(next);
+  }, []);
+
+  useEffect(() => {
+    fetchSession()
+      .then(setUser)
+      .catch(() => setUserState(readCachedUser())) // offline: trust the last login until the server says otherwise
+      .finally(() => setState("ready"));
+  }, [setUser]);
+
+  const signOut = async () => {
+    try {
+      await logout();
+    } catch {
+      // Offline: the cookie expires on its own; the next login replaces it.
+    }
+    setUser(null);
+  };
+
+  return { user, state, setUser, signOut };
+}
+
+function PinPad({ pin, onPin }: { pin: string; onPin: (pin: string) => void }) {
+  const press = (d: string) => pin.length < PIN_LENGTH.max && onPin(pin + d);
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {["1", "2", "3", "4", "5", "6", "7", "8", "9"].map((d) => (
+        <Button key={d} variant="outline" className="h-14 text-xl rounded-2xl" onClick={() => press(d)}>
+          {d}
+        </Button>
+      ))}
+      <Button variant="ghost" className="h-14 rounded-2xl" onClick={() => onPin("")}>
+        クリア
+      </Button>
+      <Button variant="outline" className="h-14 text-xl rounded-2xl" onClick={() => press("0")}>
+        0
+      </Button>
+      <Button variant="ghost" className="h-14 rounded-2xl" onClick={() => onPin(pin.slice(0, -1))} aria-label="1文字消す">
+        <Delete className="h-5 w-5" />
+      </Button>
+    </div>
+  );
+}
+
+function FirstUserForm({ onCreated }: { onCreated: (user: User) => void }) {
+  const [name, setName] = useState("");
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const valid = !!name.trim() && /^\d{4,8}$/.test(pin);
+
+  const submit = async () => {
+    setBusy(true);
+    setError("");
+    try {
+      const user = await createUser(name.trim(), pin);
+      onCreated(await login(user.id, pin));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-muted-foreground">
+        スタッフが登録されていません。最初のスタッフ（通常は店長）を登録してください。
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">名前</Label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">PIN（数字4〜8桁）</Label>
+        <Input
+          type="password"
+          inputMode="numeric"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, PIN_LENGTH.max))}
+        />
+      </div>
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      <Button className="w-full" onClick={submit} disabled={busy || !valid}>
+        登録してログイン
+      </Button>
+    </div>
+  );
+}
+
+export function StaffLogin({ onLogin }: { onLogin: (user: User) => void }) {
+  const [state, setState] = useState<LoadState>("loading");
+  const [users, setUsers] = useState<LoginUser[]>([]);
+  const [picked, setPicked] = useState<LoginUser | null>(null);
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = () => {
+    setState("loading");
+    fetchLoginUsers()
+      .then((list) => {
+        setUsers(list);
+        setState("ready");
+      })
+      .catch((err: Error) => {
+        setError(err.message);
+        setState("error");
+      });
+  };
+
+  useEffect(load, []);
+
+  const submit = async () => {
+    if (!picked || pin.length < PIN_LENGTH.min) return;
+    setBusy(true);
+    setError("");
+    try {
+      onLogin(await login(picked.id, pin));
+    } catch (err) {
+      const status = err instanceof ApiError ? err.status : 0;
+      setError(
+        status === 401
+          ? "PINが違います。"
+          : status === 429
+            ? "PINの入力ミスが続いたため、しばらくログインできません。"
+            : (err as Error).message
+      );
+      setPin("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Hardware keyboard: digits, Backspace, Enter.
+  useEffect(() => {
+    if (!picked) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (/^\d$/.test(e.key)) setPin((p) => (p.length < PIN_LENGTH.max ? p + e.key : p));
+      else if (e.key === "Backspace") setPin((p) => p.slice(0, -1));
+      else if (e.key === "Enter") submit();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 py-6">
+      <Card className="rounded-2xl shadow-sm w-full max-w-md">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            {picked && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  setPicked(null);
+                  setPin("");
+                  setError("");
+                }}
+                aria-label="スタッフ選択に戻る"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <CardTitle className="text-xl">{picked ? `${picked.name} さん` : "スタッフを選択"}</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {state === "loading" && (
+            <div className="py-6 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              読み込み中…
+            </div>
+          )}
+          {state === "error" && (
+            <div className="py-6 text-center text-sm space-y-3">
+              <div className="text-destructive">スタッフ一覧を取得できませんでした（{error}）</div>
+              <Button variant="outline" size="sm" onClick={load}>
+                再読み込み
+              </Button>
+            </div>
+          )}
+          {state === "ready" && users.length === 0 && <FirstUserForm onCreated={onLogin} />}
+          {state === "ready" && users.length > 0 && !picked && (
+            <div className="grid grid-cols-2 gap-2">
+              {users.map((u) => (
+                <Button key={u.id} variant="outline" className="h-14 rounded-2xl justify-start" onClick={() => setPicked(u)}>
+                  <UserRound className="h-4 w-4 mr-2" />
+                  <span className="truncate">{u.name}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+          {picked && (
+            <>
+              <div className="flex justify-center gap-2 h-6" aria-label="入力済みの桁数">
+                {Array.from({ length: Math.max(PIN_LENGTH.min, pin.length) }, (_, i) => (
+                  <div key={i} className={`h-3 w-3 rounded-full border ${i < pin.length ? "bg-foreground" : ""}`} />
+                ))}
+              </div>
+              <PinPad pin={pin} onPin={setPin} />
+              {error && <div className="text-sm text-destructive text-center">{error}</div>}
+              <Button className="w-full h-12" onClick={submit} disabled={busy || pin.length < PIN_LENGTH.min}>
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                ログイン
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Redo2, Undo2, X } from "lucide-react";
+
+/**
+ * Bottom toast after a destructive change (reset) or an undo, with a one-tap way back.
+ * Disappears on its own after a few seconds.
+ */
+
+const SHOW_MS = 8000;
+
+export type ToastAction = "undo" | "redo";
+
+export function UndoToast({
+  message,
+  action,
+  onAction,
+  onDismiss,
+}: {
+  message: string;
+  action: ToastAction;
+  onAction: () => void;
+  onDismiss: () => void;
+}) {
+  useEffect(() => {
+    const t = setTimeout(onDismiss, SHOW_MS);
+    return () => clearTimeout(t);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-40 flex justify-center px-4 pointer-events-none">
+      <div
+        role="status"
+        className="pointer-events-auto flex items-center gap-3 rounded-2xl border bg-background shadow-lg px-4 py-3 text-sm"
+      >
+        <span>{message}</span>
+        <Button size="sm" variant="outline" onClick={onAction}>
+          {action === "undo" ? <Undo2 className="h-4 w-4 mr-2" /> : <Redo2 className="h-4 w-4 mr-2" />}
+          {action === "undo" ? "元に戻す" : "やり直す"}
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onDismiss} aria-label="閉じる">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { Wine } from "@/lib/types";
+import type { VarianceLine } from "@/lib/stock";
+
+/**
+ * 棚卸 variance: counted bottles vs the stock expected from recorded sales and losses.
+ * Lines whose gap is larger than the threshold are flagged.
+ */
+export function VarianceReport({
+  lines,
+  wines,
+  thresholdBottles,
+  uncounted,
+}: {
+  lines: VarianceLine[];
+  wines: Wine[];
+  thresholdBottles: number;
+  uncounted: number; // wines with a ledger that were not counted
+}) {
+  const nameOf = (id: string) => wines.find((w) => w.id === id)?.name ?? id;
+  const flagged = lines.filter((l) => l.flagged);
+
+  return (
+    <div className="rounded-2xl border">
+      <div className="flex items-center gap-2 bg-muted/50 border-b px-4 py-3 text-sm font-medium">
+        差異レポート
+        <span className="text-xs font-normal text-muted-foreground">
+          許容差 ±{thresholdBottles}本 / 要確認 {flagged.length}銘柄
+          {uncounted > 0 ? ` / 未カウント ${uncounted}銘柄` : ""}
+        </span>
+      </div>
+      <div className="hidden sm:grid sm:grid-cols-[minmax(200px,1fr)_90px_90px_90px] px-4 py-2 text-xs text-muted-foreground border-b">
+        <div>ワイン</div>
+        <div className="text-right">予定</div>
+        <div className="text-right">実数</div>
+        <div className="text-right">差異</div>
+      </div>
+      <div className="divide-y text-sm">
+        {lines.map((l) => (
+          <div
+            key={l.wineId}
+            className={`grid grid-cols-[1fr_60px_60px_60px] sm:grid-cols-[minmax(200px,1fr)_90px_90px_90px] items-center px-4 py-2 ${l.flagged ? "bg-destructive/5" : ""}`}
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              {l.flagged && <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />}
+              <span className="truncate">{nameOf(l.wineId)}</span>
+              {l.flagged && <Badge variant="destructive">要確認</Badge>}
+            </div>
+            <div className="text-right text-muted-foreground">{l.expected}</div>
+            <div className="text-right">{l.counted}</div>
+            <div className={`text-right font-medium ${l.flagged ? "text-destructive" : ""}`}>
+              {l.gap > 0 ? `+${l.gap}` : l.gap}
+            </div>
+          </div>
+        ))}
+        {lines.length === 0 && (
+          <div className="px-4 py-6 text-center text-muted-foreground">
+            実数を入力すると、在庫台帳のあるワインについて差異を表示します。
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
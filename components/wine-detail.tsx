@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, X } from "lucide-react";
+import type { LossLine, LossReason, SaleLine, ServerDailyRecord, StockPosition, Wine } from "@/lib/types";
+import { fetchDailyRecords } from "@/lib/api";
+import { addDays } from "@/lib/dates";
+import { describeLoss, LOSS_LABEL, reasonLabel } from "@/lib/losses";
+import { wineHistory } from "@/lib/reports";
+import { BarChart, type ChartSeries } from "@/components/bar-chart";
+
+/**
+ * Drill-down for one wine, opened from its row: the 30 days before the selected date,
+ * loss events, and stock, next to what is being entered today.
+ */
+
+const HISTORY_DAYS = 30;
+
+const SERIES: ChartSeries[] = [
+  { key: "bottles", label: "ボトル", className: "bg-primary" },
+  { key: "glasses", label: "グラス", className: "bg-primary/40" },
+];
+
+const one = (n: number) => String(Math.round(n * 10) / 10);
+
+function TodayVsHistory({ label, today, avg, max }: { label: string; today: number; avg: number; max: number }) {
+  // "Unusual": above anything in the last 30 days, or well over twice the average.
+  const unusual = today > 0 && (today > max || (avg > 0 && today > avg * 2 + 1));
+  return (
+    <div className="rounded-2xl border p-3">
+      <div className="text-xs text-muted-foreground">{label}（本日）</div>
+      <div className={`text-2xl font-semibold ${unusual ? "text-destructive" : ""}`}>{today}</div>
+      <div className="text-xs text-muted-foreground">
+        平均 {one(avg)} / 最大 {max}
+      </div>
+      {unusual && <Badge variant="destructive" className="mt-1">いつもより多い</Badge>}
+    </div>
+  );
+}
+
+export function WineDetail({
+  wine,
+  dateISO,
+  sale,
+  loss,
+  position,
+  expected,
+  reasons,
+  onClose,
+}: {
+  wine: Wine;
+  dateISO: string;
+  sale?: SaleLine;
+  loss?: LossLine;
+  position?: StockPosition;
+  expected: number | null;
+  reasons: LossReason[];
+  onClose: () => void;
+}) {
+  const from = addDays(dateISO, -HISTORY_DAYS);
+  const to = addDays(dateISO, -1);
+  const [records, setRecords] = useState<ServerDailyRecord[] | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecords(null);
+    fetchDailyRecords(from, to)
+      .then((r) => !cancelled && setRecords(r))
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const history = useMemo(() => (records ? wineHistory(records, wine.id, from, to) : null), [records, wine.id, from, to]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-stretch sm:justify-end bg-black/40" onClick={onClose}>
+      <Card
+        className="w-full sm:max-w-lg max-h-[90vh] sm:max-h-none overflow-y-auto rounded-t-2xl sm:rounded-none sm:rounded-l-2xl shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={`${wine.name} の履歴`}
+      >
+        <CardHeader className="pb-3">
+          <div className="flex items-start gap-3">
+            <div className="min-w-0">
+              <CardTitle className="text-lg truncate">{wine.name}</CardTitle>
+              <div className="text-xs text-muted-foreground">
+                {wine.id}
+                {wine.vintage ? ` / ${wine.vintage}` : ""} / {wine.bottleSizeMl}ml
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="ml-auto shrink-0" onClick={onClose} aria-label="閉じる">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="rounded-2xl border p-3">
+              <div className="text-xs text-muted-foreground">在庫（予定）</div>
+              <div className={`text-2xl font-semibold ${expected !== null && expected < 0 ? "text-destructive" : ""}`}>
+                {expected ?? "—"}
+              </div>
+              {position && (
+                <div className="text-xs text-muted-foreground">
+                  朝 {position.startBottles}
+                  {position.deliveredBottles > 0 && ` + 入荷 ${position.deliveredBottles}`}
+                </div>
+              )}
+            </div>
+            {history ? (
+              <>
+                <TodayVsHistory
+                  label="ボトル"
+                  today={sale?.bottleQty ?? 0}
+                  avg={history.avgBottles}
+                  max={history.maxBottles}
+                />
+                <TodayVsHistory
+                  label="グラス"
+                  today={sale?.glassQty ?? 0}
+                  avg={history.avgGlasses}
+                  max={history.maxGlasses}
+                />
+              </>
+            ) : (
+              <div className="col-span-2 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                {error ? (
+                  <span className="text-destructive">履歴を取得できませんでした（{error}）</span>
+                ) : (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    読み込み中…
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {loss && (loss.lossType !== "none" || loss.brokenBottles > 0) && (
+            <div className="text-sm">
+              本日のロス：{describeLoss(loss, reasons)}
+            </div>
+          )}
+
+          {history && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <div className="text-sm font-medium">直近{HISTORY_DAYS}日の販売</div>
+                <BarChart
+                  points={history.days.map((d) => ({
+                    label: `${Number(d.dateISO.slice(5, 7))}/${Number(d.dateISO.slice(8, 10))}`,
+                    values: { bottles: d.bottles, glasses: d.glasses },
+                  }))}
+                  series={SERIES}
+                />
+              </div>
+
+              <Separator />
+              <div className="space-y-2">
+                <div className="text-sm font-medium">ロス履歴</div>
+                <div className="divide-y text-sm">
+                  {history.losses.map((l) => (
+                    <div key={l.dateISO} className="py-2 flex flex-wrap items-center gap-2">
+                      <div className="text-muted-foreground w-24 shrink-0">{l.dateISO}</div>
+                      <Badge variant="outline">{LOSS_LABEL[l.lossType] ?? l.lossType}</Badge>
+                      {l.reason && <Badge variant="secondary">{reasonLabel(reasons, l.reason)}</Badge>}
+                      {l.brokenBottles > 0 && <span>破損 {l.brokenBottles}本</span>}
+                      {!!l.discardMl && <span>廃棄 {l.discardMl}ml</span>}
+                      {!!l.photoIds?.length && <span className="text-muted-foreground">写真 {l.photoIds.length}枚</span>}
+                      {l.note && <span className="w-full text-xs text-muted-foreground">{l.note}</span>}
+                    </div>
+                  ))}
+                  {history.losses.length === 0 && <div className="py-2 text-muted-foreground">ロスの記録はありません。</div>}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
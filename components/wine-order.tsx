@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, GripVertical, Star, X } from "lucide-react";
+import type { Preferences, Wine } from "@/lib/types";
+import { fetchPreferences, updatePreferences } from "@/lib/api";
+import {
+  EMPTY_PREFERENCES,
+  hasCachedPreferences,
+  isEmpty,
+  legacyFavorites,
+  moveItem,
+  readPreferences,
+  samePreferences,
+  withOrder,
+  writePreferences,
+} from "@/lib/preferences";
+
+/**
+ * The logged-in user's favorites and list order (`usePreferences`), and the panel that
+ * reorders the input list by dragging a row's handle (or with the arrow buttons).
+ */
+
+/** Preferences of `userId`: the device copy at once, then the server's; `save` writes both. */
+export function usePreferences(userId: string) {
+  const [prefs, setPrefs] = useState<Preferences>(EMPTY_PREFERENCES);
+
+  useEffect(() => {
+    if (!userId) return;
+    const firstTime = !hasCachedPreferences(userId);
+    setPrefs(readPreferences(userId));
+    const sync = () => {
+      const local = readPreferences(userId);
+      const { pending, ...changed } = local;
+      (pending ? updatePreferences(changed) : fetchPreferences())
+        .then((server) => {
+          const legacy = firstTime && isEmpty(server) ? legacyFavorites() : [];
+          if (legacy.length) return updatePreferences({ favorites: legacy });
+          return server;
+        })
+        .then((server) => {
+          writePreferences(userId, server);
+          setPrefs(server);
+        })
+        .catch(() => {
+          // Offline: keep the device copy; pending changes go out on the next sync.
+        });
+    };
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [userId]);
+
+  const save = useCallback(
+    (next: Preferences) => {
+      setPrefs(next);
+      writePreferences(userId, { ...next, pending: true });
+      updatePreferences(next)
+        .then((server) => {
+          // A later change may have been made meanwhile; only that one may clear `pending`.
+          if (samePreferences(readPreferences(userId), next)) writePreferences(userId, server);
+        })
+        .catch(() => {
+          // Offline: stays pending.
+        });
+    },
+    [userId]
+  );
+
+  return { prefs, save };
+}
+
+function SortableList({ wines, onChange }: { wines: Wine[]; onChange: (wines: Wine[]) => void }) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+
+  // The handle captures the pointer; the row under it is found by position.
+  const onMove = (e: React.PointerEvent) => {
+    if (!dragId || !listRef.current) return;
+    const rows = Array.from(listRef.current.children) as HTMLElement[];
+    const over = rows.findIndex((row) => {
+      const box = row.getBoundingClientRect();
+      return e.clientY >= box.top && e.clientY < box.bottom;
+    });
+    const from = wines.findIndex((w) => w.id === dragId);
+    if (over >= 0 && from >= 0 && over !== from) onChange(moveItem(wines, from, over));
+  };
+
+  return (
+    <div ref={listRef} className="overflow-hidden rounded-2xl border divide-y">
+      {wines.map((w, i) => (
+        <div key={w.id} className={`flex items-center gap-2 px-3 py-2 text-sm ${dragId === w.id ? "bg-muted" : ""}`}>
+          <button
+            className="touch-none cursor-grab rounded-lg p-1 text-muted-foreground hover:bg-muted"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setDragId(w.id);
+            }}
+            onPointerMove={onMove}
+            onPointerUp={() => setDragId(null)}
+            onPointerCancel={() => setDragId(null)}
+            aria-label={`${w.name} をドラッグして並び替え`}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+          <div className="min-w-0">
+            <div className="truncate">{w.name}</div>
+            <div className="text-xs text-muted-foreground">{w.id}</div>
+          </div>
+          <div className="ml-auto flex shrink-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={i === 0}
+              onClick={() => onChange(moveItem(wines, i, i - 1))}
+              aria-label="上へ"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={i === wines.length - 1}
+              onClick={() => onChange(moveItem(wines, i, i + 1))}
+              aria-label="下へ"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Reorders `wines` (already in the user's order). Favorites always stay on top, so they
+ * are arranged in their own list.
+ */
+export function WineOrderPanel({
+  wines,
+  prefs,
+  onSave,
+  onClose,
+}: {
+  wines: Wine[];
+  prefs: Preferences;
+  onSave: (prefs: Preferences) => void;
+  onClose: () => void;
+}) {
+  const favorite = new Set(prefs.favorites);
+  const [favorites, setFavorites] = useState(() => wines.filter((w) => favorite.has(w.id)));
+  const [others, setOthers] = useState(() => wines.filter((w) => !favorite.has(w.id)));
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const sortByName = () => setOthers((prev) => prev.slice().sort((a, b) => a.name.localeCompare(b.name)));
+
+  const save = () => {
+    onSave(withOrder(prefs, [...favorites, ...others].map((w) => w.id)));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-stretch sm:justify-end bg-black/40" onClick={onClose}>
+      <Card
+        className="w-full sm:max-w-lg max-h-[90vh] sm:max-h-none overflow-y-auto rounded-t-2xl sm:rounded-none sm:rounded-l-2xl shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="並び順の編集"
+      >
+        <CardHeader className="pb-3">
+          <div className="flex items-start gap-3">
+            <div className="min-w-0">
+              <CardTitle className="text-lg">並び順の編集</CardTitle>
+              <div className="text-sm text-muted-foreground">
+                ハンドルをドラッグして並び替えます。並び順とお気に入りはログイン中のスタッフごとに保存されます。
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" className="ml-auto shrink-0" onClick={onClose} aria-label="閉じる">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {favorites.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-1 text-sm font-medium">
+                <Star className="h-4 w-4 fill-current" />
+                お気に入り
+              </div>
+              <SortableList wines={favorites} onChange={setFavorites} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {favorites.length > 0 ? "その他" : "ワイン"}
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={sortByName}>
+                名前順に戻す
+              </Button>
+            </div>
+            <SortableList wines={others} onChange={setOthers} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              キャンセル
+            </Button>
+            <Button onClick={save}>保存</Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { DailyPart, DailyRecord, ServerDailyRecord, StockPosition, Wine } from "@/lib/types";
+import type { OpenedBottle } from "@/lib/opened";
+import { expectedEndBottles } from "@/lib/stock";
+
+/**
+ * Plausibility checks for entered quantities. A value is an outlier when it takes more
+ * bottles than the expected stock, or is far above what that wine did on recent days.
+ * Nothing is blocked: outliers get a warning on the row and must be acknowledged on save.
+ */
+
+export type CheckedField = "bottleQty" | "glassQty" | "brokenBottles";
+
+export type Anomaly = {
+  wineId: string;
+  part: DailyPart;
+  field: CheckedField;
+  value: number;
+  message: string;
+};
+
+export type FieldStats = { avg: number; max: number };
+
+export type WineStats = Record<CheckedField, FieldStats>;
+
+export const FIELD_LABEL: Record<CheckedField, string> = {
+  bottleQty: "ボトル",
+  glassQty: "グラス",
+  brokenBottles: "破損",
+};
+
+const PART_OF: Record<CheckedField, DailyPart> = {
+  bottleQty: "sales",
+  glassQty: "sales",
+  brokenBottles: "losses",
+};
+
+// Below this many recorded days the history is too thin; fixed ceilings apply instead.
+const MIN_HISTORY_DAYS = 5;
+
+// Never flag at or below these, however quiet the wine usually is.
+const FLOOR: Record<CheckedField, number> = { bottleQty: 3, glassQty: 10, brokenBottles: 1 };
+
+// Ceilings used without enough history.
+const CEILING: Record<CheckedField, number> = { bottleQty: 12, glassQty: 40, brokenBottles: 3 };
+
+const FIELDS = Object.keys(FIELD_LABEL) as CheckedField[];
+
+/** Per-wine average and maximum over the given (recent) saved days; pass their count as `historyDays`. */
+export function historyStats(records: ServerDailyRecord[]): Record<string, WineStats> {
+  const values: Record<string, Record<CheckedField, number[]>> = {};
+  const wineIds = new Set(records.flatMap((r) => [...Object.keys(r.sales), ...Object.keys(r.losses)]));
+  for (const id of wineIds) values[id] = { bottleQty: [], glassQty: [], brokenBottles: [] };
+  // Every saved day counts for every wine: a day without a line is a zero.
+  for (const r of records) {
+    for (const id of wineIds) {
+      values[id].bottleQty.push(r.sales[id]?.bottleQty ?? 0);
+      values[id].glassQty.push(r.sales[id]?.glassQty ?? 0);
+      values[id].brokenBottles.push(r.losses[id]?.brokenBottles ?? 0);
+    }
+  }
+  const out: Record<string, WineStats> = {};
+  for (const [id, v] of Object.entries(values)) {
+    const stat = (xs: number[]): FieldStats => ({ avg: xs.reduce((s, x) => s + x, 0) / xs.length, max: Math.max(...xs) });
+    out[id] = {
+      bottleQty: stat(v.bottleQty),
+      glassQty: stat(v.glassQty),
+      brokenBottles: stat(v.brokenBottles),
+    };
+  }
+  return out;
+}
+
+function historyMessage(field: CheckedField, value: number, stats: WineStats | undefined, days: number): string | null {
+  const enough = days >= MIN_HISTORY_DAYS;
+  const s = stats?.[field] ?? { avg: 0, max: 0 };
+  const limit = enough ? Math.max(FLOOR[field], Math.ceil(s.max * 1.5), Math.ceil(s.avg * 3)) : CEILING[field];
+  if (value <= limit) return null;
+  return enough
+    ? `直近${days}日の最大 ${s.max}・平均 ${Math.round(s.avg * 10) / 10} を大きく超えています`
+    : `${FIELD_LABEL[field]} ${value} は通常より多すぎます`;
+}
+
+export function findAnomalies(
+  wines: Wine[],
+  record: DailyRecord,
+  stats: Record<string, WineStats>,
+  historyDays: number,
+  positions: Record<string, StockPosition>,
+  opened: Record<string, OpenedBottle>
+): Anomaly[] {
+  const out: Anomaly[] = [];
+  for (const wine of wines) {
+    const sale = record.sales?.[wine.id];
+    const loss = record.losses?.[wine.id];
+    const value: Record<CheckedField, number> = {
+      bottleQty: sale?.bottleQty ?? 0,
+      glassQty: sale?.glassQty ?? 0,
+      brokenBottles: loss?.brokenBottles ?? 0,
+    };
+    const end = expectedEndBottles(positions[wine.id], sale, loss, opened[wine.id]);
+    for (const field of FIELDS) {
+      if (value[field] <= 0) continue;
+      const messages: string[] = [];
+      if (end !== null && end < 0) messages.push(`予定在庫を${-end}本超えています`);
+      const h = historyMessage(field, value[field], stats[wine.id], historyDays);
+      if (h) messages.push(h);
+      if (messages.length) {
+        out.push({ wineId: wine.id, part: PART_OF[field], field, value: value[field], message: messages.join(" / ") });
+      }
+    }
+  }
+  return out;
+}
+
+/** Acknowledgement key: changing the value makes the line an outlier to confirm again. */
+export function anomalyKey(a: Anomaly): string {
+  return `${a.wineId}:${a.field}:${a.value}`;
+}
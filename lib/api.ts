@@ -0,0 +1,387 @@
+import type {
+  Delivery,
+  ImportPreview,
+  JournalEntry,
+  LossLine,
+  MasterKind,
+  OpeningCount,
+  PosImport,
+  PosMapping,
+  Preferences,
+  Role,
+  SaleLine,
+  ServerDailyRecord,
+  Settings,
+  StockMovement,
+  StockPosition,
+  Stocktake,
+  Store,
+  Supplier,
+  User,
+  Wine,
+} from "@/lib/types";
+import { currentStoreId, STORE_HEADER } from "@/lib/stores";
+
+/**
+ * Browser-side client for the route handlers under app/api.
+ * Every request is for the device's current store (X-Store-Id) unless it names another.
+ */
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public body: unknown = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** The server's copy of the day carried by a 409 from a daily save, or null for any other error. */
+export function conflictRecord(err: unknown): ServerDailyRecord | null {
+  if (!(err instanceof ApiError) || err.status !== 409) return null;
+  const body = err.body as { record?: ServerDailyRecord } | null;
+  return body?.record ?? null;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", [STORE_HEADER]: currentStoreId(), ...(init?.headers || {}) },
+    cache: "no-store",
+  });
+  const body: unknown = await res.json().catch(() => null);
+  if (!res.ok) {
+    const error = (body as { error?: string } | null)?.error;
+    throw new ApiError(res.status, error || `HTTP ${res.status}`, body);
+  }
+  return body as T;
+}
+
+// --- Wines
+
+export async function fetchWines(opts: { activeOnly?: boolean } = {}): Promise<Wine[]> {
+  const qs = opts.activeOnly ? "?active=1" : "";
+  return (await request<{ wines: Wine[] }>(`/api/wines${qs}`)).wines;
+}
+
+export async function createWine(input: Partial<Wine>): Promise<Wine> {
+  return (await request<{ wine: Wine }>("/api/wines", { method: "POST", body: JSON.stringify(input) })).wine;
+}
+
+type ClearableWineField = "pourMl" | "glassPrice" | "unitCost" | "supplierId" | "jan" | "country" | "region" | "grape";
+
+// null clears an optional field (e.g. unlinks the supplier).
+export type WinePatch = Omit<Partial<Wine>, ClearableWineField> & {
+  [K in ClearableWineField]?: Wine[K] | null;
+};
+
+export async function updateWine(id: string, patch: WinePatch): Promise<Wine> {
+  return (
+    await request<{ wine: Wine }>(`/api/wines/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    })
+  ).wine;
+}
+
+// The file goes up as-is; the server parses .xlsx and CSV alike.
+// Upload a master sheet; apply=false only previews the diff.
+export async function importMasterFile(
+  kind: MasterKind,
+  file: File,
+  apply: boolean
+): Promise<{ preview: ImportPreview<Wine | Supplier> }> {
+  return request(`/api/import/${kind}${apply ? "?apply=1" : ""}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: await file.arrayBuffer(),
+  });
+}
+
+export async function deactivateWine(id: string): Promise<Wine> {
+  return (await request<{ wine: Wine }>(`/api/wines/${encodeURIComponent(id)}`, { method: "DELETE" })).wine;
+}
+
+// --- Suppliers
+
+export async function fetchSuppliers(): Promise<Supplier[]> {
+  return (await request<{ suppliers: Supplier[] }>("/api/suppliers")).suppliers;
+}
+
+export async function createSupplier(input: Partial<Supplier>): Promise<Supplier> {
+  return (await request<{ supplier: Supplier }>("/api/suppliers", { method: "POST", body: JSON.stringify(input) }))
+    .supplier;
+}
+
+export async function updateSupplier(id: string, patch: Partial<Supplier>): Promise<Supplier> {
+  return (
+    await request<{ supplier: Supplier }>(`/api/suppliers/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    })
+  ).supplier;
+}
+
+// --- Daily records
+
+export async function fetchDailyRecord(dateISO: string): Promise<ServerDailyRecord> {
+  return (await request<{ record: ServerDailyRecord }>(`/api/daily-records/${dateISO}`)).record;
+}
+
+export async function fetchDailyRecords(from: string, to: string): Promise<ServerDailyRecord[]> {
+  const qs = new URLSearchParams({ from, to });
+  return (await request<{ records: ServerDailyRecord[] }>(`/api/daily-records?${qs}`)).records;
+}
+
+// baseSavedAt: the salesSavedAt the edit started from. The server answers 409 (with its
+// current record in `body.record`) when someone else saved in between.
+// storeId: the draft's store, which may not be the current one when the outbox replays.
+export async function postDailySales(
+  dateISO: string,
+  sales: Record<string, SaleLine>,
+  baseSavedAt?: string | null,
+  journal: JournalEntry[] = [],
+  storeId = currentStoreId()
+): Promise<ServerDailyRecord> {
+  return (
+    await request<{ record: ServerDailyRecord }>("/api/daily-sales", {
+      method: "POST",
+      headers: { [STORE_HEADER]: storeId },
+      body: JSON.stringify({ dateISO, sales, baseSavedAt, journal }),
+    })
+  ).record;
+}
+
+export async function postDailyLoss(
+  dateISO: string,
+  losses: Record<string, LossLine>,
+  baseSavedAt?: string | null,
+  journal: JournalEntry[] = [],
+  storeId = currentStoreId()
+): Promise<ServerDailyRecord> {
+  return (
+    await request<{ record: ServerDailyRecord }>("/api/daily-loss", {
+      method: "POST",
+      headers: { [STORE_HEADER]: storeId },
+      body: JSON.stringify({ dateISO, losses, baseSavedAt, journal }),
+    })
+  ).record;
+}
+
+export async function closeDay(dateISO: string): Promise<ServerDailyRecord> {
+  return (await request<{ record: ServerDailyRecord }>(`/api/daily-records/${dateISO}/close`, { method: "POST" }))
+    .record;
+}
+
+// The reopen is logged under the logged-in user.
+export async function reopenDay(dateISO: string, reason: string): Promise<ServerDailyRecord> {
+  return (
+    await request<{ record: ServerDailyRecord }>(`/api/daily-records/${dateISO}/reopen`, {
+      method: "POST",
+      body: JSON.stringify({ reason }),
+    })
+  ).record;
+}
+
+// --- Staff
+
+export async function fetchSession(): Promise<User | null> {
+  return (await request<{ user: User | null }>("/api/session")).user;
+}
+
+export async function login(userId: string, pin: string): Promise<User> {
+  return (
+    await request<{ user: User }>("/api/session", {
+      method: "POST",
+      body: JSON.stringify({ userId, pin }),
+    })
+  ).user;
+}
+
+export async function logout(): Promise<void> {
+  await request("/api/session", { method: "DELETE" });
+}
+
+// Only what the login picker needs; the full list requires a session.
+export type LoginUser = Pick<User, "id" | "name">;
+
+export async function fetchLoginUsers(): Promise<LoginUser[]> {
+  return (await request<{ users: LoginUser[] }>("/api/session/users")).users;
+}
+
+export async function fetchUsers(): Promise<User[]> {
+  return (await request<{ users: User[] }>("/api/users")).users;
+}
+
+// The first account is always created as a manager.
+export async function createUser(name: string, pin: string, role: Role = "staff"): Promise<User> {
+  return (
+    await request<{ user: User }>("/api/users", {
+      method: "POST",
+      body: JSON.stringify({ name, pin, role }),
+    })
+  ).user;
+}
+
+export type UserPatch = { name?: string; pin?: string; role?: Role; isActive?: boolean };
+
+export async function updateUser(id: string, patch: UserPatch): Promise<User> {
+  return (
+    await request<{ user: User }>(`/api/users/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    })
+  ).user;
+}
+
+export async function fetchPreferences(): Promise<Preferences> {
+  return (await request<{ preferences: Preferences }>("/api/preferences")).preferences;
+}
+
+export async function updatePreferences(patch: Partial<Preferences>): Promise<Preferences> {
+  return (
+    await request<{ preferences: Preferences }>("/api/preferences", {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    })
+  ).preferences;
+}
+
+// --- Stores
+
+export async function fetchStores(): Promise<Store[]> {
+  return (await request<{ stores: Store[] }>("/api/stores")).stores;
+}
+
+export async function createStore(name: string): Promise<Store> {
+  return (await request<{ store: Store }>("/api/stores", { method: "POST", body: JSON.stringify({ name }) })).store;
+}
+
+// wineIds: null goes back to every active wine in the master.
+export type StorePatch = { name?: string; wineIds?: string[] | null; isActive?: boolean };
+
+export async function updateStore(id: string, patch: StorePatch): Promise<Store> {
+  return (
+    await request<{ store: Store }>(`/api/stores/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    })
+  ).store;
+}
+
+export type StoreRecords = { store: Store; records: ServerDailyRecord[] };
+
+export async function fetchStoreSummary(from: string, to: string): Promise<StoreRecords[]> {
+  const qs = new URLSearchParams({ from, to });
+  return (await request<{ stores: StoreRecords[] }>(`/api/stores/summary?${qs}`)).stores;
+}
+
+// --- POS import
+
+/** Reads a POS export for a date; nothing is saved (the result prefills the sales draft). */
+export async function importPosSales(dateISO: string, file: File): Promise<PosImport> {
+  const qs = new URLSearchParams({ date: dateISO });
+  return (
+    await request<{ import: PosImport }>(`/api/pos-import?${qs}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: await file.arrayBuffer(),
+    })
+  ).import;
+}
+
+export async function fetchPosMappings(): Promise<PosMapping[]> {
+  return (await request<{ mappings: PosMapping[] }>("/api/pos-mappings")).mappings;
+}
+
+export async function savePosMappings(mappings: PosMapping[]): Promise<PosMapping[]> {
+  return (
+    await request<{ mappings: PosMapping[] }>("/api/pos-mappings", { method: "PUT", body: JSON.stringify({ mappings }) })
+  ).mappings;
+}
+
+// --- Loss photos
+
+/** Uploads a photo for a loss line; the id goes into the line's photoIds. */
+export async function uploadLossPhoto(photo: Blob): Promise<string> {
+  return (
+    await request<{ id: string }>("/api/loss-photos", {
+      method: "POST",
+      headers: { "Content-Type": photo.type },
+      body: photo,
+    })
+  ).id;
+}
+
+export const lossPhotoUrl = (id: string) => `/api/loss-photos/${encodeURIComponent(id)}`;
+
+// --- Settings
+
+export async function fetchSettings(): Promise<Settings> {
+  return (await request<{ settings: Settings }>("/api/settings")).settings;
+}
+
+export async function updateSettings(patch: Partial<Settings>): Promise<Settings> {
+  return (await request<{ settings: Settings }>("/api/settings", { method: "PATCH", body: JSON.stringify(patch) }))
+    .settings;
+}
+
+// --- Inventory
+
+export async function fetchStockPositions(dateISO: string): Promise<Record<string, StockPosition>> {
+  return (await request<{ positions: Record<string, StockPosition> }>(`/api/inventory?date=${dateISO}`)).positions;
+}
+
+export async function fetchOpenings(): Promise<Record<string, OpeningCount>> {
+  return (await request<{ openings: Record<string, OpeningCount> }>("/api/inventory/openings")).openings;
+}
+
+export async function setOpening(opening: OpeningCount): Promise<OpeningCount> {
+  return (
+    await request<{ opening: OpeningCount }>("/api/inventory/openings", {
+      method: "POST",
+      body: JSON.stringify(opening),
+    })
+  ).opening;
+}
+
+export async function fetchLedger(wineId: string): Promise<StockMovement[]> {
+  return (await request<{ movements: StockMovement[] }>(`/api/inventory/ledger?wineId=${encodeURIComponent(wineId)}`))
+    .movements;
+}
+
+export async function fetchDeliveries(range: { from?: string; to?: string } = {}): Promise<Delivery[]> {
+  const qs = new URLSearchParams();
+  if (range.from) qs.set("from", range.from);
+  if (range.to) qs.set("to", range.to);
+  return (await request<{ deliveries: Delivery[] }>(`/api/deliveries?${qs}`)).deliveries;
+}
+
+export type DeliveryInvoice = {
+  dateISO: string;
+  supplierId?: string;
+  invoiceNo?: string;
+  note?: string;
+  lines: { wineId: string; bottles: number; unitCost?: number }[];
+};
+
+export async function addDeliveries(invoice: DeliveryInvoice): Promise<Delivery[]> {
+  return (
+    await request<{ deliveries: Delivery[] }>("/api/deliveries", { method: "POST", body: JSON.stringify(invoice) })
+  ).deliveries;
+}
+
+export async function fetchStocktake(dateISO: string): Promise<Stocktake> {
+  return (await request<{ stocktake: Stocktake }>(`/api/stocktakes/${dateISO}`)).stocktake;
+}
+
+export async function saveStocktake(dateISO: string, counts: Record<string, number>): Promise<Stocktake> {
+  return (
+    await request<{ stocktake: Stocktake }>(`/api/stocktakes/${dateISO}`, {
+      method: "POST",
+      body: JSON.stringify({ counts }),
+    })
+  ).stocktake;
+}
@@ -0,0 +1,70 @@
+import type { AuditAction, DailyPart, DailyRecord, JournalEntry, LossLine, LossReason, SaleLine } from "@/lib/types";
+import { describeLoss } from "@/lib/losses";
+import { lineKey } from "@/lib/sync";
+
+/**
+ * Device side of the per-line audit trail. `upsertSale`, `upsertLoss` and `resetDay`
+ * note each change in the draft's journal; the journal goes out with the part's next save
+ * and the server keeps what it accepted in the record's `audit` (lib/server/daily.ts).
+ */
+
+type AnyLine = SaleLine | LossLine;
+
+// Entered values only: no stamps, no server-derived discardMl; a blank line is no line.
+function values(part: DailyPart, line?: AnyLine | null): AnyLine | null {
+  if (!line || lineKey(part, line) === "") return null;
+  const { updatedBy: _by, updatedAt: _at, ...rest } = line;
+  if (part === "sales") return rest;
+  const { discardMl: _ml, ...loss } = rest as LossLine;
+  return loss;
+}
+
+const same = (part: DailyPart, a: AnyLine | null, b: AnyLine | null) =>
+  lineKey(part, a ?? undefined) === lineKey(part, b ?? undefined);
+
+/**
+ * Adds one line change to the journal. Consecutive edits of the same line by the same
+ * user become one entry (tapping + five times is one change), and an edit that ends
+ * where it started drops out.
+ */
+export function recordEdit(
+  journal: JournalEntry[] = [],
+  part: DailyPart,
+  wineId: string,
+  before: AnyLine | undefined,
+  after: AnyLine | undefined,
+  by: string,
+  action: AuditAction = "edit"
+): JournalEntry[] {
+  const at = new Date().toISOString();
+  const b = values(part, before);
+  const a = values(part, after);
+  const last = journal[journal.length - 1];
+  if (action === "edit" && last?.action === "edit" && last.part === part && last.wineId === wineId && last.by === by) {
+    const rest = journal.slice(0, -1);
+    return same(part, last.before, a) ? rest : [...rest, { ...last, at, after: a }];
+  }
+  if (same(part, b, a)) return journal;
+  return [...journal, { at, by, part, wineId, action, before: b, after: a }];
+}
+
+/** `resetDay`: one "reset" entry for every line that had something in it. */
+export function recordReset(rec: DailyRecord, by: string): JournalEntry[] {
+  let journal = rec.journal ?? [];
+  for (const part of ["sales", "losses"] as const) {
+    for (const [wineId, line] of Object.entries(rec[part] ?? {})) {
+      journal = recordEdit(journal, part, wineId, line, undefined, by, "reset");
+    }
+  }
+  return journal;
+}
+
+/** Short text for a line in the audit log: "ボトル 2 / グラス 3", "破損 / ブショネ / 破損 1本" … */
+export function describeLine(part: DailyPart, line: AnyLine | null, reasons: LossReason[]): string {
+  if (!line) return "—";
+  if (part === "sales") {
+    const l = line as SaleLine;
+    return `ボトル ${l.bottleQty} / グラス ${l.glassQty}`;
+  }
+  return describeLoss(line as LossLine, reasons);
+}
@@ -0,0 +1,21 @@
+import type { Wine } from "@/lib/types";
+
+/**
+ * JAN (EAN-13 / EAN-8) codes on the wine master, as read by the camera scanner or a USB
+ * scanner typing into the search box. UPC-A (12 digits) and GTIN-14 are accepted too:
+ * imported wines are not always Japanese.
+ */
+
+export const JAN_RE = /^(\d{8}|\d{12,14})$/;
+
+/** Digits only (scanners and spreadsheets add spaces or hyphens); "" when it is not a code. */
+export function normalizeJan(raw: string): string {
+  const digits = raw.replace(/[\s-]/g, "");
+  return JAN_RE.test(digits) ? digits : "";
+}
+
+/** Wines with this code; several vintages of one wine often share a JAN. */
+export function winesByJan(wines: Wine[], code: string): Wine[] {
+  const jan = normalizeJan(code);
+  return jan ? wines.filter((w) => w.jan === jan) : [];
+}
@@ -0,0 +1,23 @@
+/**
+ * YYYY-MM-DD helpers. Dates are business days in local time, never timestamps.
+ */
+
+const pad2 = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+export function toISODate(d: Date): string {
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+export function todayISO(): string {
+  return toISODate(new Date());
+}
+
+/** The business day open at `now`: until `cutoffHour` o'clock it is still the day before. */
+export function businessDateISO(cutoffHour: number, now: Date = new Date()): string {
+  return toISODate(new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours() - cutoffHour));
+}
+
+export function addDays(dateISO: string, days: number): string {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  return toISODate(new Date(y, m - 1, d + days));
+}
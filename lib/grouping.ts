@@ -0,0 +1,76 @@
+import type { SaleLine, Wine, WineColor } from "@/lib/types";
+
+/**
+ * Grouping of the input grid by color, country, region or grape. Wines without a value
+ * for the key fall into one "未設定" group at the end; within a group the given order
+ * (the user's order, or the search ranking) is kept.
+ */
+
+export type WineGroupKey = "color" | "country" | "region" | "grape";
+
+export const GROUP_KEY_LABEL: Record<WineGroupKey, string> = {
+  color: "色",
+  country: "国",
+  region: "産地",
+  grape: "品種",
+};
+
+// Also the order of the color groups.
+export const COLOR_LABEL: Record<WineColor, string> = {
+  red: "赤",
+  white: "白",
+  sparkling: "泡",
+  rose: "ロゼ",
+  orange: "オレンジ",
+  dessert: "甘口",
+};
+
+const UNSET_LABEL = "未設定";
+
+export type WineGroup = {
+  value: string; // "" = not set
+  label: string;
+  wines: Wine[];
+};
+
+export const groupValue = (w: Wine, key: WineGroupKey): string => (w[key] ?? "").trim();
+
+export function groupLabel(key: WineGroupKey, value: string): string {
+  if (!value) return UNSET_LABEL;
+  return key === "color" ? COLOR_LABEL[value as WineColor] ?? value : value;
+}
+
+function compareValues(key: WineGroupKey, a: string, b: string): number {
+  if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+  if (key === "color") {
+    const order = Object.keys(COLOR_LABEL);
+    return order.indexOf(a) - order.indexOf(b);
+  }
+  return a.localeCompare(b, "ja");
+}
+
+export function groupWines(wines: Wine[], key: WineGroupKey): WineGroup[] {
+  const byValue = new Map<string, Wine[]>();
+  for (const w of wines) {
+    const v = groupValue(w, key);
+    byValue.set(v, [...(byValue.get(v) ?? []), w]);
+  }
+  return [...byValue.keys()]
+    .sort((a, b) => compareValues(key, a, b))
+    .map((value) => ({ value, label: groupLabel(key, value), wines: byValue.get(value)! }));
+}
+
+/** The values present among `wines`, for the filter chips. */
+export function groupValues(wines: Wine[], key: WineGroupKey): string[] {
+  return [...new Set(wines.map((w) => groupValue(w, key)))].sort((a, b) => compareValues(key, a, b));
+}
+
+export function groupSubtotal(wines: Wine[], sales: Record<string, SaleLine>): { bottles: number; glasses: number } {
+  let bottles = 0;
+  let glasses = 0;
+  for (const w of wines) {
+    bottles += sales[w.id]?.bottleQty || 0;
+    glasses += sales[w.id]?.glassQty || 0;
+  }
+  return { bottles, glasses };
+}
@@ -0,0 +1,69 @@
+import type { LossLine, SaleLine, Wine } from "@/lib/types";
+import { pourMlFor, type OpenedBottle } from "@/lib/opened";
+
+/**
+ * Yen figures for a day's input: revenue at menu prices, cost of goods at the wine's unit
+ * cost (glasses costed by the ml poured), and the cost of broken and discarded wine.
+ * Wines without a glass price or unit cost count as 0 and are listed in `unpriced`.
+ */
+
+export type DayMoney = {
+  revenue: number;
+  cogs: number;
+  grossMargin: number;
+  brokenCost: number;
+  discardCost: number;
+  lossCost: number;
+  unpriced: string[]; // wine IDs with entries but a missing glass price or unit cost
+};
+
+const costPerMl = (wine: Wine) => (wine.unitCost ?? 0) / wine.bottleSizeMl;
+
+export function saleRevenue(wine: Wine, sale?: SaleLine): number {
+  if (!sale) return 0;
+  return sale.bottleQty * wine.price + sale.glassQty * (wine.glassPrice ?? 0);
+}
+
+export function saleCogs(wine: Wine, sale: SaleLine | undefined, defaultPourMl: number): number {
+  if (!sale) return 0;
+  const pouredMl = sale.glassQty * pourMlFor(wine, defaultPourMl);
+  return Math.round(sale.bottleQty * (wine.unitCost ?? 0) + pouredMl * costPerMl(wine));
+}
+
+// discardMl: the live preview on the loss screen, or the stored `LossLine.discardMl`.
+export function lossCost(wine: Wine, loss?: LossLine, discardMl = 0): { broken: number; discard: number } {
+  return {
+    broken: (loss?.brokenBottles || 0) * (wine.unitCost ?? 0),
+    discard: Math.round(discardMl * costPerMl(wine)),
+  };
+}
+
+export function dayMoney(
+  wines: Wine[],
+  day: { sales: Record<string, SaleLine>; losses: Record<string, LossLine> },
+  opened: Record<string, OpenedBottle>,
+  defaultPourMl: number
+): DayMoney {
+  const out: DayMoney = { revenue: 0, cogs: 0, grossMargin: 0, brokenCost: 0, discardCost: 0, lossCost: 0, unpriced: [] };
+  for (const wine of wines) {
+    const sale = day.sales[wine.id];
+    const loss = day.losses[wine.id];
+    const o = opened[wine.id];
+    const entered = !!(sale?.bottleQty || sale?.glassQty || loss?.brokenBottles || o?.discardMl);
+    if (!entered) continue;
+
+    out.revenue += saleRevenue(wine, sale);
+    out.cogs += saleCogs(wine, sale, defaultPourMl);
+    const l = lossCost(wine, loss, o?.discardMl);
+    out.brokenCost += l.broken;
+    out.discardCost += l.discard;
+    if (wine.unitCost === undefined || (sale?.glassQty && wine.glassPrice === undefined)) out.unpriced.push(wine.id);
+  }
+  out.grossMargin = out.revenue - out.cogs;
+  out.lossCost = out.brokenCost + out.discardCost;
+  return out;
+}
+
+export function formatYen(n: number): string {
+  return `¥${Math.round(n).toLocaleString("ja-JP")}`;
+}
@@ -0,0 +1,38 @@
+import type { LossLine, LossReason } from "@/lib/types";
+
+/**
+ * Labels for loss lines: the loss type (what happened to the wine) and the configurable
+ * reason (why), shared by the input, review, history and merge screens.
+ */
+
+export const LOSS_LABEL: Record<string, string> = {
+  none: "なし",
+  remaining_discard: "残量廃棄",
+  broken: "破損",
+};
+
+/** Used until settings say otherwise. */
+export const DEFAULT_LOSS_REASONS: LossReason[] = [
+  { id: "corked", label: "ブショネ", lossType: "broken" },
+  { id: "oxidized", label: "酸化・劣化", lossType: "remaining_discard" },
+  { id: "staff_tasting", label: "スタッフ試飲", lossType: "remaining_discard" },
+  { id: "comped", label: "サービス提供", lossType: "remaining_discard" },
+  { id: "spilled", label: "こぼし・破損", lossType: "broken" },
+];
+
+export const MAX_LOSS_PHOTOS = 4;
+
+export function reasonLabel(reasons: LossReason[], id?: string): string {
+  if (!id) return "";
+  return reasons.find((r) => r.id === id)?.label ?? id;
+}
+
+/** "破損 / ブショネ / 破損 1本 / メモ" style summary of a loss line. */
+export function describeLoss(line: LossLine, reasons: LossReason[]): string {
+  const parts = [LOSS_LABEL[line.lossType] ?? line.lossType];
+  if (line.reason) parts.push(reasonLabel(reasons, line.reason));
+  if (line.brokenBottles > 0) parts.push(`破損 ${line.brokenBottles}本`);
+  if (line.note) parts.push(line.note);
+  if (line.photoIds?.length) parts.push(`写真 ${line.photoIds.length}枚`);
+  return parts.join(" / ");
+}
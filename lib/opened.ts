@@ -0,0 +1,74 @@
+import type { LossLine, SaleLine, Wine } from "@/lib/types";
+
+/**
+ * Opened-bottle tracking for glass service, shared by the loss screen (live preview)
+ * and the server (stored on save).
+ *
+ * Per wine and day: glasses poured (glassQty × pour size) are taken first from the bottle
+ * left open the day before, then from newly opened bottles. Whatever remains in the open
+ * bottle at the end of the day is carried over, unless the loss line says
+ * `remaining_discard`, in which case that remainder is the discarded ml.
+ */
+
+export const DEFAULT_POUR_ML = 100;
+
+export type OpenedBottle = {
+  carryInMl: number; // left in the bottle opened on a previous day
+  pouredMl: number;
+  openedBottles: number; // bottles opened today for glass service
+  remainderMl: number; // left in the open bottle at day end, before any discard
+  discardMl: number;
+  carryOutMl: number; // what the next day starts from
+};
+
+export function trackOpened({
+  bottleSizeMl,
+  pourMl,
+  carryInMl,
+  glassQty,
+  discard,
+}: {
+  bottleSizeMl: number;
+  pourMl: number;
+  carryInMl: number;
+  glassQty: number;
+  discard: boolean;
+}): OpenedBottle {
+  const pouredMl = glassQty * pourMl;
+  let openedBottles = 0;
+  let remainderMl = carryInMl - pouredMl;
+  if (remainderMl < 0) {
+    openedBottles = Math.ceil(-remainderMl / bottleSizeMl);
+    remainderMl += openedBottles * bottleSizeMl;
+  }
+  const discardMl = discard ? remainderMl : 0;
+  return { carryInMl, pouredMl, openedBottles, remainderMl, discardMl, carryOutMl: remainderMl - discardMl };
+}
+
+export function pourMlFor(wine: Wine, defaultPourMl: number): number {
+  return wine.pourMl ?? defaultPourMl;
+}
+
+/** Runs `trackOpened` for every wine with glass sales, a carry-in or a loss line. */
+export function deriveOpened(
+  day: { sales: Record<string, SaleLine>; losses: Record<string, LossLine> },
+  wines: Wine[],
+  carryInMl: Record<string, number>,
+  defaultPourMl: number
+): Record<string, OpenedBottle> {
+  const out: Record<string, OpenedBottle> = {};
+  for (const wine of wines) {
+    const glassQty = day.sales[wine.id]?.glassQty || 0;
+    const carry = carryInMl[wine.id] || 0;
+    const discard = day.losses[wine.id]?.lossType === "remaining_discard";
+    if (!glassQty && !carry && !discard) continue;
+    out[wine.id] = trackOpened({
+      bottleSizeMl: wine.bottleSizeMl,
+      pourMl: pourMlFor(wine, defaultPourMl),
+      carryInMl: carry,
+      glassQty,
+      discard,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,21 @@
+/**
+ * Camera photos are several MB; loss photos only need to show the damage, so they are
+ * shrunk on the device before upload (POST /api/loss-photos).
+ */
+
+const MAX_SIDE_PX = 1600;
+const JPEG_QUALITY = 0.85;
+
+/** JPEG no larger than MAX_SIDE_PX on its long side; small images are only re-encoded. */
+export async function shrinkPhoto(file: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SIDE_PX / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("画像を変換できませんでした"))), "image/jpeg", JPEG_QUALITY)
+  );
+}
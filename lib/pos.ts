@@ -0,0 +1,55 @@
+import type { DailyRecord, SaleLine } from "@/lib/types";
+import { recordEdit } from "@/lib/audit";
+import { lineKey } from "@/lib/sync";
+
+/**
+ * Device side of the POS import (server: lib/server/pos.ts): compares the POS quantities
+ * with what is already in the sales draft and writes the chosen ones into it, journaled
+ * as "pos_import" so the audit log shows where the numbers came from.
+ */
+
+export type PosLineStatus =
+  | "new" // nothing entered yet: the POS value is used
+  | "same" // entered by hand and equal to the POS
+  | "manual"; // entered by hand and different (or missing in the POS): staff choose
+
+export type PosReviewLine = {
+  wineId: string;
+  entered?: SaleLine;
+  pos?: SaleLine;
+  status: PosLineStatus;
+};
+
+/** One line per wine that has something in the draft or in the POS file. */
+export function posReview(sales: Record<string, SaleLine>, pos: Record<string, SaleLine>): PosReviewLine[] {
+  const ids = new Set([...Object.keys(sales), ...Object.keys(pos)]);
+  const lines: PosReviewLine[] = [];
+  for (const wineId of ids) {
+    const entered = lineKey("sales", sales[wineId]) ? sales[wineId] : undefined;
+    const fromPos = lineKey("sales", pos[wineId]) ? pos[wineId] : undefined;
+    if (!entered && !fromPos) continue;
+    const status: PosLineStatus = !entered
+      ? "new"
+      : lineKey("sales", entered) === lineKey("sales", fromPos)
+        ? "same"
+        : "manual";
+    lines.push({ wineId, entered, pos: fromPos, status });
+  }
+  return lines;
+}
+
+/**
+ * Writes the POS values into the draft: every "new" line, and the "manual" lines listed in
+ * `usePos`. A manual line the POS does not have is cleared only if it is listed.
+ */
+export function applyPosSales(rec: DailyRecord, lines: PosReviewLine[], usePos: Set<string>, by: string): DailyRecord {
+  const sales = { ...(rec.sales ?? {}) };
+  let journal = rec.journal ?? [];
+  for (const l of lines) {
+    if (l.status === "same" || (l.status === "manual" && !usePos.has(l.wineId))) continue;
+    const next: SaleLine = { wineId: l.wineId, bottleQty: l.pos?.bottleQty ?? 0, glassQty: l.pos?.glassQty ?? 0 };
+    journal = recordEdit(journal, "sales", l.wineId, rec.sales?.[l.wineId], next, by, "pos_import");
+    sales[l.wineId] = next;
+  }
+  return { ...rec, sales, journal, dirty: { ...rec.dirty, sales: true } };
+}
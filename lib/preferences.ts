@@ -0,0 +1,89 @@
+import type { DailyRecord, Preferences, Wine } from "@/lib/types";
+
+/**
+ * Favorites and list order of the logged-in user (server copy: lib/server/preferences.ts).
+ * The device keeps a copy per user in localStorage (`winebar.prefs.<userId>`) so the list
+ * is ordered right offline; a change made offline stays `pending` and is sent later.
+ */
+
+export const EMPTY_PREFERENCES: Preferences = { favorites: [], order: [] };
+
+export type CachedPreferences = Preferences & { pending?: boolean };
+
+const keyFor = (userId: string) => `winebar.prefs.${userId}`;
+
+export function readPreferences(userId: string): CachedPreferences {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(keyFor(userId)) || "null");
+    return Array.isArray(parsed?.favorites) && Array.isArray(parsed?.order) ? parsed : EMPTY_PREFERENCES;
+  } catch {
+    return EMPTY_PREFERENCES;
+  }
+}
+
+export function writePreferences(userId: string, prefs: CachedPreferences) {
+  localStorage.setItem(keyFor(userId), JSON.stringify(prefs));
+}
+
+export const samePreferences = (a: Preferences, b: Preferences) =>
+  JSON.stringify([a.favorites, a.order]) === JSON.stringify([b.favorites, b.order]);
+
+export const isEmpty = (prefs: Preferences) => prefs.favorites.length === 0 && prefs.order.length === 0;
+
+/** False until preferences for the user were first stored on this device. */
+export const hasCachedPreferences = (userId: string) => localStorage.getItem(keyFor(userId)) !== null;
+
+/**
+ * Favorites of the newest draft on the device, from before favorites moved out of the
+ * daily record; used once to seed a user who has no preferences yet.
+ */
+export function legacyFavorites(): string[] {
+  const keys = Object.keys(localStorage)
+    .filter((k) => k.startsWith("winebar.daily."))
+    .sort((a, b) => a.slice(-10).localeCompare(b.slice(-10)));
+  for (const key of keys.reverse()) {
+    try {
+      const rec = JSON.parse(localStorage.getItem(key) || "null") as DailyRecord | null;
+      const ids = Object.keys(rec?.favorites ?? {}).filter((id) => rec?.favorites?.[id]);
+      if (ids.length) return ids;
+    } catch {
+      // Unreadable draft: try the next one.
+    }
+  }
+  return [];
+}
+
+export function toggleFavorite(prefs: Preferences, wineId: string): Preferences {
+  const favorites = prefs.favorites.includes(wineId)
+    ? prefs.favorites.filter((id) => id !== wineId)
+    : [...prefs.favorites, wineId];
+  return { ...prefs, favorites };
+}
+
+/** Input list order: favorites first, then the user's order, then wines not yet ordered by name. */
+export function sortWines(wines: Wine[], prefs: Preferences): Wine[] {
+  const favorite = new Set(prefs.favorites);
+  const rank = new Map(prefs.order.map((id, i) => [id, i]));
+  const pos = (w: Wine) => rank.get(w.id) ?? Number.MAX_SAFE_INTEGER;
+  return wines.slice().sort((a, b) => {
+    const af = favorite.has(a.id) ? 0 : 1;
+    const bf = favorite.has(b.id) ? 0 : 1;
+    return af - bf || pos(a) - pos(b) || a.name.localeCompare(b.name);
+  });
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = items.slice();
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * The order after reordering the wines shown (`shown`, e.g. one store's list): those come
+ * first as arranged, wines ordered before but not shown keep their relative order after them.
+ */
+export function withOrder(prefs: Preferences, shown: string[]): Preferences {
+  const visible = new Set(shown);
+  return { ...prefs, order: [...shown, ...prefs.order.filter((id) => !visible.has(id))] };
+}
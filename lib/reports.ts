@@ -0,0 +1,202 @@
+import type { LossLine, ServerDailyRecord, Wine } from "@/lib/types";
+import { addDays } from "@/lib/dates";
+import { lossCost, saleRevenue } from "@/lib/kpi";
+
+/**
+ * Aggregations for the reports pages over saved daily records: totals per day / week /
+ * month or per store, per-wine rankings, weekday averages, and one wine's recent history. Losses are
+ * counted in bottles, with discarded remainders converted at the wine's bottle size.
+ */
+
+export type Bucket = "day" | "week" | "month";
+
+export type Totals = {
+  bottles: number;
+  glasses: number;
+  brokenBottles: number;
+  discardBottles: number; // discarded ml / bottle size
+  revenue: number;
+  lossCost: number;
+};
+
+export type TrendPoint = Totals & { key: string; label: string };
+
+export type WineTotals = Totals & { wineId: string };
+
+export type WeekdayPoint = Totals & { weekday: number; label: string; days: number }; // averages per recorded day
+
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0]; // Monday first
+
+const emptyTotals = (): Totals => ({
+  bottles: 0,
+  glasses: 0,
+  brokenBottles: 0,
+  discardBottles: 0,
+  revenue: 0,
+  lossCost: 0,
+});
+
+function weekday(dateISO: string): number {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  return new Date(y, m - 1, d).getDay();
+}
+
+/** Bucket key: the date itself, the Monday of its week, or YYYY-MM. */
+export function bucketKey(dateISO: string, bucket: Bucket): string {
+  if (bucket === "day") return dateISO;
+  if (bucket === "month") return dateISO.slice(0, 7);
+  return addDays(dateISO, -((weekday(dateISO) + 6) % 7));
+}
+
+function bucketLabel(key: string, bucket: Bucket): string {
+  if (bucket === "month") return key;
+  const md = `${Number(key.slice(5, 7))}/${Number(key.slice(8, 10))}`;
+  return bucket === "week" ? `${md}週` : md;
+}
+
+/** Adds one day's lines into per-wine totals. */
+function addDay(day: ServerDailyRecord, wines: Map<string, Wine>, into: (wineId: string) => Totals) {
+  for (const sale of Object.values(day.sales)) {
+    const wine = wines.get(sale.wineId);
+    const t = into(sale.wineId);
+    t.bottles += sale.bottleQty;
+    t.glasses += sale.glassQty;
+    if (wine) t.revenue += saleRevenue(wine, sale);
+  }
+  for (const loss of Object.values(day.losses)) {
+    const wine = wines.get(loss.wineId);
+    const t = into(loss.wineId);
+    t.brokenBottles += loss.brokenBottles;
+    if (!wine) continue;
+    t.discardBottles += (loss.discardMl || 0) / wine.bottleSizeMl;
+    const cost = lossCost(wine, loss, loss.discardMl);
+    t.lossCost += cost.broken + cost.discard;
+  }
+}
+
+function sumInto(target: Totals, t: Totals) {
+  target.bottles += t.bottles;
+  target.glasses += t.glasses;
+  target.brokenBottles += t.brokenBottles;
+  target.discardBottles += t.discardBottles;
+  target.revenue += t.revenue;
+  target.lossCost += t.lossCost;
+}
+
+function dayTotals(day: ServerDailyRecord, wines: Map<string, Wine>): Totals {
+  const total = emptyTotals();
+  addDay(day, wines, () => total);
+  return total;
+}
+
+/** One point per bucket from `from` to `to`, including buckets with nothing recorded. */
+export function trend(days: ServerDailyRecord[], wines: Wine[], from: string, to: string, bucket: Bucket): TrendPoint[] {
+  const byId = new Map(wines.map((w) => [w.id, w]));
+  const points = new Map<string, TrendPoint>();
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    const key = bucketKey(d, bucket);
+    if (!points.has(key)) points.set(key, { key, label: bucketLabel(key, bucket), ...emptyTotals() });
+  }
+  for (const day of days) {
+    const point = points.get(bucketKey(day.dateISO, bucket));
+    if (point) sumInto(point, dayTotals(day, byId));
+  }
+  return [...points.values()];
+}
+
+/** Everything in `days` added up (e.g. one store's period in the cross-store summary). */
+export function rangeTotals(days: ServerDailyRecord[], wines: Wine[]): Totals {
+  const byId = new Map(wines.map((w) => [w.id, w]));
+  const total = emptyTotals();
+  for (const day of days) sumInto(total, dayTotals(day, byId));
+  return total;
+}
+
+export function wineTotals(days: ServerDailyRecord[], wines: Wine[]): WineTotals[] {
+  const byId = new Map(wines.map((w) => [w.id, w]));
+  const totals = new Map<string, WineTotals>();
+  const into = (wineId: string) => {
+    let t = totals.get(wineId);
+    if (!t) totals.set(wineId, (t = { wineId, ...emptyTotals() }));
+    return t;
+  };
+  for (const day of days) addDay(day, byId, into);
+  return [...totals.values()];
+}
+
+/** Best sellers by revenue (bottle sales as tie-break, for wines without prices). */
+export function topSellers(totals: WineTotals[], limit = 10): WineTotals[] {
+  return totals
+    .filter((t) => t.bottles + t.glasses > 0)
+    .sort((a, b) => b.revenue - a.revenue || b.bottles - a.bottles || b.glasses - a.glasses)
+    .slice(0, limit);
+}
+
+export function topLosses(totals: WineTotals[], limit = 10): WineTotals[] {
+  const lost = (t: Totals) => t.brokenBottles + t.discardBottles;
+  return totals
+    .filter((t) => lost(t) > 0)
+    .sort((a, b) => b.lossCost - a.lossCost || lost(b) - lost(a))
+    .slice(0, limit);
+}
+
+/** Average per recorded day for each weekday, Monday first. */
+export function weekdayPattern(days: ServerDailyRecord[], wines: Wine[]): WeekdayPoint[] {
+  const byId = new Map(wines.map((w) => [w.id, w]));
+  const points = WEEK_ORDER.map((wd) => ({ weekday: wd, label: WEEKDAY_LABELS[wd], days: 0, ...emptyTotals() }));
+  for (const day of days) {
+    const point = points.find((p) => p.weekday === weekday(day.dateISO))!;
+    point.days += 1;
+    sumInto(point, dayTotals(day, byId));
+  }
+  for (const p of points) {
+    if (p.days === 0) continue;
+    p.bottles /= p.days;
+    p.glasses /= p.days;
+    p.brokenBottles /= p.days;
+    p.discardBottles /= p.days;
+    p.revenue /= p.days;
+    p.lossCost /= p.days;
+  }
+  return points;
+}
+
+// --- Single wine
+
+export type WineDay = { dateISO: string; recorded: boolean; bottles: number; glasses: number };
+
+export type WineLossEvent = LossLine & { dateISO: string };
+
+export type WineHistory = {
+  days: WineDay[]; // every date from..to, oldest first
+  losses: WineLossEvent[]; // newest first
+  avgBottles: number; // per recorded day
+  avgGlasses: number;
+  maxBottles: number;
+  maxGlasses: number;
+};
+
+export function wineHistory(records: ServerDailyRecord[], wineId: string, from: string, to: string): WineHistory {
+  const byDate = new Map(records.map((r) => [r.dateISO, r]));
+  const days: WineDay[] = [];
+  const losses: WineLossEvent[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    const rec = byDate.get(d);
+    const sale = rec?.sales[wineId];
+    days.push({ dateISO: d, recorded: !!rec, bottles: sale?.bottleQty ?? 0, glasses: sale?.glassQty ?? 0 });
+    const loss = rec?.losses[wineId];
+    if (loss && (loss.lossType !== "none" || loss.brokenBottles > 0)) losses.unshift({ ...loss, dateISO: d });
+  }
+  const recorded = days.filter((d) => d.recorded);
+  const avg = (f: (d: WineDay) => number) => (recorded.length ? recorded.reduce((s, d) => s + f(d), 0) / recorded.length : 0);
+  return {
+    days,
+    losses,
+    avgBottles: avg((d) => d.bottles),
+    avgGlasses: avg((d) => d.glasses),
+    maxBottles: Math.max(0, ...recorded.map((d) => d.bottles)),
+    maxGlasses: Math.max(0, ...recorded.map((d) => d.glasses)),
+  };
+}
@@ -0,0 +1,355 @@
+import type { Wine } from "@/lib/types";
+import { normalizeJan } from "@/lib/barcode";
+
+/**
+ * Wine search for the input screens. Query and wine fields are compared after folding
+ * width (NFKC), case, accents and katakana → hiragana, and again as romaji, so "しゃぶり",
+ * "ｼｬﾌﾞﾘ" and "shaburi" all find "シャブリ". Grape and region names are expanded through
+ * ALIASES ("burgundy" finds "Bourgogne", "シャルドネ" finds "Chardonnay"), and longer words
+ * tolerate a typo or two ("chardnay"). Every word of the query has to match somewhere in
+ * the ID, name, producer, grape, region or country; results are ranked by how well they do.
+ */
+
+export type TextRange = [number, number]; // [start, end) in the original string
+
+export type WineMatch = {
+  wine: Wine;
+  score: number;
+  name: TextRange[]; // parts of wine.name to highlight
+  producer: TextRange[]; // parts of wine.producer to highlight
+};
+
+// Spellings of the same grape or region; a query word matching one looks for all of them.
+// Words of multi-word grape names are listed on their own too, so "cabernet" finds "カベルネ".
+const ALIASES: string[][] = [
+  ["cabernet", "カベルネ"],
+  ["sauvignon", "ソーヴィニヨン", "ソーヴィニョン"],
+  ["pinot", "ピノ"],
+  ["noir", "ノワール"],
+  ["blanc", "ブラン"],
+  ["franc", "フラン"],
+  ["chardonnay", "シャルドネ"],
+  ["sauvignon blanc", "ソーヴィニヨン・ブラン", "ソーヴィニョン・ブラン"],
+  ["cabernet sauvignon", "カベルネ・ソーヴィニヨン", "カベルネ・ソーヴィニョン"],
+  ["cabernet franc", "カベルネ・フラン"],
+  ["merlot", "メルロ", "メルロー"],
+  ["pinot noir", "spätburgunder", "ピノ・ノワール"],
+  ["pinot gris", "pinot grigio", "ピノ・グリ", "ピノ・グリージョ"],
+  ["riesling", "リースリング"],
+  ["syrah", "shiraz", "シラー", "シラーズ"],
+  ["grenache", "garnacha", "グルナッシュ", "ガルナッチャ"],
+  ["gamay", "ガメイ", "ガメ"],
+  ["chenin blanc", "シュナン・ブラン"],
+  ["viognier", "ヴィオニエ"],
+  ["gewürztraminer", "ゲヴュルツトラミネール"],
+  ["nebbiolo", "ネッビオーロ"],
+  ["sangiovese", "サンジョヴェーゼ"],
+  ["tempranillo", "テンプラニーリョ"],
+  ["malbec", "マルベック"],
+  ["zinfandel", "primitivo", "ジンファンデル", "プリミティーヴォ"],
+  ["koshu", "甲州"],
+  ["muscat bailey a", "マスカット・ベーリーa"],
+  ["bourgogne", "burgundy", "ブルゴーニュ"],
+  ["bordeaux", "ボルドー"],
+  ["champagne", "シャンパーニュ", "シャンパン"],
+  ["chablis", "シャブリ"],
+  ["rhône", "rhone", "ローヌ"],
+  ["loire", "ロワール"],
+  ["alsace", "アルザス"],
+  ["beaujolais", "ボージョレ", "ボジョレー"],
+  ["piemonte", "piedmont", "ピエモンテ"],
+  ["toscana", "tuscany", "トスカーナ"],
+  ["barolo", "バローロ"],
+  ["chianti", "キャンティ"],
+  ["rioja", "リオハ"],
+  ["mosel", "モーゼル"],
+  ["napa", "ナパ"],
+  ["yamanashi", "山梨"],
+  ["nagano", "長野"],
+  ["hokkaido", "北海道"],
+];
+
+// --- Folding
+
+type Folded = {
+  text: string;
+  spans: TextRange[]; // spans[i]: the original characters text[i] came from
+  wordStart: boolean[]; // text[i] begins a word of the original
+};
+
+// Dropped while folding, so "ピノ・ノワール", "ピノノワール" and "pinot-noir" compare alike.
+const SEPARATOR = /[\s・·\-‐'’.,/()]/;
+
+// Voiced sound marks that belong to the previous kana (half-width ｶﾞ is two characters).
+const MARK = /[\u3099\u309A\uFF9E\uFF9F]/;
+
+const toHiragana = (s: string) => s.replace(/[ァ-ヶ]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0x60));
+
+function foldChars(s: string): string {
+  const nfkc = s.normalize("NFKC").toLowerCase();
+  // Strip Latin accents only: NFD also splits が into か + U+3099, which must stay.
+  return toHiragana(nfkc.normalize("NFD").replace(/[\u0300-\u036f]/g, "").normalize("NFC"));
+}
+
+function fold(s: string): Folded {
+  const out: Folded = { text: "", spans: [], wordStart: [] };
+  let boundary = true;
+  for (let i = 0; i < s.length; ) {
+    let j = i + 1;
+    if (/[\uD800-\uDBFF]/.test(s[i]) && j < s.length) j++;
+    while (j < s.length && MARK.test(s[j])) j++;
+    for (const ch of foldChars(s.slice(i, j)).split("")) {
+      if (SEPARATOR.test(ch)) {
+        boundary = true;
+        continue;
+      }
+      out.text += ch;
+      out.spans.push([i, j]);
+      out.wordStart.push(boundary);
+      boundary = false;
+    }
+    i = j;
+  }
+  return out;
+}
+
+// --- Romaji (Hepburn, as people type it)
+
+const KANA_ROMAJI: Record<string, string> = {};
+(
+  [
+    ["あいうえお", ["a", "i", "u", "e", "o"]],
+    ["かきくけこ", ["ka", "ki", "ku", "ke", "ko"]],
+    ["がぎぐげご", ["ga", "gi", "gu", "ge", "go"]],
+    ["さしすせそ", ["sa", "shi", "su", "se", "so"]],
+    ["ざじずぜぞ", ["za", "ji", "zu", "ze", "zo"]],
+    ["たちつてと", ["ta", "chi", "tsu", "te", "to"]],
+    ["だぢづでど", ["da", "ji", "zu", "de", "do"]],
+    ["なにぬねの", ["na", "ni", "nu", "ne", "no"]],
+    ["はひふへほ", ["ha", "hi", "fu", "he", "ho"]],
+    ["ばびぶべぼ", ["ba", "bi", "bu", "be", "bo"]],
+    ["ぱぴぷぺぽ", ["pa", "pi", "pu", "pe", "po"]],
+    ["まみむめも", ["ma", "mi", "mu", "me", "mo"]],
+    ["やゆよ", ["ya", "yu", "yo"]],
+    ["らりるれろ", ["ra", "ri", "ru", "re", "ro"]],
+    ["わをんゔ", ["wa", "wo", "n", "vu"]],
+    ["ぁぃぅぇぉゎ", ["a", "i", "u", "e", "o", "wa"]],
+  ] as [string, string[]][]
+).forEach(([kana, romaji]) => kana.split("").forEach((k, i) => (KANA_ROMAJI[k] = romaji[i])));
+
+const SMALL_Y: Record<string, string> = { ゃ: "a", ゅ: "u", ょ: "o" };
+const SMALL_VOWEL: Record<string, string> = { ぁ: "a", ぃ: "i", ぅ: "u", ぇ: "e", ぉ: "o" };
+
+/** Folded (hiragana) text as romaji; each letter keeps the span of the kana it spells. */
+function romanize(f: Folded): Folded {
+  const out: Folded = { text: "", spans: [], wordStart: [] };
+  const push = (s: string, span: TextRange, start: boolean) => {
+    s.split("").forEach((ch, k) => {
+      out.text += ch;
+      out.spans.push(span);
+      out.wordStart.push(start && k === 0);
+    });
+  };
+  let sokuon: TextRange | null = null; // っ doubles the next consonant
+  for (let i = 0; i < f.text.length; i++) {
+    const ch = f.text[i];
+    const span = f.spans[i];
+    if (ch === "ー") continue;
+    if (ch === "っ") {
+      sokuon = span;
+      continue;
+    }
+    let r = KANA_ROMAJI[ch];
+    if (r === undefined) {
+      push(ch, span, f.wordStart[i]);
+      sokuon = null;
+      continue;
+    }
+    let end = span[1];
+    const next = f.text[i + 1];
+    if (next && SMALL_Y[next] && r.endsWith("i") && r.length > 1) {
+      const base = r.slice(0, -1);
+      r = /(sh|ch|j)$/.test(base) ? base + SMALL_Y[next] : base + "y" + SMALL_Y[next];
+      end = f.spans[++i][1];
+    } else if (next && SMALL_VOWEL[next] && r.length > 1) {
+      r = r.replace(/[aiueo]$/, "") + SMALL_VOWEL[next]; // ファ fa, ヴィ vi, ティ ti
+      end = f.spans[++i][1];
+    } else if (next && SMALL_VOWEL[next] && r === "u") {
+      r = "w" + SMALL_VOWEL[next]; // ウィ wi
+      end = f.spans[++i][1];
+    }
+    if (sokuon) {
+      push(r[0], sokuon, f.wordStart[i]);
+      sokuon = null;
+    }
+    push(r, [span[0], end], f.wordStart[i]);
+  }
+  return out;
+}
+
+// --- Matching
+
+type Field = { folded: Folded; romaji: Folded };
+
+const field = (s: string): Field => {
+  const folded = fold(s);
+  return { folded, romaji: romanize(folded) };
+};
+
+type Hit = { score: number; ranges: TextRange[] };
+
+// Typos allowed for a word of this length: none for short words, where one would match anything.
+const allowedTypos = (len: number) => (len >= 8 ? 2 : len >= 5 ? 1 : 0);
+
+// Sellers' algorithm: the fewest edits turning `needle` into some substring of `hay`.
+function approx(needle: string, hay: string): { errors: number; start: number; end: number } {
+  const m = needle.length;
+  let prev = Array.from({ length: m + 1 }, (_, i) => i);
+  let prevStart = new Array<number>(m + 1).fill(0);
+  let best = { errors: m, start: 0, end: 0 };
+  for (let j = 1; j <= hay.length; j++) {
+    const cur = [0];
+    const curStart = [j];
+    for (let i = 1; i <= m; i++) {
+      const sub = prev[i - 1] + (needle[i - 1] === hay[j - 1] ? 0 : 1);
+      const skipNeedle = cur[i - 1] + 1;
+      const skipHay = prev[i] + 1;
+      if (sub <= skipNeedle && sub <= skipHay) {
+        cur[i] = sub;
+        curStart[i] = prevStart[i - 1];
+      } else if (skipNeedle <= skipHay) {
+        cur[i] = skipNeedle;
+        curStart[i] = curStart[i - 1];
+      } else {
+        cur[i] = skipHay;
+        curStart[i] = prevStart[i];
+      }
+    }
+    if (cur[m] < best.errors) best = { errors: cur[m], start: curStart[m], end: j };
+    prev = cur;
+    prevStart = curStart;
+  }
+  return best;
+}
+
+function rangesOf(f: Folded, start: number, end: number): TextRange[] {
+  return end > start ? [[f.spans[start][0], f.spans[end - 1][1]]] : [];
+}
+
+// How well one query word (already folded) matches one field: an exact substring scores
+// highest, more so at the start of the field or of a word; a near miss scores less per typo.
+function matchWord(word: Field, target: Field): Hit | null {
+  const exact = (q: string, f: Folded, base: number): Hit | null => {
+    const at = f.text.indexOf(q);
+    if (!q || at < 0) return null;
+    const bonus = at === 0 ? 30 : f.wordStart[at] ? 15 : 0;
+    return { score: base + bonus, ranges: rangesOf(f, at, at + q.length) };
+  };
+  const hit = exact(word.folded.text, target.folded, 100) ?? exact(word.romaji.text, target.romaji, 90);
+  if (hit) return hit;
+
+  const q = word.romaji.text;
+  const typos = allowedTypos(q.length);
+  if (!typos) return null;
+  const near = approx(q, target.romaji.text);
+  if (near.errors > typos) return null;
+  return { score: 60 - 20 * near.errors, ranges: rangesOf(target.romaji, near.start, near.end) };
+}
+
+const ALIAS_FIELDS = ALIASES.map((group) => group.map(field));
+
+// The word itself, plus the other spellings of any grape or region it names.
+function variants(word: Field): { word: Field; penalty: number }[] {
+  const out = [{ word, penalty: 0 }];
+  for (const group of ALIAS_FIELDS) {
+    const named = group.some(
+      (a) =>
+        a.folded.text === word.folded.text ||
+        a.romaji.text === word.romaji.text ||
+        (allowedTypos(a.romaji.text.length) > 0 &&
+          Math.abs(a.romaji.text.length - word.romaji.text.length) <= 2 &&
+          approx(word.romaji.text, a.romaji.text).errors <= allowedTypos(a.romaji.text.length))
+    );
+    if (named) out.push(...group.filter((a) => a.folded.text !== word.folded.text).map((a) => ({ word: a, penalty: 10 })));
+  }
+  return out;
+}
+
+type Prepared = Record<"id" | "name" | "producer" | "grape" | "region" | "country", Field>;
+
+const prepared = new WeakMap<Wine, Prepared>();
+
+function prepare(w: Wine): Prepared {
+  let p = prepared.get(w);
+  if (!p) {
+    p = {
+      id: field(w.id),
+      name: field(w.name),
+      producer: field(w.producer ?? ""),
+      grape: field(w.grape ?? ""),
+      region: field(w.region ?? ""),
+      country: field(w.country ?? ""),
+    };
+    prepared.set(w, p);
+  }
+  return p;
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const out: TextRange[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else out.push([r[0], r[1]]);
+  }
+  return out;
+}
+
+/**
+ * Wines matching `query`, best first (ties keep the given order). An empty query returns
+ * every wine in order; a query that reads as a JAN code matches that barcode.
+ */
+export function searchWines(wines: Wine[], query: string): WineMatch[] {
+  const words = query.split(/\s+/).filter(Boolean).map(field).filter((w) => w.folded.text);
+  if (words.length === 0) return wines.map((wine) => ({ wine, score: 0, name: [], producer: [] }));
+
+  const jan = normalizeJan(query);
+  const expanded = words.map(variants);
+  const matches: WineMatch[] = [];
+  for (const wine of wines) {
+    if (jan && wine.jan === jan) {
+      matches.push({ wine, score: 1000, name: [], producer: [] });
+      continue;
+    }
+    const p = prepare(wine);
+    let score = 0;
+    const name: TextRange[] = [];
+    const producer: TextRange[] = [];
+    const all = expanded.every((options) => {
+      let best: { hit: Hit; field: keyof Prepared } | null = null;
+      for (const { word, penalty } of options) {
+        for (const [key, weight] of [
+          ["id", 1],
+          ["name", 1],
+          ["producer", 0.8],
+          ["grape", 0.8],
+          ["region", 0.8],
+          ["country", 0.6],
+        ] as const) {
+          const hit = matchWord(word, p[key]);
+          if (!hit) continue;
+          const s = hit.score * weight - penalty;
+          if (!best || s > best.hit.score) best = { hit: { score: s, ranges: hit.ranges }, field: key };
+        }
+      }
+      if (!best) return false;
+      score += best.hit.score;
+      if (best.field === "name") name.push(...best.hit.ranges);
+      if (best.field === "producer") producer.push(...best.hit.ranges);
+      return true;
+    });
+    if (all) matches.push({ wine, score, name: mergeRanges(name), producer: mergeRanges(producer) });
+  }
+  return matches.sort((a, b) => b.score - a.score); // Array.prototype.sort is stable
+}
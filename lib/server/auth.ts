@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { User } from "@/lib/types";
+import { businessDateISO } from "@/lib/dates";
+import { HttpError } from "./http";
+import { getSettings } from "./settings";
+import { readJson, updateJson } from "./store";
+import { getUser } from "./users";
+
+/**
+ * Staff session for the shared tablet: a signed cookie `<userId>.<expires>.<hmac>`.
+ * The key comes from WINEBAR_SECRET, or is generated once into data/secret.json.
+ * Switching staff is a new login, so the cookie only has to outlive one shift.
+ * Roles: staff may only change the current business day's sales, losses and counts;
+ * everything else that writes (other days, reopening, reset, the masters, staff accounts)
+ * needs a manager.
+ */
+
+export const SESSION_COOKIE = "winebar_session";
+
+export const SESSION_MAX_AGE = 16 * 60 * 60; // seconds
+
+let secretPromise: Promise<string> | null = null;
+
+function secret(): Promise<string> {
+  if (process.env.WINEBAR_SECRET) return Promise.resolve(process.env.WINEBAR_SECRET);
+  secretPromise ??= readJson<{ key?: string }>("secret", {}).then(
+    (s) =>
+      s.key ??
+      updateJson<{ key?: string }, string>("secret", {}, (cur) => {
+        const key = cur.key ?? randomBytes(32).toString("hex");
+        return { next: { key }, result: key };
+      })
+  );
+  return secretPromise;
+}
+
+const sign = (payload: string, key: string) => createHmac("sha256", key).update(payload).digest("hex");
+
+export async function sessionToken(userId: string): Promise<string> {
+  const payload = `${userId}.${Date.now() + SESSION_MAX_AGE * 1000}`;
+  return `${payload}.${sign(payload, await secret())}`;
+}
+
+function cookieValue(req: Request, name: string): string | null {
+  for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(v.join("="));
+  }
+  return null;
+}
+
+/** The logged-in, still active user, or null. */
+export async function currentUser(req: Request): Promise<User | null> {
+  const token = cookieValue(req, SESSION_COOKIE);
+  const [userId, expires, mac] = token?.split(".") ?? [];
+  if (!userId || !expires || !mac || Number(expires) < Date.now()) return null;
+  const a = Buffer.from(mac, "hex");
+  const b = Buffer.from(sign(`${userId}.${expires}`, await secret()), "hex");
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return null;
+  try {
+    const user = await getUser(userId);
+    return user.isActive === false ? null : user;
+  } catch {
+    return null;
+  }
+}
+
+/** Like `currentUser`, but a missing or stale session is a 401. */
+export async function requireUser(req: Request): Promise<User> {
+  const user = await currentUser(req);
+  if (!user) throw new HttpError(401, "login required");
+  return user;
+}
+
+export const isManager = (user: User) => user.role === "manager";
+
+/** 403 unless the user is a manager; `action` completes "only managers can …". */
+export function assertManager(user: User, action: string): void {
+  if (!isManager(user)) throw new HttpError(403, `only managers can ${action}`);
+}
+
+export async function requireManager(req: Request, action: string): Promise<User> {
+  const user = await requireUser(req);
+  assertManager(user, action);
+  return user;
+}
+
+/**
+ * Staff work on the current business day only (server local time): until the configured
+ * cutoff hour after midnight that is still the day before.
+ */
+export async function assertDateAllowed(user: User, dateISO: string): Promise<void> {
+  if (isManager(user)) return;
+  const { businessDayCutoffHour } = await getSettings();
+  if (dateISO !== businessDateISO(businessDayCutoffHour)) assertManager(user, "change other days than today");
+}
@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { JournalEntry, LossLine, SaleLine, User } from "@/lib/types";
+
+// The store reads WINEBAR_DATA_DIR when it is loaded, so the modules are imported after it is set.
+const dataDir = mkdtempSync(path.join(tmpdir(), "winebar-daily-"));
+let daily: typeof import("./daily");
+
+beforeAll(async () => {
+  process.env.WINEBAR_DATA_DIR = dataDir;
+  daily = await import("./daily");
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const STORE = "ST-001";
+const manager: User = { id: "U-001", name: "Manager", role: "manager" };
+const staff: User = { id: "U-002", name: "Staff", role: "staff" };
+
+const glasses = (wineId: string, glassQty: number): SaleLine => ({ wineId, bottleQty: 0, glassQty });
+const discard = (wineId: string): LossLine => ({ wineId, lossType: "remaining_discard", brokenBottles: 0 });
+
+const cleared = (wineId: string, before: SaleLine, action: JournalEntry["action"] = "edit"): JournalEntry => ({
+  at: new Date().toISOString(),
+  by: staff.id,
+  part: "sales",
+  wineId,
+  action,
+  before,
+  after: null,
+});
+
+const storedDay = async (dateISO: string) => (await daily.listDays(STORE, dateISO, dateISO))[0];
+
+describe("resets", () => {
+  const date = "2025-02-03";
+  const lines = { "W-001": glasses("W-001", 2), "W-002": glasses("W-002", 1) };
+
+  beforeAll(async () => {
+    await daily.saveSales(STORE, date, lines, undefined, { user: manager, journal: [] });
+  });
+
+  it("lets staff clear a line they journaled as an edit", async () => {
+    const saved = await daily.saveSales(STORE, date, { "W-002": lines["W-002"] }, undefined, {
+      user: staff,
+      journal: [cleared("W-001", lines["W-001"])],
+    });
+    expect(Object.keys(saved.sales)).toEqual(["W-002"]);
+  });
+
+  it("refuses staff clearing lines without a journal entry", async () => {
+    await expect(daily.saveSales(STORE, date, {}, undefined, { user: staff, journal: [] })).rejects.toMatchObject({
+      status: 403,
+    });
+    expect(Object.keys((await storedDay(date)).sales)).toEqual(["W-002"]);
+  });
+
+  it("refuses a journaled reset from staff", async () => {
+    const journal = [cleared("W-002", lines["W-002"], "reset")];
+    await expect(daily.saveSales(STORE, date, {}, undefined, { user: staff, journal })).rejects.toMatchObject({
+      status: 403,
+    });
+  });
+
+  it("lets a manager reset the day", async () => {
+    const journal = [cleared("W-002", lines["W-002"], "reset")];
+    const saved = await daily.saveSales(STORE, date, {}, undefined, { user: manager, journal });
+    expect(saved.sales).toEqual({});
+  });
+});
+
+describe("re-deriving later days", () => {
+  const first = "2025-01-06";
+  const second = "2025-01-07";
+  const change = { user: manager, journal: [] };
+
+  beforeAll(async () => {
+    await daily.saveSales(STORE, first, { "W-001": glasses("W-001", 2) }, undefined, change);
+    await daily.saveLosses(STORE, second, { "W-001": discard("W-001") }, undefined, change);
+  });
+
+  it("discards what the day before carried over", async () => {
+    const day = await storedDay(second);
+    expect(day.carryInMl).toEqual({ "W-001": 550 });
+    expect(day.losses["W-001"].discardMl).toBe(550);
+  });
+
+  it("updates the next day when an earlier day is edited", async () => {
+    await daily.saveSales(STORE, first, { "W-001": glasses("W-001", 3) }, undefined, change);
+    const day = await storedDay(second);
+    expect(day.carryInMl).toEqual({ "W-001": 450 });
+    expect(day.losses["W-001"].discardMl).toBe(450);
+  });
+
+  it("leaves a closed day as it was recorded", async () => {
+    await daily.closeDay(STORE, second);
+    await daily.saveSales(STORE, first, { "W-001": glasses("W-001", 1) }, undefined, change);
+    const day = await storedDay(second);
+    expect(day.carryInMl).toEqual({ "W-001": 450 });
+    expect(day.losses["W-001"].discardMl).toBe(450);
+  });
+
+  it("picks the edit up once the day is reopened and saved", async () => {
+    await daily.reopenDay(STORE, second, { by: manager.id, reason: "test" });
+    await daily.saveLosses(STORE, second, { "W-001": discard("W-001") }, undefined, change);
+    const day = await storedDay(second);
+    expect(day.carryInMl).toEqual({ "W-001": 650 });
+    expect(day.losses["W-001"].discardMl).toBe(650);
+  });
+});
@@ -0,0 +1,401 @@
+import type {
+  AuditAction,
+  AuditEntry,
+  DailyPart,
+  JournalEntry,
+  LossLine,
+  LossType,
+  ReopenEntry,
+  SaleLine,
+  ServerDailyRecord,
+  User,
+} from "@/lib/types";
+import { addDays } from "@/lib/dates";
+import { MAX_LOSS_PHOTOS } from "@/lib/losses";
+import { deriveOpened } from "@/lib/opened";
+import { assertManager } from "./auth";
+import { badRequest, HttpError } from "./http";
+import { PHOTO_ID_RE } from "./photos";
+import { getSettings } from "./settings";
+import { listJson, readJson, updateJson, withLock } from "./store";
+import { storeFile } from "./stores";
+import { listUsers } from "./users";
+import { int, obj, str } from "./validate";
+import { listWines } from "./wines";
+
+/**
+ * Daily sales/losses persisted per store and date in data/daily/<YYYY-MM-DD>.json
+ * (other stores than the first: data/stores/<id>/daily/, see lib/server/stores.ts).
+ * Sales and losses are saved independently (POST /daily-sales, then POST /daily-loss).
+ * A save may carry `baseSavedAt`; if another device saved that part since, it is rejected
+ * with 409 and the current record so the client can merge line by line.
+ * A closed day (締め) rejects saves with 423 until a manager reopens it with a reason.
+ * Every save re-derives opened-bottle state (lib/opened.ts): `discardMl` on
+ * remaining_discard lines and the remainder carried into the next business day; the days
+ * after it are re-derived too, as far as the carried remainder changes and up to the first
+ * closed day.
+ * Saves need a logged-in user: changed lines are stamped with who changed them and
+ * each change is appended to the day's `audit` (see "Audit" below).
+ */
+
+const LOSS_TYPES: LossType[] = ["none", "remaining_discard", "broken"];
+
+const MAX_NOTE_LENGTH = 200;
+
+const fileFor = (storeId: string, dateISO: string) => storeFile(storeId, `daily/${dateISO}`);
+
+// The bar is not open every day: look this far back for the previous business day.
+const CARRY_LOOKBACK_DAYS = 14;
+
+const emptyDay = (storeId: string, dateISO: string): ServerDailyRecord => ({
+  dateISO,
+  storeId,
+  sales: {},
+  losses: {},
+  salesSavedAt: null,
+  lossesSavedAt: null,
+  closedAt: null,
+  reopenLog: [],
+  carryInMl: {},
+  openRemainderMl: {},
+  audit: [],
+});
+
+// Files written before a field existed get its default.
+function updateDay(
+  storeId: string,
+  dateISO: string,
+  fn: (day: ServerDailyRecord) => ServerDailyRecord | Promise<ServerDailyRecord>
+): Promise<ServerDailyRecord> {
+  const empty = emptyDay(storeId, dateISO);
+  return updateJson<ServerDailyRecord, ServerDailyRecord>(fileFor(storeId, dateISO), empty, async (stored) => {
+    const next = await fn({ ...empty, ...stored, storeId });
+    return { next, result: next };
+  });
+}
+
+async function readDay(storeId: string, dateISO: string): Promise<ServerDailyRecord | null> {
+  const stored = await readJson<ServerDailyRecord | null>(fileFor(storeId, dateISO), null);
+  return stored && { ...emptyDay(storeId, dateISO), ...stored, storeId };
+}
+
+async function carryInFor(storeId: string, dateISO: string): Promise<Record<string, number>> {
+  for (let i = 1; i <= CARRY_LOOKBACK_DAYS; i++) {
+    const prev = await readDay(storeId, addDays(dateISO, -i));
+    if (prev) return prev.openRemainderMl;
+  }
+  return {};
+}
+
+/** Stored day with a fresh carry-in (the previous day may have been edited since). */
+export async function getDay(storeId: string, dateISO: string): Promise<ServerDailyRecord> {
+  const day = (await readDay(storeId, dateISO)) ?? emptyDay(storeId, dateISO);
+  return { ...day, carryInMl: await carryInFor(storeId, dateISO) };
+}
+
+/** Every stored day of a store in [from, to] (inclusive, either end optional), oldest first. */
+export async function listDays(storeId: string, from?: string, to?: string): Promise<ServerDailyRecord[]> {
+  const dates = (await listJson(storeFile(storeId, "daily"))).filter((d) => (!from || d >= from) && (!to || d <= to));
+  const days = await Promise.all(dates.map((d) => readDay(storeId, d)));
+  return days.filter((d): d is ServerDailyRecord => !!d);
+}
+
+type Deriver = (day: ServerDailyRecord) => Promise<ServerDailyRecord>;
+
+// The carry-in is read when the deriver runs, inside the day's lock: a save of the day
+// before that lands first is seen here, one that lands later re-derives this day after it.
+async function opened(storeId: string, dateISO: string): Promise<Deriver> {
+  const [wines, settings] = await Promise.all([listWines(), getSettings()]);
+  return async (day) => {
+    const carryInMl = await carryInFor(storeId, dateISO);
+    const tracked = deriveOpened(day, wines, carryInMl, settings.defaultPourMl);
+    const losses: Record<string, LossLine> = {};
+    for (const [id, line] of Object.entries(day.losses)) {
+      const { discardMl: _stale, ...rest } = line;
+      losses[id] = line.lossType === "remaining_discard" ? { ...rest, discardMl: tracked[id]?.discardMl ?? 0 } : rest;
+    }
+    const openRemainderMl: Record<string, number> = {};
+    for (const [id, t] of Object.entries(tracked)) if (t.carryOutMl > 0) openRemainderMl[id] = t.carryOutMl;
+    return { ...day, losses, carryInMl, openRemainderMl };
+  };
+}
+
+const sameMl = (a: Record<string, number>, b: Record<string, number>) =>
+  JSON.stringify(Object.entries(a).sort()) === JSON.stringify(Object.entries(b).sort());
+
+// A saved day changes what it carries out, and with it the later days' discards and remainders.
+// A closed day keeps what it recorded (and so carries the same on): the walk stops there.
+async function rederiveAfter(storeId: string, dateISO: string): Promise<void> {
+  const later = (await listJson(storeFile(storeId, "daily"))).filter((d) => d > dateISO).sort();
+  for (const d of later) {
+    const derive = await opened(storeId, d);
+    let stop = false;
+    await updateDay(storeId, d, async (day) => {
+      if (day.closedAt) {
+        stop = true;
+        return day;
+      }
+      const next = await derive(day);
+      stop = sameMl(day.openRemainderMl, next.openRemainderMl);
+      return next;
+    });
+    if (stop) break;
+  }
+}
+
+async function knownWineIds(): Promise<Set<string>> {
+  return new Set((await listWines()).map((w) => w.id));
+}
+
+function checkWineId(key: string, line: Record<string, unknown>, known: Set<string>) {
+  if (line.wineId !== undefined && line.wineId !== key) badRequest(`wineId mismatch for ${key}`);
+  if (!known.has(key)) badRequest(`unknown wine ${key}`);
+}
+
+function saleLine(key: string, line: Record<string, unknown>, field: string): SaleLine {
+  return {
+    wineId: key,
+    bottleQty: int(line.bottleQty ?? 0, `${field}.bottleQty`, 0, 999),
+    glassQty: int(line.glassQty ?? 0, `${field}.glassQty`, 0, 999),
+  };
+}
+
+function photoIds(v: unknown, field: string): string[] | undefined {
+  if (v === undefined) return undefined;
+  if (!Array.isArray(v) || v.length > MAX_LOSS_PHOTOS) badRequest(`${field} must be an array of up to ${MAX_LOSS_PHOTOS}`);
+  return v.map((x, i) => {
+    const id = str(x, `${field}[${i}]`);
+    if (!PHOTO_ID_RE.test(id)) badRequest(`${field}[${i}] is not a photo id`);
+    return id;
+  });
+}
+
+function lossLine(key: string, line: Record<string, unknown>, field: string): LossLine {
+  const lossType = (line.lossType ?? "none") as LossType;
+  if (!LOSS_TYPES.includes(lossType)) badRequest(`${field}.lossType is invalid`);
+  const note = line.note === undefined ? undefined : str(line.note, `${field}.note`);
+  if (note && note.length > MAX_NOTE_LENGTH) badRequest(`${field}.note must be at most ${MAX_NOTE_LENGTH} characters`);
+  return {
+    wineId: key,
+    lossType,
+    brokenBottles: int(line.brokenBottles ?? 0, `${field}.brokenBottles`, 0, 999),
+    reason: line.reason === undefined || line.reason === "" ? undefined : str(line.reason, `${field}.reason`),
+    note,
+    photoIds: photoIds(line.photoIds, `${field}.photoIds`),
+  };
+}
+
+export async function parseSales(v: unknown): Promise<Record<string, SaleLine>> {
+  const known = await knownWineIds();
+  const out: Record<string, SaleLine> = {};
+  for (const [key, raw] of Object.entries(obj(v, "sales"))) {
+    const line = obj(raw, `sales.${key}`);
+    checkWineId(key, line, known);
+    out[key] = saleLine(key, line, `sales.${key}`);
+  }
+  return out;
+}
+
+// Reasons disabled in the settings are still accepted: older lines keep theirs.
+export async function parseLosses(v: unknown): Promise<Record<string, LossLine>> {
+  const [known, settings] = await Promise.all([knownWineIds(), getSettings()]);
+  const reasons = new Set(settings.lossReasons.map((r) => r.id));
+  const out: Record<string, LossLine> = {};
+  for (const [key, raw] of Object.entries(obj(v, "losses"))) {
+    const line = obj(raw, `losses.${key}`);
+    checkWineId(key, line, known);
+    out[key] = lossLine(key, line, `losses.${key}`);
+    const { reason } = out[key];
+    if (reason && !reasons.has(reason)) badRequest(`losses.${key}.reason: unknown loss reason ${reason}`);
+  }
+  return out;
+}
+
+export function parseBaseSavedAt(v: unknown): string | null | undefined {
+  if (v === undefined || v === null) return v;
+  return str(v, "baseSavedAt");
+}
+
+function checkBase(day: ServerDailyRecord, current: string | null, base: string | null | undefined) {
+  if (day.closedAt) throw new HttpError(423, `${day.dateISO} is closed`);
+  if (base !== undefined && base !== current) {
+    throw new HttpError(409, "record was changed on another device", { record: day });
+  }
+}
+
+export async function saveSales(
+  storeId: string,
+  dateISO: string,
+  sales: Record<string, SaleLine>,
+  baseSavedAt: string | null | undefined,
+  change: LineChange
+): Promise<ServerDailyRecord> {
+  const [derive, names] = await Promise.all([opened(storeId, dateISO), userNames()]);
+  const saved = await updateDay(storeId, dateISO, (day) => {
+    checkBase(day, day.salesSavedAt, baseSavedAt);
+    checkReset("sales", day.sales, sales, change);
+    const { lines, audit } = audited("sales", day.sales, day.salesSavedAt, sales, change, names);
+    return derive({ ...day, sales: lines, salesSavedAt: new Date().toISOString(), audit: [...day.audit, ...audit] });
+  });
+  await rederiveAfter(storeId, dateISO);
+  return saved;
+}
+
+export async function saveLosses(
+  storeId: string,
+  dateISO: string,
+  losses: Record<string, LossLine>,
+  baseSavedAt: string | null | undefined,
+  change: LineChange
+): Promise<ServerDailyRecord> {
+  const [derive, names] = await Promise.all([opened(storeId, dateISO), userNames()]);
+  const saved = await updateDay(storeId, dateISO, (day) => {
+    checkBase(day, day.lossesSavedAt, baseSavedAt);
+    checkReset("losses", day.losses, losses, change);
+    const { lines, audit } = audited("losses", day.losses, day.lossesSavedAt, losses, change, names);
+    return derive({ ...day, losses: lines, lossesSavedAt: new Date().toISOString(), audit: [...day.audit, ...audit] });
+  });
+  await rederiveAfter(storeId, dateISO);
+  return saved;
+}
+
+/**
+ * Runs `fn` (a write that belongs to the day, e.g. its stocktake) under the day's lock,
+ * refusing it with 423 when the day is closed: a close cannot land in between.
+ */
+export function whileOpen<R>(storeId: string, dateISO: string, fn: () => Promise<R>): Promise<R> {
+  return withLock(fileFor(storeId, dateISO), async () => {
+    if ((await readDay(storeId, dateISO))?.closedAt) throw new HttpError(423, `${dateISO} is closed`);
+    return fn();
+  });
+}
+
+export function closeDay(storeId: string, dateISO: string): Promise<ServerDailyRecord> {
+  return updateDay(storeId, dateISO, (day) => {
+    if (day.closedAt) throw new HttpError(409, `${dateISO} is already closed`);
+    return { ...day, closedAt: new Date().toISOString() };
+  });
+}
+
+export function reopenDay(storeId: string, dateISO: string, entry: Omit<ReopenEntry, "at">): Promise<ServerDailyRecord> {
+  return updateDay(storeId, dateISO, (day) => {
+    if (!day.closedAt) throw new HttpError(409, `${dateISO} is not closed`);
+    const log: ReopenEntry = { ...entry, at: new Date().toISOString() };
+    return { ...day, closedAt: null, reopenLog: [...day.reopenLog, log] };
+  });
+}
+
+// --- Audit
+//
+// The client keeps a journal of the edits made on the device (who, when, before/after)
+// and sends it with the save. Only lines that really differ from the stored record are
+// audited; a changed line with no journal entry (an older client) gets one entry for the
+// session user. Stored lines that did not change keep their stamps.
+// The journal is the client's word: `by` must be an active user, `at` is clamped between
+// the part's last save and now, and every entry records the session that sent it (`savedBy`).
+
+const AUDIT_ACTIONS: AuditAction[] = ["edit", "reset", "pos_import"];
+
+type Line = SaleLine | LossLine;
+
+/** Who is saving, and the journal entries sent along for this part. */
+export type LineChange = { user: User; journal: JournalEntry[] };
+
+/** The entered values of a line, without stamps or derived fields; null for a line with nothing in it. */
+function content(part: DailyPart, line: Line | null | undefined): Line | null {
+  if (!line) return null;
+  if (part === "sales") {
+    const { wineId, bottleQty, glassQty } = line as SaleLine;
+    return bottleQty || glassQty ? { wineId, bottleQty, glassQty } : null;
+  }
+  const { wineId, lossType, brokenBottles, reason, note, photoIds } = line as LossLine;
+  if (lossType === "none" && !brokenBottles && !reason && !note && !photoIds?.length) return null;
+  const out: LossLine = { wineId, lossType, brokenBottles };
+  if (reason) out.reason = reason;
+  if (note) out.note = note;
+  if (photoIds?.length) out.photoIds = photoIds;
+  return out;
+}
+
+// A reset is manager-only: what the client journals as one, and any stored line cleared
+// without a journaled edit of that line (clearing lines one by one by hand stays an edit).
+function checkReset(part: DailyPart, stored: Record<string, Line>, incoming: Record<string, Line>, change: LineChange) {
+  const { user, journal } = change;
+  if (journal.some((e) => e.action === "reset")) return assertManager(user, "reset a day");
+  const edited = new Set(journal.filter((e) => !e.after).map((e) => e.wineId));
+  const cleared = Object.keys(stored).filter((id) => content(part, stored[id]) && !content(part, incoming[id]));
+  if (cleared.some((id) => !edited.has(id))) assertManager(user, "reset a day");
+}
+
+const sameLine = (part: DailyPart, a: Line | undefined, b: Line | undefined) =>
+  JSON.stringify(content(part, a)) === JSON.stringify(content(part, b));
+
+export async function parseJournal(v: unknown, part: DailyPart): Promise<JournalEntry[]> {
+  if (v === undefined) return [];
+  if (!Array.isArray(v)) badRequest("journal must be an array");
+  const active = new Set((await listUsers()).filter((u) => u.isActive !== false).map((u) => u.id));
+  const parseLine = part === "sales" ? saleLine : lossLine;
+  return v.map((raw, i) => {
+    const field = `journal.${i}`;
+    const e = obj(raw, field);
+    if (e.part !== part) badRequest(`${field}.part must be ${part}`);
+    const action = e.action as AuditAction;
+    if (!AUDIT_ACTIONS.includes(action)) badRequest(`${field}.action is invalid`);
+    const at = str(e.at, `${field}.at`);
+    if (Number.isNaN(Date.parse(at))) badRequest(`${field}.at must be a timestamp`);
+    const by = str(e.by, `${field}.by`);
+    if (!active.has(by)) badRequest(`${field}.by: unknown or inactive user ${by}`);
+    const wineId = str(e.wineId, `${field}.wineId`);
+    const line = (x: unknown, name: string) =>
+      x === null || x === undefined ? null : content(part, parseLine(wineId, obj(x, `${field}.${name}`), `${field}.${name}`));
+    return {
+      at,
+      by,
+      part,
+      wineId,
+      action,
+      before: line(e.before, "before"),
+      after: line(e.after, "after"),
+    };
+  });
+}
+
+async function userNames(): Promise<Map<string, string>> {
+  return new Map((await listUsers()).map((u) => [u.id, u.name]));
+}
+
+// An edit cannot predate the save it was based on, nor lie in the future.
+function clampAt(at: string, floor: string | null, now: string): string {
+  const t = new Date(at).toISOString();
+  if (t > now) return now;
+  return floor && t < floor ? floor : t;
+}
+
+function audited<T extends Line>(
+  part: DailyPart,
+  stored: Record<string, T>,
+  storedSavedAt: string | null,
+  incoming: Record<string, T>,
+  change: LineChange,
+  names: Map<string, string>
+): { lines: Record<string, T>; audit: AuditEntry[] } {
+  const now = new Date().toISOString();
+  const lines: Record<string, T> = {};
+  const audit: AuditEntry[] = [];
+  for (const id of new Set([...Object.keys(stored), ...Object.keys(incoming)])) {
+    const before = stored[id];
+    const after = incoming[id];
+    if (sameLine(part, before, after)) {
+      if (after) lines[id] = { ...after, updatedBy: before?.updatedBy, updatedAt: before?.updatedAt };
+      continue;
+    }
+    const sent = change.journal.filter((e) => e.wineId === id);
+    const entries: JournalEntry[] = sent.length
+      ? sent.map((e) => ({ ...e, at: clampAt(e.at, storedSavedAt, now) }))
+      : [{ at: now, by: change.user.id, part, wineId: id, action: "edit", before: content(part, before), after: content(part, after) }];
+    for (const e of entries) audit.push({ ...e, byName: names.get(e.by) ?? e.by, savedBy: change.user.id });
+    const last = entries[entries.length - 1];
+    if (after) lines[id] = { ...after, updatedBy: last.by, updatedAt: last.at };
+  }
+  return { lines, audit: audit.sort((a, b) => a.at.localeCompare(b.at)) };
+}
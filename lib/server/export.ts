@@ -0,0 +1,154 @@
+import * as XLSX from "xlsx";
+import type { LossReason, ServerDailyRecord, Supplier, Wine } from "@/lib/types";
+import { reasonLabel } from "@/lib/losses";
+import { listDays } from "./daily";
+import { getSettings } from "./settings";
+import { listSuppliers } from "./suppliers";
+import { listWines } from "./wines";
+
+/**
+ * Export of one store's daily records in the layout of the existing workbook: one sheet
+ * each for sales, losses and the wine and supplier masters, one row per line.
+ */
+
+export type Cell = string | number | null;
+
+export type Sheet = {
+  name: string;
+  header: string[];
+  rows: Cell[][];
+};
+
+export const SHEET_NAMES = {
+  sales: "Daily_Sales",
+  losses: "Daily_Loss",
+  wines: "Wine_Master",
+  suppliers: "Supplier_Master",
+} as const;
+
+export type SheetKey = keyof typeof SHEET_NAMES;
+
+export function salesSheet(days: ServerDailyRecord[], wines: Wine[]): Sheet {
+  const nameOf = new Map(wines.map((w) => [w.id, w.name]));
+  const rows: Cell[][] = [];
+  for (const day of days) {
+    for (const l of Object.values(day.sales).sort((a, b) => a.wineId.localeCompare(b.wineId))) {
+      if (!l.bottleQty && !l.glassQty) continue;
+      rows.push([day.dateISO, l.wineId, nameOf.get(l.wineId) ?? "", l.bottleQty, l.glassQty]);
+    }
+  }
+  return { name: SHEET_NAMES.sales, header: ["Date", "Wine ID", "Wine Name", "Bottle", "Glass"], rows };
+}
+
+// Reason and Photos (photo ids, see GET /api/loss-photos/<id>) come after the workbook's own columns.
+export function lossesSheet(days: ServerDailyRecord[], wines: Wine[], reasons: LossReason[]): Sheet {
+  const nameOf = new Map(wines.map((w) => [w.id, w.name]));
+  const rows: Cell[][] = [];
+  for (const day of days) {
+    for (const l of Object.values(day.losses).sort((a, b) => a.wineId.localeCompare(b.wineId))) {
+      if (l.lossType === "none" && !l.brokenBottles) continue;
+      rows.push([
+        day.dateISO,
+        l.wineId,
+        nameOf.get(l.wineId) ?? "",
+        l.lossType,
+        l.brokenBottles,
+        l.discardMl ?? null,
+        l.note ?? "",
+        reasonLabel(reasons, l.reason),
+        (l.photoIds ?? []).join(" "),
+      ]);
+    }
+  }
+  return {
+    name: SHEET_NAMES.losses,
+    header: ["Date", "Wine ID", "Wine Name", "Loss Type", "Broken Bottles", "Discard ml", "Note", "Reason", "Photos"],
+    rows,
+  };
+}
+
+export function winesSheet(wines: Wine[]): Sheet {
+  return {
+    name: SHEET_NAMES.wines,
+    header: [
+      "Wine ID",
+      "Name",
+      "Producer",
+      "Vintage",
+      "Color",
+      "Bottle Size ml",
+      "Price",
+      "Glass Price",
+      "Unit Cost",
+      "Supplier ID",
+      "Active",
+      "JAN",
+      "Country",
+      "Region",
+      "Grape",
+    ],
+    rows: wines.map((w) => [
+      w.id,
+      w.name,
+      w.producer,
+      w.vintage,
+      w.color,
+      w.bottleSizeMl,
+      w.price,
+      w.glassPrice ?? null,
+      w.unitCost ?? null,
+      w.supplierId ?? "",
+      w.isActive === false ? "FALSE" : "TRUE",
+      w.jan ?? "",
+      w.country ?? "",
+      w.region ?? "",
+      w.grape ?? "",
+    ]),
+  };
+}
+
+export function suppliersSheet(suppliers: Supplier[]): Sheet {
+  return {
+    name: SHEET_NAMES.suppliers,
+    header: ["Supplier ID", "Name", "Contact", "Phone", "Email", "Active"],
+    rows: suppliers.map((s) => [s.id, s.name, s.contact, s.phone, s.email, s.isActive === false ? "FALSE" : "TRUE"]),
+  };
+}
+
+export async function buildSheets(storeId: string, from: string, to: string): Promise<Record<SheetKey, Sheet>> {
+  const [days, wines, suppliers, settings] = await Promise.all([
+    listDays(storeId, from, to),
+    listWines(),
+    listSuppliers(),
+    getSettings(),
+  ]);
+  return {
+    sales: salesSheet(days, wines),
+    losses: lossesSheet(days, wines, settings.lossReasons),
+    wines: winesSheet(wines),
+    suppliers: suppliersSheet(suppliers),
+  };
+}
+
+// Text starting like a formula (a name "=Rosé", a phone "+81 …") would run as one in Excel.
+export const FORMULA_START_RE = /^[=+\-@\t\r]/;
+
+function csvCell(v: Cell): string {
+  if (v === null) return "";
+  const s = typeof v === "string" && FORMULA_START_RE.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** CSV with a BOM so Excel opens the Japanese names as UTF-8. */
+export function toCsv(sheet: Sheet): string {
+  const lines = [sheet.header, ...sheet.rows].map((row) => row.map(csvCell).join(","));
+  return `﻿${lines.join("\r\n")}\r\n`;
+}
+
+export function toXlsx(sheets: Sheet[]): Buffer {
+  const book = XLSX.utils.book_new();
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([sheet.header, ...sheet.rows]), sheet.name);
+  }
+  return XLSX.write(book, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Error with an HTTP status, thrown from store/validation code and turned into
+ * a JSON `{ error, ...details }` response by `handle`.
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function badRequest(message: string): never {
+  throw new HttpError(400, message);
+}
+
+export function notFound(message: string): never {
+  throw new HttpError(404, message);
+}
+
+export async function readBody(req: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await req.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) badRequest("body must be a JSON object");
+    return body as Record<string, unknown>;
+  } catch (err) {
+    if (err instanceof HttpError) throw err;
+    badRequest("invalid JSON body");
+  }
+}
+
+export function errorResponse(err: unknown): NextResponse {
+  if (err instanceof HttpError) {
+    return NextResponse.json({ error: err.message, ...err.details }, { status: err.status });
+  }
+  console.error(err);
+  return NextResponse.json({ error: "internal error" }, { status: 500 });
+}
+
+export async function handle(fn: () => Promise<unknown>): Promise<NextResponse> {
+  try {
+    return NextResponse.json(await fn());
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { Wine } from "@/lib/types";
+import { diffMaster, parseWineRows } from "./import";
+
+const HEADER = ["Wine ID", "Name", "Producer", "Vintage", "Color", "Bottle Size ml", "Price", "Active"];
+
+const wine = (over: Partial<Wine> = {}): Wine => ({
+  id: "W-001",
+  name: "Chablis",
+  producer: "Domaine A",
+  vintage: 2020,
+  color: "white",
+  bottleSizeMl: 750,
+  price: 6000,
+  isActive: true,
+  ...over,
+});
+
+describe("parseWineRows", () => {
+  it("reads rows by header name, with Japanese colors and NV", () => {
+    const { items, errors } = parseWineRows([
+      HEADER,
+      ["W-001", "Chablis", "Domaine A", 2020, "白", 750, "6,000", "TRUE"],
+      ["W-002", "Champagne", "Maison B", "NV", "sparkling", "", "", "FALSE"],
+    ]);
+    expect(errors).toEqual([]);
+    expect(items).toEqual([
+      wine(),
+      { id: "W-002", name: "Champagne", producer: "Maison B", vintage: null, color: "sparkling", bottleSizeMl: 750, price: 0, isActive: false },
+    ]);
+  });
+
+  it("reports bad and duplicate rows by spreadsheet row", () => {
+    const { items, errors } = parseWineRows([
+      HEADER,
+      ["W-001", "Chablis", "", "", "white", "", "", ""],
+      ["W-001", "Again", "", "", "white", "", "", ""],
+      ["1", "No ID", "", "", "white", "", "", ""],
+      ["W-003", "Odd", "", "", "blue", "", "", ""],
+      ["W-004", "Old", "", 1800, "red", "", "", ""],
+    ]);
+    expect(items.map((w) => w.id)).toEqual(["W-001"]);
+    expect(errors.map((e) => e.row)).toEqual([3, 4, 5, 6]);
+    expect(errors[0].message).toContain("重複");
+  });
+
+  it("needs the id, name and color columns", () => {
+    const { items, errors } = parseWineRows([["Wine ID", "Name"], ["W-001", "Chablis"]]);
+    expect(items).toEqual([]);
+    expect(errors).toEqual([{ row: 1, message: "列「color」が見つかりません" }]);
+  });
+
+  it("reads back cells the export quoted against formulas", () => {
+    const { items } = parseWineRows([HEADER, ["W-001", "'=Rosé", "'-", "", "rose", "", "", ""]]);
+    expect(items[0].name).toBe("=Rosé");
+    expect(items[0].producer).toBe("-");
+  });
+
+  it("leaves optional columns out when the sheet has none", () => {
+    const { items } = parseWineRows([HEADER, ["W-001", "Chablis", "", "", "white", "", "", ""]]);
+    expect(items[0]).not.toHaveProperty("supplierId");
+    expect(items[0]).not.toHaveProperty("jan");
+  });
+});
+
+describe("diffMaster", () => {
+  const compared: (keyof Wine)[] = ["name", "price", "supplierId", "isActive"];
+
+  it("sorts rows into new, changed, unchanged and deactivated", () => {
+    const current = [wine(), wine({ id: "W-002", name: "Barolo" }), wine({ id: "W-003", name: "Sancerre" })];
+    const incoming = [wine(), wine({ id: "W-002", name: "Barolo", price: 9000 }), wine({ id: "W-004", name: "Rioja" })];
+    const diff = diffMaster(current, incoming, compared);
+    expect(diff.map((d) => [d.kind, d.item.id])).toEqual([
+      ["unchanged", "W-001"],
+      ["changed", "W-002"],
+      ["new", "W-004"],
+      ["deactivated", "W-003"],
+    ]);
+    expect(diff[1]).toMatchObject({ changes: [{ field: "price", from: 6000, to: 9000 }] });
+    expect(diff[3].item.isActive).toBe(false);
+  });
+
+  it("calls a row that only turns Active off a deactivation", () => {
+    const diff = diffMaster([wine()], [wine({ isActive: false })], compared);
+    expect(diff).toEqual([{ kind: "deactivated", item: wine({ isActive: false }) }]);
+  });
+
+  it("does not list wines that are already inactive and absent from the file", () => {
+    expect(diffMaster([wine({ isActive: false })], [], compared)).toEqual([]);
+  });
+
+  it("ignores fields the file has no column for", () => {
+    const diff = diffMaster([wine({ supplierId: "S-001" })], [wine()], compared);
+    expect(diff).toEqual([{ kind: "unchanged", item: wine() }]);
+  });
+
+  it("treats a cleared field as a change", () => {
+    const diff = diffMaster([wine({ supplierId: "S-001" })], [wine({ supplierId: undefined })], compared);
+    expect(diff[0]).toMatchObject({ kind: "changed", changes: [{ field: "supplierId", from: "S-001", to: undefined }] });
+  });
+});
@@ -0,0 +1,305 @@
+import * as XLSX from "xlsx";
+import type {
+  ImportPreview,
+  ImportRowError,
+  MasterChange,
+  MasterDiff,
+  Supplier,
+  Wine,
+  WineColor,
+} from "@/lib/types";
+import { normalizeJan } from "@/lib/barcode";
+import { FORMULA_START_RE, SHEET_NAMES } from "./export";
+import { listSuppliers, SUPPLIER_ID_RE } from "./suppliers";
+import { listWines, WINE_COLORS, WINE_ID_RE } from "./wines";
+
+/**
+ * Wine_Master / Supplier_Master import from .xlsx or CSV. The header row is matched by
+ * name, so a sheet written by /api/export (or the original workbook's column names) reads
+ * back as-is.
+ */
+
+type WineField =
+  | "id"
+  | "name"
+  | "producer"
+  | "vintage"
+  | "color"
+  | "bottleSizeMl"
+  | "price"
+  | "glassPrice"
+  | "unitCost"
+  | "supplierId"
+  | "jan"
+  | "country"
+  | "region"
+  | "grape"
+  | "isActive";
+
+type SupplierField = "id" | "name" | "contact" | "phone" | "email" | "isActive";
+
+const WINE_HEADERS: Record<WineField, string[]> = {
+  id: ["wine id", "wineid", "id", "ワインid"],
+  name: ["name", "wine name", "ワイン名", "銘柄"],
+  producer: ["producer", "生産者"],
+  vintage: ["vintage", "ヴィンテージ"],
+  color: ["color", "色", "タイプ"],
+  bottleSizeMl: ["bottle size ml", "bottle size", "容量"],
+  price: ["price", "価格", "ボトル価格"],
+  glassPrice: ["glass price", "グラス価格"],
+  unitCost: ["unit cost", "cost", "原価", "仕入単価"],
+  supplierId: ["supplier id", "supplierid", "仕入先id"],
+  jan: ["jan", "jan code", "janコード", "barcode", "バーコード"],
+  country: ["country", "国", "生産国"],
+  region: ["region", "産地", "地域"],
+  grape: ["grape", "grapes", "variety", "品種", "ぶどう品種"],
+  isActive: ["active", "isactive", "有効"],
+};
+
+const SUPPLIER_HEADERS: Record<SupplierField, string[]> = {
+  id: ["supplier id", "supplierid", "id", "仕入先id"],
+  name: ["name", "supplier name", "仕入先名", "仕入先"],
+  contact: ["contact", "担当者"],
+  phone: ["phone", "tel", "電話", "電話番号"],
+  email: ["email", "e-mail", "mail", "メール"],
+  isActive: ["active", "isactive", "有効"],
+};
+
+const COLOR_ALIASES: Record<string, WineColor> = {
+  赤: "red",
+  白: "white",
+  泡: "sparkling",
+  ロゼ: "rose",
+  オレンジ: "orange",
+  甘口: "dessert",
+};
+
+const norm = (s: unknown) => String(s ?? "").trim().toLowerCase().replace(/[\s_]+/g, " ");
+
+// A cell the export guarded against formulas ("'=Rosé") reads back without the quote.
+const text = (v: unknown) => {
+  const s = String(v ?? "").trim();
+  return s.startsWith("'") && FORMULA_START_RE.test(s.slice(1)) ? s.slice(1) : s;
+};
+
+// CSV saved by Excel in Japan is often Shift_JIS; anything else is taken as UTF-8.
+function decodeCsv(data: Buffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data).replace(/^\uFEFF/, "");
+  } catch {
+    return new TextDecoder("shift_jis").decode(data);
+  }
+}
+
+/** Reads the named sheet (or the only sheet, for CSV) as rows of cells. */
+export function readSheet(data: Buffer, sheetName: string): unknown[][] {
+  const isZip = data[0] === 0x50 && data[1] === 0x4b; // "PK": .xlsx
+  // CSV cells stay text (raw) so phone numbers and codes keep their leading zeros.
+  const book = isZip ? XLSX.read(data, { type: "buffer" }) : XLSX.read(decodeCsv(data), { type: "string", raw: true });
+  const name = book.SheetNames.includes(sheetName) ? sheetName : book.SheetNames[0];
+  if (!name) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(book.Sheets[name], { header: 1, raw: true, blankrows: false });
+}
+
+export function columnIndex<F extends string>(header: unknown[], aliases: Record<F, string[]>): Partial<Record<F, number>> {
+  const out: Partial<Record<F, number>> = {};
+  header.forEach((h, i) => {
+    const key = norm(h);
+    for (const [field, names] of Object.entries(aliases) as [F, string[]][]) {
+      if (names.includes(key) && out[field] === undefined) out[field] = i;
+    }
+  });
+  return out;
+}
+
+function parseBool(v: unknown): boolean | null {
+  const s = norm(v);
+  if (s === "" || ["true", "1", "yes", "○", "有効"].includes(s)) return true;
+  if (["false", "0", "no", "×", "無効"].includes(s)) return false;
+  return null;
+}
+
+function parseIntCell(v: unknown): number | null {
+  if (typeof v === "number" && Number.isInteger(v)) return v;
+  const s = String(v ?? "").replace(/[,¥円\s]/g, "");
+  return /^\d+$/.test(s) ? parseInt(s, 10) : null;
+}
+
+type RowReader<F extends string, T> = (cell: (f: F) => unknown, fail: (message: string) => void) => T | void;
+
+/**
+ * Shared row loop: header lookup, required columns, unique IDs in the expected format.
+ * `read` turns one row into an item or reports why it cannot.
+ */
+function parseRows<F extends string, T extends { id: string }>(
+  rows: unknown[][],
+  aliases: Record<F, string[]>,
+  required: F[],
+  id: { re: RegExp; label: string; example: string },
+  read: RowReader<F, T>
+): { items: T[]; errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const items: T[] = [];
+  if (rows.length === 0) return { items, errors: [{ row: 1, message: "シートが空です" }] };
+
+  const col = columnIndex(rows[0], aliases);
+  for (const f of required) {
+    if (col[f] === undefined) errors.push({ row: 1, message: `列「${aliases[f][0]}」が見つかりません` });
+  }
+  if (errors.length) return { items, errors };
+
+  const seen = new Set<string>();
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    const cell = (f: F) => (col[f] === undefined ? undefined : cells[col[f]!] ?? "");
+    const fail = (message: string) => {
+      errors.push({ row, message });
+    };
+    const itemId = text(cell("id" as F));
+    if (!id.re.test(itemId)) return fail(`${id.label}「${itemId}」は ${id.example} の形式ではありません`);
+    if (seen.has(itemId)) return fail(`${id.label} ${itemId} が重複しています`);
+    seen.add(itemId);
+    const item = read(cell, (m) => fail(`${itemId}: ${m}`));
+    if (item) items.push(item);
+  });
+  return { items, errors };
+}
+
+const WINE_ID = { re: WINE_ID_RE, label: "Wine ID", example: "W-001" };
+const SUPPLIER_ID = { re: SUPPLIER_ID_RE, label: "Supplier ID", example: "S-001" };
+
+export function parseWineRows(rows: unknown[][]): { items: Wine[]; errors: ImportRowError[] } {
+  return parseRows<WineField, Wine>(rows, WINE_HEADERS, ["id", "name", "color"], WINE_ID, (cell, fail) => {
+    const id = text(cell("id"));
+    const name = text(cell("name"));
+    if (!name) return fail("名前が空です");
+
+    const rawColor = text(cell("color"));
+    const color = COLOR_ALIASES[rawColor] ?? (rawColor.toLowerCase() as WineColor);
+    if (!WINE_COLORS.includes(color)) return fail(`色「${rawColor}」が不明です`);
+
+    const rawVintage = cell("vintage");
+    const noVintage = ["", "nv"].includes(norm(rawVintage));
+    const vintage = noVintage ? null : parseIntCell(rawVintage);
+    if (!noVintage && (vintage === null || vintage < 1900)) return fail(`ヴィンテージ「${rawVintage}」が不正です`);
+
+    const bottleSizeMl = norm(cell("bottleSizeMl")) === "" ? 750 : parseIntCell(cell("bottleSizeMl"));
+    if (!bottleSizeMl) return fail("容量が不正です");
+    const price = norm(cell("price")) === "" ? 0 : parseIntCell(cell("price"));
+    if (price === null) return fail("価格が不正です");
+    // Columns newer than the original sheet are optional: when absent, the stored values stay.
+    const extra: Partial<Wine> = {};
+    if (cell("supplierId") !== undefined) {
+      extra.supplierId = text(cell("supplierId")) || undefined;
+      if (extra.supplierId && !SUPPLIER_ID_RE.test(extra.supplierId)) {
+        return fail(`Supplier ID「${extra.supplierId}」は S-001 の形式ではありません`);
+      }
+    }
+    if (cell("jan") !== undefined) {
+      const raw = text(cell("jan"));
+      extra.jan = raw ? normalizeJan(raw) : undefined;
+      if (extra.jan === "") return fail(`JAN「${raw}」は8・12・13・14桁の数字ではありません`);
+    }
+    for (const field of ["country", "region", "grape"] as const) {
+      if (cell(field) !== undefined) extra[field] = text(cell(field)) || undefined;
+    }
+    for (const [field, label] of [
+      ["glassPrice", "グラス価格"],
+      ["unitCost", "原価"],
+    ] as const) {
+      if (cell(field) === undefined) continue;
+      const n = norm(cell(field)) === "" ? undefined : parseIntCell(cell(field));
+      if (n === null) return fail(`${label}が不正です`);
+      extra[field] = n;
+    }
+    const isActive = parseBool(cell("isActive"));
+    if (isActive === null) return fail("Active は TRUE / FALSE で指定してください");
+
+    const wine: Wine = { id, name, producer: text(cell("producer")), vintage, color, bottleSizeMl, price, isActive };
+    return { ...wine, ...extra };
+  });
+}
+
+export function parseSupplierRows(rows: unknown[][]): { items: Supplier[]; errors: ImportRowError[] } {
+  return parseRows<SupplierField, Supplier>(rows, SUPPLIER_HEADERS, ["id", "name"], SUPPLIER_ID, (cell, fail) => {
+    const name = text(cell("name"));
+    if (!name) return fail("名前が空です");
+    const isActive = parseBool(cell("isActive"));
+    if (isActive === null) return fail("Active は TRUE / FALSE で指定してください");
+    return {
+      id: text(cell("id")),
+      name,
+      contact: text(cell("contact")),
+      phone: text(cell("phone")),
+      email: text(cell("email")),
+      isActive,
+    };
+  });
+}
+
+const same = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+
+export function diffMaster<T extends { id: string; isActive?: boolean }>(
+  current: T[],
+  incoming: T[],
+  compared: (keyof T)[]
+): MasterDiff<T>[] {
+  const byId = new Map(current.map((x) => [x.id, x]));
+  const diff: MasterDiff<T>[] = [];
+  for (const item of incoming) {
+    const cur = byId.get(item.id);
+    if (!cur) {
+      diff.push({ kind: "new", item });
+      continue;
+    }
+    const changes: MasterChange<T>[] = [];
+    for (const field of compared) {
+      if (!(field in item)) continue; // column not in the file: kept as-is on apply
+      const from = field === "isActive" ? cur.isActive !== false : cur[field];
+      if (!same(from, item[field])) changes.push({ field, from, to: item[field] });
+    }
+    const deactivating = cur.isActive !== false && item.isActive === false;
+    if (deactivating && changes.length === 1) diff.push({ kind: "deactivated", item });
+    else diff.push(changes.length ? { kind: "changed", item, changes } : { kind: "unchanged", item });
+  }
+  const listed = new Set(incoming.map((x) => x.id));
+  for (const cur of current) {
+    if (!listed.has(cur.id) && cur.isActive !== false) diff.push({ kind: "deactivated", item: { ...cur, isActive: false } });
+  }
+  return diff;
+}
+
+const WINE_COMPARED: (keyof Wine)[] = [
+  "name",
+  "producer",
+  "vintage",
+  "color",
+  "bottleSizeMl",
+  "price",
+  "glassPrice",
+  "unitCost",
+  "supplierId",
+  "jan",
+  "country",
+  "region",
+  "grape",
+  "isActive",
+];
+
+const SUPPLIER_COMPARED: (keyof Supplier)[] = ["name", "contact", "phone", "email", "isActive"];
+
+export async function previewWineImport(data: Buffer): Promise<{ preview: ImportPreview<Wine>; items: Wine[] }> {
+  const rows = readSheet(data, SHEET_NAMES.wines);
+  const { items, errors } = parseWineRows(rows);
+  const diff = errors.length ? [] : diffMaster(await listWines(), items, WINE_COMPARED);
+  return { preview: { rows: Math.max(rows.length - 1, 0), errors, diff }, items };
+}
+
+export async function previewSupplierImport(
+  data: Buffer
+): Promise<{ preview: ImportPreview<Supplier>; items: Supplier[] }> {
+  const rows = readSheet(data, SHEET_NAMES.suppliers);
+  const { items, errors } = parseSupplierRows(rows);
+  const diff = errors.length ? [] : diffMaster(await listSuppliers(), items, SUPPLIER_COMPARED);
+  return { preview: { rows: Math.max(rows.length - 1, 0), errors, diff }, items };
+}
@@ -0,0 +1,202 @@
+import type { Delivery, OpeningCount, StockMovement, StockPosition, Stocktake, Wine } from "@/lib/types";
+import { deriveOpened } from "@/lib/opened";
+import { listDays, whileOpen } from "./daily";
+import { badRequest } from "./http";
+import { getSettings } from "./settings";
+import { listSuppliers } from "./suppliers";
+import { readJson, updateJson } from "./store";
+import { storeFile } from "./stores";
+import { dateISO, int, obj, str } from "./validate";
+import { listWines } from "./wines";
+
+/**
+ * Perpetual inventory per store in data/inventory.json (other stores than the first:
+ * data/stores/<id>/inventory.json).
+ * Only openings, deliveries and stocktake counts are stored; the ledger is re-derived from
+ * the saved daily records every time: - bottleQty, - brokenBottles, - bottles opened for
+ * glass service. A saved stocktake count is the truth for the end of its day: the ledger
+ * books the gap as an adjustment, so later days start from what is really in the cellar.
+ */
+
+const fileFor = (storeId: string) => storeFile(storeId, "inventory");
+
+type InventoryFile = {
+  openings: Record<string, OpeningCount>;
+  deliveries: Delivery[];
+  stocktakes: Record<string, Stocktake>; // by dateISO
+};
+
+const EMPTY: InventoryFile = { openings: {}, deliveries: [], stocktakes: {} };
+
+async function readInventory(storeId: string): Promise<InventoryFile> {
+  return { ...EMPTY, ...(await readJson<Partial<InventoryFile>>(fileFor(storeId), {})) };
+}
+
+// --- Openings
+
+export async function listOpenings(storeId: string): Promise<Record<string, OpeningCount>> {
+  return (await readInventory(storeId)).openings;
+}
+
+export async function parseOpening(body: Record<string, unknown>): Promise<OpeningCount> {
+  const wineId = str(body.wineId, "wineId");
+  if (!(await listWines()).some((w) => w.id === wineId)) badRequest(`unknown wine ${wineId}`);
+  return { wineId, dateISO: dateISO(body.dateISO), bottles: int(body.bottles, "bottles", 0, 99999) };
+}
+
+export function setOpening(storeId: string, opening: OpeningCount): Promise<OpeningCount> {
+  return updateJson<Partial<InventoryFile>, OpeningCount>(fileFor(storeId), {}, (inv) => ({
+    next: { ...EMPTY, ...inv, openings: { ...inv.openings, [opening.wineId]: opening } },
+    result: opening,
+  }));
+}
+
+// --- Deliveries
+
+export async function listDeliveries(storeId: string, from?: string, to?: string): Promise<Delivery[]> {
+  return (await readInventory(storeId)).deliveries.filter((d) => (!from || d.dateISO >= from) && (!to || d.dateISO <= to));
+}
+
+export type DeliveryInput = Omit<Delivery, "id">;
+
+/**
+ * One invoice: `{ dateISO, supplierId?, invoiceNo?, note?, lines: [{ wineId, bottles, unitCost? }] }`.
+ * A body without `lines` is a single line (`{ dateISO, wineId, bottles, ... }`).
+ */
+export async function parseDeliveries(body: Record<string, unknown>): Promise<DeliveryInput[]> {
+  const [wines, suppliers] = await Promise.all([listWines(), listSuppliers()]);
+  const date = dateISO(body.dateISO);
+  const supplierId = body.supplierId == null ? undefined : str(body.supplierId, "supplierId");
+  if (supplierId && !suppliers.some((s) => s.id === supplierId)) badRequest(`unknown supplier ${supplierId}`);
+  const invoiceNo = body.invoiceNo == null ? undefined : str(body.invoiceNo, "invoiceNo") || undefined;
+  const note = body.note == null ? undefined : str(body.note, "note") || undefined;
+
+  const rawLines = body.lines === undefined ? [body] : body.lines;
+  if (!Array.isArray(rawLines) || rawLines.length === 0) badRequest("lines must be a non-empty array");
+  return rawLines.map((raw, i) => {
+    const line = obj(raw, `lines[${i}]`);
+    const wineId = str(line.wineId, `lines[${i}].wineId`);
+    if (!wines.some((w) => w.id === wineId)) badRequest(`unknown wine ${wineId}`);
+    return {
+      dateISO: date,
+      wineId,
+      bottles: int(line.bottles, `lines[${i}].bottles`, 1, 99999),
+      supplierId,
+      invoiceNo,
+      unitCost: line.unitCost == null ? undefined : int(line.unitCost, `lines[${i}].unitCost`, 0, 9999999),
+      note,
+    };
+  });
+}
+
+/** One invoice (all lines on its date); a closed day (締め) rejects it with 423 like its sales. */
+export function addDeliveries(storeId: string, inputs: DeliveryInput[]): Promise<Delivery[]> {
+  return whileOpen(storeId, inputs[0].dateISO, () =>
+    updateJson<Partial<InventoryFile>, Delivery[]>(fileFor(storeId), {}, (inv) => {
+      const stamp = Date.now().toString(36);
+      const added = inputs.map((input, i) => ({ ...input, id: `D-${stamp}-${i + 1}` }));
+      return { next: { ...EMPTY, ...inv, deliveries: [...(inv.deliveries ?? []), ...added] }, result: added };
+    })
+  );
+}
+
+// --- Stocktakes
+
+export async function getStocktake(storeId: string, date: string): Promise<Stocktake> {
+  return (await readInventory(storeId)).stocktakes[date] ?? { dateISO: date, counts: {}, savedAt: null };
+}
+
+export async function parseCounts(v: unknown): Promise<Record<string, number>> {
+  const known = new Set((await listWines()).map((w) => w.id));
+  const out: Record<string, number> = {};
+  for (const [wineId, n] of Object.entries(obj(v, "counts"))) {
+    if (!known.has(wineId)) badRequest(`unknown wine ${wineId}`);
+    out[wineId] = int(n, `counts.${wineId}`, 0, 99999);
+  }
+  return out;
+}
+
+/** Replaces the counts of a day; a closed day (締め) rejects them with 423 like its sales. */
+export function saveStocktake(storeId: string, date: string, counts: Record<string, number>): Promise<Stocktake> {
+  return whileOpen(storeId, date, () =>
+    updateJson<Partial<InventoryFile>, Stocktake>(fileFor(storeId), {}, (inv) => {
+      const stocktake: Stocktake = { dateISO: date, counts, savedAt: new Date().toISOString() };
+      return {
+        next: { ...EMPTY, ...inv, stocktakes: { ...inv.stocktakes, [date]: stocktake } },
+        result: stocktake,
+      };
+    })
+  );
+}
+
+// --- Ledger
+
+/**
+ * Movements per wine from its opening count up to and including `until`, with a running
+ * balance. Wines without an opening count have no ledger.
+ */
+export async function buildLedger(storeId: string, until?: string): Promise<Record<string, StockMovement[]>> {
+  const [inv, wines, settings] = await Promise.all([readInventory(storeId), listWines(), getSettings()]);
+  const openings = Object.values(inv.openings);
+  if (openings.length === 0) return {};
+  const from = openings.reduce((min, o) => (o.dateISO < min ? o.dateISO : min), openings[0].dateISO);
+  const days = await listDays(storeId, from, until);
+  const wineById = new Map<string, Wine>(wines.map((w) => [w.id, w]));
+
+  const out: Record<string, StockMovement[]> = {};
+  for (const opening of openings) {
+    const wine = wineById.get(opening.wineId);
+    if (!wine) continue;
+    let balance = opening.bottles;
+    const moves: StockMovement[] = [{ dateISO: opening.dateISO, kind: "opening", bottles: opening.bottles, balance }];
+    const push = (dateISO: string, kind: StockMovement["kind"], bottles: number) => {
+      if (!bottles) return;
+      balance += bottles;
+      moves.push({ dateISO, kind, bottles, balance });
+    };
+
+    const deliveries = inv.deliveries.filter(
+      (d) => d.wineId === wine.id && d.dateISO >= opening.dateISO && (!until || d.dateISO <= until)
+    );
+    const counted = Object.values(inv.stocktakes)
+      .filter((s) => s.counts[wine.id] !== undefined && (!until || s.dateISO <= until))
+      .map((s) => s.dateISO);
+    const dates = new Set([...deliveries.map((d) => d.dateISO), ...days.map((d) => d.dateISO), ...counted]);
+    for (const date of [...dates].filter((d) => d >= opening.dateISO).sort()) {
+      for (const d of deliveries) if (d.dateISO === date) push(date, "delivery", d.bottles);
+      const day = days.find((d) => d.dateISO === date);
+      if (day) {
+        push(date, "sale", -(day.sales[wine.id]?.bottleQty || 0));
+        push(date, "broken", -(day.losses[wine.id]?.brokenBottles || 0));
+        const opened = deriveOpened(day, [wine], day.carryInMl, settings.defaultPourMl)[wine.id];
+        push(date, "glass", -(opened?.openedBottles || 0));
+      }
+      const count = inv.stocktakes[date]?.counts[wine.id];
+      if (count !== undefined) push(date, "adjustment", count - balance);
+    }
+    out[wine.id] = moves;
+  }
+  return out;
+}
+
+/** Expected stock of every wine with a ledger, around `date`. */
+export async function stockPositions(storeId: string, date: string): Promise<Record<string, StockPosition>> {
+  const ledger = await buildLedger(storeId, date);
+  const out: Record<string, StockPosition> = {};
+  for (const [wineId, moves] of Object.entries(ledger)) {
+    const opening = moves[0];
+    if (opening.dateISO > date) continue;
+    const before = moves.filter((m) => m.dateISO < date);
+    const startBottles = before.length ? before[before.length - 1].balance : opening.balance;
+    const today = moves.filter((m) => m.dateISO === date && m.kind !== "opening");
+    const deliveredBottles = today.filter((m) => m.kind === "delivery").reduce((sum, m) => sum + m.bottles, 0);
+    out[wineId] = {
+      wineId,
+      openingDate: opening.dateISO,
+      startBottles,
+      deliveredBottles,
+      endBottles: moves[moves.length - 1].balance,
+    };
+  }
+  return out;
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+import { HttpError, notFound } from "./http";
+import { readBlob, writeBlob } from "./store";
+
+/**
+ * Loss photos (a broken bottle, a faulty cork) kept for supplier claims in
+ * data/photos/<id>. The id is a random UUID plus the image's extension; loss lines refer
+ * to photos by id (LossLine.photoIds). Photos are never deleted by the app: a claim may
+ * need one after the line was edited.
+ */
+
+export const PHOTO_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(jpg|png|webp)$/;
+
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" };
+
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(Object.entries(EXTENSIONS).map(([t, ext]) => [ext, t]));
+
+const tooLarge = () => new HttpError(413, `photo must be at most ${MAX_PHOTO_BYTES} bytes`);
+
+/**
+ * The request body, refused as soon as it is known to be too large: by its Content-Length
+ * before anything is read, else while streaming, without buffering the rest.
+ */
+export async function readPhotoBody(req: Request): Promise<Buffer> {
+  if (Number(req.headers.get("Content-Length") ?? 0) > MAX_PHOTO_BYTES) throw tooLarge();
+  if (!req.body) return Buffer.alloc(0);
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_PHOTO_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function savePhoto(contentType: string, data: Buffer): Promise<string> {
+  const ext = EXTENSIONS[contentType.split(";")[0].trim()];
+  if (!ext) throw new HttpError(415, "photo must be a JPEG, PNG or WebP image");
+  if (data.length === 0) throw new HttpError(400, "photo is empty");
+  if (data.length > MAX_PHOTO_BYTES) throw tooLarge();
+  const id = `${randomUUID()}.${ext}`;
+  await writeBlob(`photos/${id}`, data);
+  return id;
+}
+
+export async function readPhoto(id: string): Promise<{ data: Buffer; contentType: string }> {
+  if (!PHOTO_ID_RE.test(id)) notFound(`photo ${id} not found`);
+  const data = await readBlob(`photos/${id}`);
+  if (!data) notFound(`photo ${id} not found`);
+  return { data, contentType: CONTENT_TYPES[id.slice(id.lastIndexOf(".") + 1)] };
+}
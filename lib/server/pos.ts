@@ -0,0 +1,168 @@
+import * as XLSX from "xlsx";
+import type { ImportRowError, PosImport, PosItem, PosMapping, PosUnit, SaleLine } from "@/lib/types";
+import { badRequest } from "./http";
+import { columnIndex, readSheet } from "./import";
+import { readJson, updateJson } from "./store";
+import { obj, str } from "./validate";
+import { listWines } from "./wines";
+
+/**
+ * POS sales import. A POS export (CSV, .xlsx or JSON) lists items sold by POS item code;
+ * data/pos-mappings.json maps each code to a wine and a unit (bottle or glass), shared by
+ * every store like the wine master. The import only reads the file: the mapped quantities
+ * are offered to the device as a prefill of the day's sales, saved like any other edit.
+ */
+
+const FILE = "pos-mappings";
+
+type PosField = "code" | "name" | "qty" | "date";
+
+const POS_HEADERS: Record<PosField, string[]> = {
+  code: ["item code", "code", "plu", "sku", "商品コード", "コード"],
+  name: ["item name", "name", "商品名", "品名"],
+  qty: ["qty", "quantity", "count", "数量", "販売数", "点数"],
+  date: ["date", "business date", "日付", "営業日"],
+};
+
+const POS_UNITS: PosUnit[] = ["bottle", "glass"];
+
+const MAX_QTY = 999;
+
+const text = (v: unknown) => String(v ?? "").trim();
+
+export function listPosMappings(): Promise<PosMapping[]> {
+  return readJson<PosMapping[]>(FILE, []);
+}
+
+/** Validates the whole table (PUT replaces it). Codes are unique; wines must exist. */
+export async function parsePosMappings(v: unknown): Promise<PosMapping[]> {
+  if (!Array.isArray(v)) badRequest("mappings must be an array");
+  const known = new Set((await listWines()).map((w) => w.id));
+  const seen = new Set<string>();
+  return v.map((raw, i) => {
+    const field = `mappings[${i}]`;
+    const m = obj(raw, field);
+    const code = str(m.code, `${field}.code`);
+    if (!code) badRequest(`${field}.code must not be empty`);
+    if (seen.has(code)) badRequest(`duplicate POS code ${code}`);
+    seen.add(code);
+    const wineId = str(m.wineId, `${field}.wineId`);
+    if (!known.has(wineId)) badRequest(`unknown wine ${wineId}`);
+    const unit = m.unit as PosUnit;
+    if (!POS_UNITS.includes(unit)) badRequest(`${field}.unit must be bottle or glass`);
+    return { code, wineId, unit };
+  });
+}
+
+export function savePosMappings(mappings: PosMapping[]): Promise<PosMapping[]> {
+  return updateJson<PosMapping[], PosMapping[]>(FILE, [], () => ({ next: mappings, result: mappings }));
+}
+
+// JSON exports are an array of objects (or { items: [...] }); they are turned into rows
+// with a header so both formats share the column matching.
+function jsonRows(data: Buffer): unknown[][] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data.toString("utf8").replace(/^\uFEFF/, ""));
+  } catch {
+    return [];
+  }
+  const record = parsed as Record<string, unknown> | null;
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(record?.items) ? record.items : record?.sales;
+  if (!Array.isArray(list)) return [];
+  const items = list.filter((x): x is Record<string, unknown> => !!x && typeof x === "object");
+  const header = [...new Set(items.flatMap((x) => Object.keys(x)))];
+  return [header, ...items.map((x) => header.map((k) => x[k] ?? ""))];
+}
+
+const isJson = (data: Buffer) => /^\s*[[{]/.test(data.subarray(0, 64).toString("utf8").replace(/^\uFEFF/, ""));
+
+// Cells as the POS writes them: 2024-05-01, 2024/5/1, or an Excel date serial.
+function cellDate(v: unknown): string | null {
+  if (typeof v === "number") {
+    const d = XLSX.SSF.parse_date_code(v);
+    return d ? `${d.y}-${String(d.m).padStart(2, "0")}-${String(d.d).padStart(2, "0")}` : null;
+  }
+  const m = text(v).match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  return m ? `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}` : null;
+}
+
+// Refunds come out as negative quantities and are netted against the sales.
+function cellQty(v: unknown): number | null {
+  if (typeof v === "number" && Number.isInteger(v)) return v;
+  const s = text(v).replace(/[,\s]/g, "");
+  return /^-?\d+$/.test(s) ? parseInt(s, 10) : null;
+}
+
+/** Quantities per POS code for `dateISO`. Rows with a date column for another day are skipped. */
+export function parsePosRows(
+  rows: unknown[][],
+  dateISO: string
+): { items: PosItem[]; skippedRows: number; errors: ImportRowError[] } {
+  const errors: ImportRowError[] = [];
+  const byCode = new Map<string, PosItem>();
+  let skippedRows = 0;
+  if (rows.length === 0) return { items: [], skippedRows, errors: [{ row: 1, message: "ファイルが空です" }] };
+
+  const col = columnIndex(rows[0], POS_HEADERS);
+  for (const f of ["code", "qty"] as const) {
+    if (col[f] === undefined) errors.push({ row: 1, message: `列「${POS_HEADERS[f][0]}」が見つかりません` });
+  }
+  if (errors.length) return { items: [], skippedRows, errors };
+
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    const cell = (f: PosField) => (col[f] === undefined ? undefined : cells[col[f]!] ?? "");
+    const fail = (message: string) => {
+      errors.push({ row, message });
+    };
+    if (col.date !== undefined) {
+      const date = cellDate(cell("date"));
+      if (!date) return fail(`日付「${text(cell("date"))}」が読めません`);
+      if (date !== dateISO) {
+        skippedRows++;
+        return;
+      }
+    }
+    const code = text(cell("code"));
+    if (!code) return fail("商品コードが空です");
+    const qty = cellQty(cell("qty"));
+    if (qty === null) return fail(`${code}: 数量「${text(cell("qty"))}」が不正です`);
+    const item = byCode.get(code) ?? { code, name: text(cell("name")), qty: 0 };
+    byCode.set(code, { ...item, name: item.name || text(cell("name")), qty: item.qty + qty });
+  });
+  return { items: [...byCode.values()], skippedRows, errors };
+}
+
+/** Maps summed POS items to sale lines; codes without a mapping are returned as-is. */
+export function mapPosItems(
+  items: PosItem[],
+  mappings: PosMapping[]
+): { sales: Record<string, SaleLine>; unmapped: PosItem[] } {
+  const byCode = new Map(mappings.map((m) => [m.code, m]));
+  const sales: Record<string, SaleLine> = {};
+  const unmapped: PosItem[] = [];
+  for (const item of items) {
+    const m = byCode.get(item.code);
+    if (!m) {
+      unmapped.push(item);
+      continue;
+    }
+    const line = sales[m.wineId] ?? { wineId: m.wineId, bottleQty: 0, glassQty: 0 };
+    if (m.unit === "bottle") line.bottleQty += item.qty;
+    else line.glassQty += item.qty;
+    sales[m.wineId] = line;
+  }
+  for (const line of Object.values(sales)) {
+    line.bottleQty = Math.min(Math.max(line.bottleQty, 0), MAX_QTY);
+    line.glassQty = Math.min(Math.max(line.glassQty, 0), MAX_QTY);
+  }
+  return { sales, unmapped: unmapped.sort((a, b) => a.code.localeCompare(b.code)) };
+}
+
+export async function readPosImport(data: Buffer, dateISO: string): Promise<PosImport> {
+  const rows = isJson(data) ? jsonRows(data) : readSheet(data, "");
+  const { items, skippedRows, errors } = parsePosRows(rows, dateISO);
+  const { sales, unmapped } = mapPosItems(items, await listPosMappings());
+  return { dateISO, rows: Math.max(rows.length - 1, 0), skippedRows, errors, sales, unmapped };
+}
@@ -0,0 +1,41 @@
+import type { Preferences } from "@/lib/types";
+import { badRequest } from "./http";
+import { readJson, updateJson } from "./store";
+import { str } from "./validate";
+import { listWines } from "./wines";
+
+/**
+ * Per-user preferences in data/preferences.json, keyed by user ID: favorite wines and the
+ * user's own list order. Users only ever read and write their own entry.
+ */
+
+const FILE = "preferences";
+
+const EMPTY: Preferences = { favorites: [], order: [] };
+
+export async function getPreferences(userId: string): Promise<Preferences> {
+  return { ...EMPTY, ...(await readJson<Record<string, Preferences>>(FILE, {}))[userId] };
+}
+
+async function wineIds(v: unknown, field: string, known: Promise<Set<string>>): Promise<string[]> {
+  if (!Array.isArray(v)) badRequest(`${field} must be an array`);
+  const ids = v.map((x, i) => str(x, `${field}[${i}]`));
+  const wines = await known;
+  for (const id of ids) if (!wines.has(id)) badRequest(`unknown wine ${id}`);
+  return [...new Set(ids)];
+}
+
+export async function parsePreferencesPatch(body: Record<string, unknown>): Promise<Partial<Preferences>> {
+  const known = listWines().then((wines) => new Set(wines.map((w) => w.id)));
+  const out: Partial<Preferences> = {};
+  if (body.favorites !== undefined) out.favorites = await wineIds(body.favorites, "favorites", known);
+  if (body.order !== undefined) out.order = await wineIds(body.order, "order", known);
+  return out;
+}
+
+export function updatePreferences(userId: string, patch: Partial<Preferences>): Promise<Preferences> {
+  return updateJson<Record<string, Preferences>, Preferences>(FILE, {}, (all) => {
+    const prefs = { ...EMPTY, ...all[userId], ...patch };
+    return { next: { ...all, [userId]: prefs }, result: prefs };
+  });
+}
@@ -0,0 +1,59 @@
+import type { LossReason, LossType, Settings } from "@/lib/types";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { badRequest } from "./http";
+import { readJson, updateJson } from "./store";
+import { int, obj, str } from "./validate";
+
+/**
+ * Shop-wide settings in data/settings.json.
+ */
+
+const FILE = "settings";
+
+const REASON_ID_RE = /^[a-z0-9_]{1,32}$/;
+const LOSS_TYPES: LossType[] = ["none", "remaining_discard", "broken"];
+
+export async function getSettings(): Promise<Settings> {
+  return { ...DEFAULT_SETTINGS, ...(await readJson<Partial<Settings>>(FILE, {})) };
+}
+
+// The whole list is replaced; a reason is removed from the choices by disabling it, so
+// lines that already carry it keep a label.
+function lossReasons(v: unknown): LossReason[] {
+  if (!Array.isArray(v)) badRequest("lossReasons must be an array");
+  const seen = new Set<string>();
+  return v.map((raw, i) => {
+    const field = `lossReasons[${i}]`;
+    const r = obj(raw, field);
+    const id = str(r.id, `${field}.id`);
+    if (!REASON_ID_RE.test(id)) badRequest(`${field}.id must be lowercase letters, digits or _`);
+    if (seen.has(id)) badRequest(`duplicate loss reason ${id}`);
+    seen.add(id);
+    const label = str(r.label, `${field}.label`);
+    if (!label) badRequest(`${field}.label must not be empty`);
+    const lossType = r.lossType as LossType;
+    if (!LOSS_TYPES.includes(lossType)) badRequest(`${field}.lossType is invalid`);
+    if (r.isActive !== undefined && typeof r.isActive !== "boolean") badRequest(`${field}.isActive must be a boolean`);
+    return r.isActive === false ? { id, label, lossType, isActive: false } : { id, label, lossType };
+  });
+}
+
+export function parseSettingsPatch(body: Record<string, unknown>): Partial<Settings> {
+  const out: Partial<Settings> = {};
+  if (body.defaultPourMl !== undefined) out.defaultPourMl = int(body.defaultPourMl, "defaultPourMl", 1, 1000);
+  if (body.varianceThresholdBottles !== undefined) {
+    out.varianceThresholdBottles = int(body.varianceThresholdBottles, "varianceThresholdBottles", 0, 999);
+  }
+  if (body.businessDayCutoffHour !== undefined) {
+    out.businessDayCutoffHour = int(body.businessDayCutoffHour, "businessDayCutoffHour", 0, 12);
+  }
+  if (body.lossReasons !== undefined) out.lossReasons = lossReasons(body.lossReasons);
+  return out;
+}
+
+export function updateSettings(patch: Partial<Settings>): Promise<Settings> {
+  return updateJson<Partial<Settings>, Settings>(FILE, {}, (current) => {
+    const next = { ...DEFAULT_SETTINGS, ...current, ...patch };
+    return { next, result: next };
+  });
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Tiny JSON-file store for the route handlers.
+ * - One file per collection under WINEBAR_DATA_DIR (default: ./data).
+ * - Writes go through a temp file + rename so a crash never leaves half a file.
+ * - Read-modify-write is serialized per file inside this process.
+ */
+
+const DATA_DIR = process.env.WINEBAR_DATA_DIR || path.join(process.cwd(), "data");
+
+const locks = new Map<string, Promise<unknown>>();
+
+function filePath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+/** Names (without .json) of the files in a sub-directory, sorted. */
+export async function listJson(dir: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(path.join(DATA_DIR, dir));
+    return files
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => f.slice(0, -5))
+      .sort();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+export async function writeJson<T>(name: string, value: T): Promise<void> {
+  const file = filePath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+/** Binary files (e.g. photos) live next to the JSON, under `name` relative to the data dir. */
+export async function writeBlob(name: string, data: Buffer): Promise<void> {
+  const file = path.join(DATA_DIR, name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, file);
+}
+
+export async function readBlob(name: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(path.join(DATA_DIR, name));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** Runs `fn` holding the same per-file lock as `updateJson`, without writing the file. */
+export function withLock<R>(name: string, fn: () => Promise<R>): Promise<R> {
+  const prev = locks.get(name) ?? Promise.resolve();
+  const run = prev.then(fn);
+  // Keep the chain alive even if this update fails.
+  locks.set(
+    name,
+    run.catch(() => undefined)
+  );
+  return run;
+}
+
+export function updateJson<T, R>(
+  name: string,
+  fallback: T,
+  fn: (current: T) => { next: T; result: R } | Promise<{ next: T; result: R }>
+): Promise<R> {
+  return withLock(name, async () => {
+    const current = await readJson<T>(name, fallback);
+    const { next, result } = await fn(current);
+    await writeJson(name, next);
+    return result;
+  });
+}
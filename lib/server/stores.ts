@@ -0,0 +1,99 @@
+import type { Store } from "@/lib/types";
+import { DEFAULT_STORE_ID, STORE_HEADER } from "@/lib/stores";
+import { badRequest, HttpError, notFound } from "./http";
+import { readJson, updateJson } from "./store";
+import { str } from "./validate";
+import { listWines } from "./wines";
+
+/**
+ * Stores in data/stores.json. The first store (ST-001) always exists and keeps the data
+ * files from before stores existed (data/daily, data/inventory.json); every other store
+ * has the same files under data/stores/<id>/. The wine master is shared; a store with a
+ * `wineIds` list only offers those wines for input.
+ */
+
+const FILE = "stores";
+
+const SEED: Store[] = [{ id: DEFAULT_STORE_ID, name: "本店", isActive: true }];
+
+export async function listStores(): Promise<Store[]> {
+  const stores = await readJson<Store[]>(FILE, []);
+  return stores.length ? stores : SEED;
+}
+
+export async function getStore(id: string): Promise<Store> {
+  const store = (await listStores()).find((s) => s.id === id);
+  if (!store) notFound(`store ${id} not found`);
+  return store;
+}
+
+/**
+ * The store a request is for: X-Store-Id, then `?store=`, else the first store.
+ * A disabled store is refused (403) so nothing more is written to it.
+ */
+export async function storeFrom(req: Request): Promise<Store> {
+  const id = req.headers.get(STORE_HEADER) || new URL(req.url).searchParams.get("store") || DEFAULT_STORE_ID;
+  const store = await getStore(id);
+  if (store.isActive === false) throw new HttpError(403, `store ${id} is disabled`);
+  return store;
+}
+
+/** Data file `name` (as passed to readJson/updateJson/listJson) for a store. */
+export function storeFile(storeId: string, name: string): string {
+  return storeId === DEFAULT_STORE_ID ? name : `stores/${storeId}/${name}`;
+}
+
+function nextStoreId(stores: Store[]): string {
+  const max = Math.max(0, ...stores.map((s) => parseInt(s.id.slice(3), 10) || 0));
+  return `ST-${String(max + 1).padStart(3, "0")}`;
+}
+
+/** Validates a create/update body. `wineIds: null` goes back to every active wine. */
+export async function parseStoreInput(body: Record<string, unknown>, partial: boolean): Promise<Partial<Store>> {
+  const out: Partial<Store> = {};
+  if (!partial || body.name !== undefined) {
+    out.name = str(body.name, "name");
+    if (!out.name) badRequest("name must not be empty");
+  }
+  if (body.wineIds === null) out.wineIds = undefined;
+  else if (body.wineIds !== undefined) {
+    if (!Array.isArray(body.wineIds)) badRequest("wineIds must be an array or null");
+    const known = new Set((await listWines()).map((w) => w.id));
+    out.wineIds = body.wineIds.map((v, i) => {
+      const id = str(v, `wineIds[${i}]`);
+      if (!known.has(id)) badRequest(`unknown wine ${id}`);
+      return id;
+    });
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") badRequest("isActive must be a boolean");
+    out.isActive = body.isActive;
+  }
+  return out;
+}
+
+export function createStore(input: Partial<Store>): Promise<Store> {
+  return updateJson<Store[], Store>(FILE, [], (stored) => {
+    const stores = stored.length ? stored : SEED;
+    if (stores.some((s) => s.name === input.name)) throw new HttpError(409, `store ${input.name} already exists`);
+    const store: Store = { id: nextStoreId(stores), name: input.name!, ...input, isActive: input.isActive ?? true };
+    return { next: [...stores, store], result: store };
+  });
+}
+
+export function updateStore(id: string, patch: Partial<Store>): Promise<Store> {
+  return updateJson<Store[], Store>(FILE, [], (stored) => {
+    const stores = stored.length ? stored : SEED;
+    const idx = stores.findIndex((s) => s.id === id);
+    if (idx < 0) notFound(`store ${id} not found`);
+    if (patch.name && stores.some((s) => s.id !== id && s.name === patch.name)) {
+      throw new HttpError(409, `store ${patch.name} already exists`);
+    }
+    if (id === DEFAULT_STORE_ID && patch.isActive === false) throw new HttpError(409, "the first store cannot be disabled");
+    const store: Store = { ...stores[idx], ...patch, id };
+    if ("wineIds" in patch && !patch.wineIds) delete store.wineIds;
+    const next = stores.slice();
+    next[idx] = store;
+    return { next, result: store };
+  });
+}
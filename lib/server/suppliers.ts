@@ -0,0 +1,104 @@
+import type { Supplier } from "@/lib/types";
+import { badRequest, HttpError, notFound } from "./http";
+import { readJson, updateJson } from "./store";
+import { str } from "./validate";
+
+/**
+ * Supplier master (Supplier_Master sheet) persisted in data/suppliers.json.
+ * Like wines, suppliers are deactivated rather than deleted.
+ */
+
+const FILE = "suppliers";
+
+export const SUPPLIER_ID_RE = /^S-\d{3,}$/;
+
+export function listSuppliers(): Promise<Supplier[]> {
+  return readJson<Supplier[]>(FILE, []);
+}
+
+export async function getSupplier(id: string): Promise<Supplier> {
+  const supplier = (await listSuppliers()).find((s) => s.id === id);
+  if (!supplier) notFound(`supplier ${id} not found`);
+  return supplier;
+}
+
+function nextSupplierId(suppliers: Supplier[]): string {
+  let max = 0;
+  for (const s of suppliers) {
+    const n = parseInt(s.id.slice(2), 10);
+    if (n > max) max = n;
+  }
+  return `S-${String(max + 1).padStart(3, "0")}`;
+}
+
+/** Validates a create/update body. With `partial`, absent fields are left out. */
+export function parseSupplierInput(body: Record<string, unknown>, partial: boolean): Partial<Supplier> {
+  const out: Partial<Supplier> = {};
+  const has = (k: string) => body[k] !== undefined;
+
+  if (!partial && !has("name")) badRequest("name is required");
+  if (has("name")) {
+    out.name = str(body.name, "name");
+    if (!out.name) badRequest("name must not be empty");
+  }
+  if (has("contact")) out.contact = str(body.contact, "contact");
+  if (has("phone")) out.phone = str(body.phone, "phone");
+  if (has("email")) out.email = str(body.email, "email");
+  if (has("isActive")) {
+    if (typeof body.isActive !== "boolean") badRequest("isActive must be a boolean");
+    out.isActive = body.isActive;
+  }
+  return out;
+}
+
+export function createSupplier(body: Record<string, unknown>): Promise<Supplier> {
+  const input = parseSupplierInput(body, false);
+  return updateJson<Supplier[], Supplier>(FILE, [], (suppliers) => {
+    let id: string;
+    if (body.id !== undefined) {
+      id = str(body.id, "id");
+      if (!SUPPLIER_ID_RE.test(id)) badRequest("id must look like S-001");
+      if (suppliers.some((s) => s.id === id)) throw new HttpError(409, `supplier ${id} already exists`);
+    } else {
+      id = nextSupplierId(suppliers);
+    }
+    const supplier: Supplier = {
+      id,
+      name: input.name!,
+      contact: input.contact ?? "",
+      phone: input.phone ?? "",
+      email: input.email ?? "",
+      isActive: input.isActive ?? true,
+    };
+    return { next: [...suppliers, supplier], result: supplier };
+  });
+}
+
+export function updateSupplier(id: string, patch: Partial<Supplier>): Promise<Supplier> {
+  return updateJson<Supplier[], Supplier>(FILE, [], (suppliers) => {
+    const idx = suppliers.findIndex((s) => s.id === id);
+    if (idx < 0) notFound(`supplier ${id} not found`);
+    const supplier: Supplier = { ...suppliers[idx], ...patch, id };
+    const next = suppliers.slice();
+    next[idx] = supplier;
+    return { next, result: supplier };
+  });
+}
+
+export function deactivateSupplier(id: string): Promise<Supplier> {
+  return updateSupplier(id, { isActive: false });
+}
+
+/** Same one-write replacement as `importWines`. */
+export function importSuppliers(incoming: Supplier[]): Promise<Supplier[]> {
+  return updateJson<Supplier[], Supplier[]>(FILE, [], (suppliers) => {
+    const byId = new Map(incoming.map((s) => [s.id, s]));
+    const next = suppliers.map((s) => {
+      const row = byId.get(s.id);
+      if (row) return { ...s, ...row };
+      return s.isActive === false ? s : { ...s, isActive: false };
+    });
+    for (const s of incoming) if (!suppliers.some((cur) => cur.id === s.id)) next.push(s);
+    return { next, result: next };
+  });
+}
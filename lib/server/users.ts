@@ -0,0 +1,142 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import type { Role, User } from "@/lib/types";
+import { badRequest, HttpError, notFound } from "./http";
+import { readJson, updateJson } from "./store";
+import { str } from "./validate";
+
+/**
+ * Staff accounts in data/users.json. Each has a numeric PIN stored as a salted scrypt
+ * hash; only `User` (id, name, role, isActive) is ever returned from here.
+ * The first account is a manager, and the last active manager cannot be demoted or disabled.
+ */
+
+type StoredUser = User & { pinSalt: string; pinHash: string };
+
+const FILE = "users";
+
+const PIN_RE = /^\d{4,8}$/;
+
+const ROLES: Role[] = ["staff", "manager"];
+
+// Wrong PINs in a row before an account is locked for LOCK_MS (in memory; a restart clears it).
+const MAX_FAILURES = 5;
+const LOCK_MS = 5 * 60 * 1000;
+
+const failures = new Map<string, { count: number; lockedUntil: number }>();
+
+const toUser = ({ pinSalt: _s, pinHash: _h, ...user }: StoredUser): User => user;
+
+// Accounts created before roles existed: the first one becomes the manager.
+async function readUsers(): Promise<StoredUser[]> {
+  return withRoles(await readJson<StoredUser[]>(FILE, []));
+}
+
+function withRoles(users: StoredUser[]): StoredUser[] {
+  const hasManager = users.some((u) => u.role === "manager");
+  return users.map((u, i) => (u.role ? u : { ...u, role: !hasManager && i === 0 ? "manager" : "staff" }));
+}
+
+const isActiveManager = (u: User) => u.role === "manager" && u.isActive !== false;
+
+function hashPin(pin: string, salt: string): string {
+  return scryptSync(pin, salt, 32).toString("hex");
+}
+
+function withPin(pin: string): Pick<StoredUser, "pinSalt" | "pinHash"> {
+  const pinSalt = randomBytes(16).toString("hex");
+  return { pinSalt, pinHash: hashPin(pin, pinSalt) };
+}
+
+export async function listUsers(): Promise<User[]> {
+  return (await readUsers()).map(toUser);
+}
+
+export async function getUser(id: string): Promise<User> {
+  const user = (await listUsers()).find((u) => u.id === id);
+  if (!user) notFound(`user ${id} not found`);
+  return user;
+}
+
+function parsePin(v: unknown): string {
+  const pin = str(v, "pin");
+  if (!PIN_RE.test(pin)) badRequest("pin must be 4 to 8 digits");
+  return pin;
+}
+
+export function parseUserInput(body: Record<string, unknown>, partial: boolean): Partial<User> & { pin?: string } {
+  const out: Partial<User> & { pin?: string } = {};
+  if (!partial || body.name !== undefined) {
+    out.name = str(body.name, "name");
+    if (!out.name) badRequest("name must not be empty");
+  }
+  if (!partial || body.pin !== undefined) out.pin = parsePin(body.pin);
+  if (body.role !== undefined) {
+    if (!ROLES.includes(body.role as Role)) badRequest("role must be staff or manager");
+    out.role = body.role as Role;
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") badRequest("isActive must be a boolean");
+    out.isActive = body.isActive;
+  }
+  return out;
+}
+
+/**
+ * `authorize` runs inside the file lock and is told whether this is the first account
+ * (which becomes a manager), so two concurrent first sign-ups cannot both get through.
+ */
+export function createUser(
+  input: Partial<User> & { pin?: string },
+  authorize: (first: boolean) => Promise<void>
+): Promise<User> {
+  return updateJson<StoredUser[], User>(FILE, [], async (stored) => {
+    const users = withRoles(stored);
+    await authorize(users.length === 0);
+    if (users.some((u) => u.name === input.name)) throw new HttpError(409, `user ${input.name} already exists`);
+    const max = Math.max(0, ...users.map((u) => parseInt(u.id.slice(2), 10)));
+    const user: StoredUser = {
+      id: `U-${String(max + 1).padStart(3, "0")}`,
+      name: input.name!,
+      role: users.length === 0 ? "manager" : (input.role ?? "staff"),
+      isActive: input.isActive ?? true,
+      ...withPin(input.pin!),
+    };
+    return { next: [...users, user], result: toUser(user) };
+  });
+}
+
+export function updateUser(id: string, input: Partial<User> & { pin?: string }): Promise<User> {
+  return updateJson<StoredUser[], User>(FILE, [], (stored) => {
+    const users = withRoles(stored);
+    const idx = users.findIndex((u) => u.id === id);
+    if (idx < 0) notFound(`user ${id} not found`);
+    const { pin, ...patch } = input;
+    if (patch.name && users.some((u) => u.id !== id && u.name === patch.name)) {
+      throw new HttpError(409, `user ${patch.name} already exists`);
+    }
+    const user: StoredUser = { ...users[idx], ...patch, ...(pin ? withPin(pin) : {}), id };
+    const next = users.slice();
+    next[idx] = user;
+    if (!next.some(isActiveManager)) throw new HttpError(409, "at least one active manager is required");
+    return { next, result: toUser(user) };
+  });
+}
+
+/** The user if the PIN matches an active account, otherwise null; 429 while locked out. */
+export async function verifyPin(id: string, pin: string): Promise<User | null> {
+  const failed = failures.get(id);
+  if (failed && failed.lockedUntil > Date.now()) {
+    throw new HttpError(429, "too many wrong PINs, try again later", { lockedUntil: new Date(failed.lockedUntil).toISOString() });
+  }
+  const user = (await readUsers()).find((u) => u.id === id && u.isActive !== false);
+  if (!user) return null;
+  const a = Buffer.from(hashPin(pin, user.pinSalt), "hex");
+  const b = Buffer.from(user.pinHash, "hex");
+  if (a.length === b.length && timingSafeEqual(a, b)) {
+    failures.delete(id);
+    return toUser(user);
+  }
+  const count = (failed && failed.lockedUntil === 0 ? failed.count : 0) + 1;
+  failures.set(id, count >= MAX_FAILURES ? { count: 0, lockedUntil: Date.now() + LOCK_MS } : { count, lockedUntil: 0 });
+  return null;
+}
@@ -0,0 +1,34 @@
+import { badRequest } from "./http";
+
+/**
+ * Body field validators for the route handlers. Each one throws a 400 via `badRequest`.
+ */
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function str(v: unknown, field: string): string {
+  if (typeof v !== "string") badRequest(`${field} must be a string`);
+  return v.trim();
+}
+
+export function int(v: unknown, field: string, min = 0, max = Number.MAX_SAFE_INTEGER): number {
+  if (typeof v !== "number" || !Number.isInteger(v) || v < min || v > max) {
+    badRequest(`${field} must be an integer between ${min} and ${max}`);
+  }
+  return v;
+}
+
+export function dateISO(v: unknown, field = "dateISO"): string {
+  const s = str(v, field);
+  // Round-trip so that dates like 2024-02-30 (which Date rolls over) are rejected too.
+  const d = new Date(`${s}T00:00:00Z`);
+  if (!DATE_RE.test(s) || Number.isNaN(d.getTime()) || d.toISOString().slice(0, 10) !== s) {
+    badRequest(`${field} must be YYYY-MM-DD`);
+  }
+  return s;
+}
+
+export function obj(v: unknown, field: string): Record<string, unknown> {
+  if (!v || typeof v !== "object" || Array.isArray(v)) badRequest(`${field} must be an object`);
+  return v as Record<string, unknown>;
+}
@@ -0,0 +1,162 @@
+import type { Wine, WineColor } from "@/lib/types";
+import { normalizeJan } from "@/lib/barcode";
+import { badRequest, HttpError, notFound } from "./http";
+import { readJson, updateJson } from "./store";
+import { SUPPLIER_ID_RE } from "./suppliers";
+import { int, str } from "./validate";
+
+/**
+ * Wine master (Wine_Master sheet) persisted in data/wines.json.
+ * Wines are never deleted: deactivation flips `isActive` so past records keep resolving.
+ */
+
+const FILE = "wines";
+
+export const WINE_ID_RE = /^W-\d{3,}$/;
+
+export const WINE_COLORS: WineColor[] = ["red", "white", "sparkling", "rose", "orange", "dessert"];
+
+// First run: same 30 placeholders the prototype shipped with, so existing drafts still match.
+const SEED_WINES: Wine[] = Array.from({ length: 30 }).map((_, i) => {
+  const idx = i + 1;
+  return {
+    id: `W-${String(idx).padStart(3, "0")}`,
+    name: `Wine ${String(idx).padStart(2, "0")}`,
+    producer: "",
+    vintage: null,
+    color: WINE_COLORS[i % 4],
+    bottleSizeMl: 750,
+    price: 6000,
+    glassPrice: 1200,
+    unitCost: 2000,
+    isActive: true,
+  };
+});
+
+export function listWines(): Promise<Wine[]> {
+  return readJson<Wine[]>(FILE, SEED_WINES);
+}
+
+export async function getWine(id: string): Promise<Wine> {
+  const wine = (await listWines()).find((w) => w.id === id);
+  if (!wine) notFound(`wine ${id} not found`);
+  return wine;
+}
+
+function nextWineId(wines: Wine[]): string {
+  let max = 0;
+  for (const w of wines) {
+    const n = parseInt(w.id.slice(2), 10);
+    if (n > max) max = n;
+  }
+  return `W-${String(max + 1).padStart(3, "0")}`;
+}
+
+/** Validates a create/update body. With `partial`, absent fields are left out. */
+export function parseWineInput(body: Record<string, unknown>, partial: boolean): Partial<Wine> {
+  const out: Partial<Wine> = {};
+  const has = (k: string) => body[k] !== undefined;
+  const need = (k: string) => {
+    if (!partial && !has(k)) badRequest(`${k} is required`);
+    return has(k);
+  };
+
+  if (need("name")) {
+    out.name = str(body.name, "name");
+    if (!out.name) badRequest("name must not be empty");
+  }
+  if (has("producer")) out.producer = str(body.producer, "producer");
+  for (const k of ["country", "region", "grape"] as const) {
+    if (has(k)) out[k] = body[k] === null ? undefined : str(body[k], k) || undefined;
+  }
+  if (has("vintage")) out.vintage = body.vintage === null ? null : int(body.vintage, "vintage", 1900);
+  if (need("color")) {
+    if (!WINE_COLORS.includes(body.color as WineColor)) {
+      badRequest(`color must be one of ${WINE_COLORS.join(", ")}`);
+    }
+    out.color = body.color as WineColor;
+  }
+  if (has("bottleSizeMl")) out.bottleSizeMl = int(body.bottleSizeMl, "bottleSizeMl", 1);
+  if (has("price")) out.price = int(body.price, "price");
+  if (has("glassPrice")) out.glassPrice = body.glassPrice === null ? undefined : int(body.glassPrice, "glassPrice");
+  if (has("unitCost")) out.unitCost = body.unitCost === null ? undefined : int(body.unitCost, "unitCost");
+  if (has("pourMl")) out.pourMl = body.pourMl === null ? undefined : int(body.pourMl, "pourMl", 1, 1000);
+  if (has("supplierId")) {
+    out.supplierId = body.supplierId === null ? undefined : str(body.supplierId, "supplierId");
+    if (out.supplierId && !SUPPLIER_ID_RE.test(out.supplierId)) badRequest("supplierId must look like S-001");
+  }
+  if (has("jan")) {
+    out.jan = body.jan === null ? undefined : normalizeJan(str(body.jan, "jan"));
+    if (out.jan === "") badRequest("jan must be an 8, 12, 13 or 14 digit barcode");
+  }
+  if (has("isActive")) {
+    if (typeof body.isActive !== "boolean") badRequest("isActive must be a boolean");
+    out.isActive = body.isActive;
+  }
+  return out;
+}
+
+export function createWine(body: Record<string, unknown>): Promise<Wine> {
+  const input = parseWineInput(body, false);
+  return updateJson<Wine[], Wine>(FILE, SEED_WINES, (wines) => {
+    let id: string;
+    if (body.id !== undefined) {
+      id = str(body.id, "id");
+      if (!WINE_ID_RE.test(id)) badRequest("id must look like W-001");
+      if (wines.some((w) => w.id === id)) throw new HttpError(409, `wine ${id} already exists`);
+    } else {
+      id = nextWineId(wines);
+    }
+    const wine: Wine = {
+      id,
+      name: input.name!,
+      producer: input.producer ?? "",
+      vintage: input.vintage ?? null,
+      color: input.color!,
+      country: input.country,
+      region: input.region,
+      grape: input.grape,
+      bottleSizeMl: input.bottleSizeMl ?? 750,
+      price: input.price ?? 0,
+      glassPrice: input.glassPrice,
+      unitCost: input.unitCost,
+      pourMl: input.pourMl,
+      supplierId: input.supplierId,
+      jan: input.jan,
+      isActive: input.isActive ?? true,
+    };
+    return { next: [...wines, wine], result: wine };
+  });
+}
+
+export function updateWine(id: string, patch: Partial<Wine>): Promise<Wine> {
+  return updateJson<Wine[], Wine>(FILE, SEED_WINES, (wines) => {
+    const idx = wines.findIndex((w) => w.id === id);
+    if (idx < 0) notFound(`wine ${id} not found`);
+    const wine: Wine = { ...wines[idx], ...patch, id };
+    const next = wines.slice();
+    next[idx] = wine;
+    return { next, result: wine };
+  });
+}
+
+export function deactivateWine(id: string): Promise<Wine> {
+  return updateWine(id, { isActive: false });
+}
+
+/**
+ * Replaces the master with an imported list in one write: listed wines are created or
+ * updated, active wines missing from the list are deactivated.
+ */
+export function importWines(incoming: Wine[]): Promise<Wine[]> {
+  return updateJson<Wine[], Wine[]>(FILE, SEED_WINES, (wines) => {
+    const byId = new Map(incoming.map((w) => [w.id, w]));
+    const next = wines.map((w) => {
+      const row = byId.get(w.id);
+      if (row) return { ...w, ...row }; // keeps fields the sheet does not carry (pourMl, ...)
+      return w.isActive === false ? w : { ...w, isActive: false };
+    });
+    for (const w of incoming) if (!wines.some((cur) => cur.id === w.id)) next.push(w);
+    return { next, result: next };
+  });
+}
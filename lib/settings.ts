@@ -0,0 +1,11 @@
+import type { Settings } from "@/lib/types";
+import { DEFAULT_LOSS_REASONS } from "@/lib/losses";
+import { DEFAULT_POUR_ML } from "@/lib/opened";
+
+/** Used until data/settings.json says otherwise (and by the screens while offline). */
+export const DEFAULT_SETTINGS: Settings = {
+  defaultPourMl: DEFAULT_POUR_ML,
+  varianceThresholdBottles: 1,
+  businessDayCutoffHour: 5,
+  lossReasons: DEFAULT_LOSS_REASONS,
+};
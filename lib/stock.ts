@@ -0,0 +1,49 @@
+import type { DailyRecord, LossLine, SaleLine, StockPosition, Wine } from "@/lib/types";
+import type { OpenedBottle } from "@/lib/opened";
+
+/**
+ * Client-side view of the inventory ledger (lib/server/inventory.ts): the server gives the
+ * stock at the start of the day, the screen subtracts what is being entered right now.
+ */
+
+export function bottlesUsed(sale?: SaleLine, loss?: LossLine, opened?: OpenedBottle): number {
+  return (sale?.bottleQty || 0) + (loss?.brokenBottles || 0) + (opened?.openedBottles || 0);
+}
+
+export function expectedEndBottles(
+  pos: StockPosition | undefined,
+  sale?: SaleLine,
+  loss?: LossLine,
+  opened?: OpenedBottle
+): number | null {
+  if (!pos) return null;
+  return pos.startBottles + pos.deliveredBottles - bottlesUsed(sale, loss, opened);
+}
+
+export type VarianceLine = {
+  wineId: string;
+  expected: number;
+  counted: number;
+  gap: number; // counted - expected (negative = bottles missing)
+  flagged: boolean;
+};
+
+/** Counted vs expected for every wine that was counted and has a ledger. Worst gaps first. */
+export function varianceReport(
+  wines: Wine[],
+  positions: Record<string, StockPosition>,
+  record: DailyRecord,
+  opened: Record<string, OpenedBottle>,
+  counts: Record<string, number>,
+  thresholdBottles: number
+): VarianceLine[] {
+  const lines: VarianceLine[] = [];
+  for (const w of wines) {
+    const counted = counts[w.id];
+    const expected = expectedEndBottles(positions[w.id], record.sales?.[w.id], record.losses?.[w.id], opened[w.id]);
+    if (counted === undefined || expected === null) continue;
+    const gap = counted - expected;
+    lines.push({ wineId: w.id, expected, counted, gap, flagged: Math.abs(gap) > thresholdBottles });
+  }
+  return lines.sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap));
+}
@@ -0,0 +1,29 @@
+import type { Store, Wine } from "@/lib/types";
+
+/**
+ * Stores (bars) sharing one wine master. Requests name their store in the X-Store-Id
+ * header (or `?store=` for plain links such as the export download); without one they
+ * go to the first store, which keeps the data files written before stores existed.
+ * The device remembers the store it works for in localStorage.
+ */
+
+export const DEFAULT_STORE_ID = "ST-001";
+
+export const STORE_HEADER = "X-Store-Id";
+
+const STORE_KEY = "winebar.store";
+
+/** Active in the master and, if the store has its own wine list, on that list. */
+export function isActiveIn(wine: Wine, store?: Store | null): boolean {
+  if (wine.isActive === false) return false;
+  return !store?.wineIds || store.wineIds.includes(wine.id);
+}
+
+export function currentStoreId(): string {
+  if (typeof window === "undefined") return DEFAULT_STORE_ID;
+  return localStorage.getItem(STORE_KEY) || DEFAULT_STORE_ID;
+}
+
+export function setCurrentStoreId(storeId: string) {
+  localStorage.setItem(STORE_KEY, storeId);
+}
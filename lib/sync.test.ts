@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { DailyRecord, SaleLine, ServerDailyRecord } from "@/lib/types";
+import { emptyServerRecord, mergeLines, readOutbox, readRecord, replayOutbox, writeRecord } from "./sync";
+
+const sale = (wineId: string, bottleQty: number, glassQty: number): SaleLine => ({ wineId, bottleQty, glassQty });
+
+describe("mergeLines", () => {
+  it("takes each side's change when they touch different lines", () => {
+    const base = { "W-001": sale("W-001", 1, 0), "W-002": sale("W-002", 0, 1) };
+    const local = { "W-001": sale("W-001", 2, 0), "W-002": sale("W-002", 0, 1) };
+    const server = { "W-001": sale("W-001", 1, 0), "W-002": sale("W-002", 0, 3) };
+    const { merged, lines } = mergeLines("sales", base, local, server);
+    expect(lines).toEqual([]);
+    expect(merged).toEqual({ "W-001": sale("W-001", 2, 0), "W-002": sale("W-002", 0, 3) });
+  });
+
+  it("reports a line changed on both sides to different values", () => {
+    const base = { "W-001": sale("W-001", 1, 0) };
+    const { merged, lines } = mergeLines("sales", base, { "W-001": sale("W-001", 2, 0) }, { "W-001": sale("W-001", 3, 0) });
+    expect(merged).toEqual({});
+    expect(lines).toEqual([{ wineId: "W-001", local: sale("W-001", 2, 0), server: sale("W-001", 3, 0) }]);
+  });
+
+  it("treats an all-zero line as a missing one", () => {
+    const { merged, lines } = mergeLines("sales", {}, { "W-001": sale("W-001", 0, 0) }, {});
+    expect(lines).toEqual([]);
+    expect(merged).toEqual({});
+  });
+
+  it("keeps a line deleted locally deleted", () => {
+    const base = { "W-001": sale("W-001", 1, 0) };
+    const { merged, lines } = mergeLines("sales", base, {}, base);
+    expect(lines).toEqual([]);
+    expect(merged).toEqual({});
+  });
+});
+
+describe("replayOutbox", () => {
+  const storage = new Map<string, string>();
+  const fetchMock = vi.fn();
+
+  const draft = (dateISO: string, glassQty: number): DailyRecord => ({
+    dateISO,
+    storeId: "ST-001",
+    sales: { "W-001": sale("W-001", 0, glassQty) },
+    losses: {},
+    dirty: { sales: true },
+    base: emptyServerRecord(dateISO, "ST-001"),
+  });
+
+  const queue = (...dates: string[]) =>
+    storage.set("winebar.outbox", JSON.stringify(dates.map((dateISO) => ({ storeId: "ST-001", dateISO, part: "sales" }))));
+
+  const reply = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+  const saved = (rec: DailyRecord): ServerDailyRecord => ({
+    ...emptyServerRecord(rec.dateISO, "ST-001"),
+    sales: rec.sales,
+    salesSavedAt: "2025-01-06T12:00:00.000Z",
+  });
+
+  beforeEach(() => {
+    storage.clear();
+    fetchMock.mockReset();
+    vi.stubGlobal("localStorage", {
+      getItem: (k: string) => storage.get(k) ?? null,
+      setItem: (k: string, v: string) => storage.set(k, v),
+      removeItem: (k: string) => storage.delete(k),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("saves queued drafts and empties the outbox", async () => {
+    const rec = draft("2025-01-06", 2);
+    writeRecord(rec);
+    queue("2025-01-06");
+    fetchMock.mockResolvedValueOnce(reply(200, { record: saved(rec) }));
+
+    const res = await replayOutbox();
+    expect(res.saved.map((s) => s.dateISO)).toEqual(["2025-01-06"]);
+    expect(res.rejected).toEqual([]);
+    expect(readOutbox()).toEqual([]);
+    expect(readRecord("2025-01-06", "ST-001")?.dirty?.sales).toBe(false);
+  });
+
+  it("drops and reports a rejected save, then goes on with the next one", async () => {
+    const first = draft("2025-01-06", 2);
+    const second = draft("2025-01-07", 1);
+    writeRecord(first);
+    writeRecord(second);
+    queue("2025-01-06", "2025-01-07");
+    fetchMock
+      .mockResolvedValueOnce(reply(423, { error: "2025-01-06 is closed" }))
+      .mockResolvedValueOnce(reply(200, { record: saved(second) }));
+
+    const res = await replayOutbox();
+    expect(res.rejected).toEqual([
+      { storeId: "ST-001", dateISO: "2025-01-06", part: "sales", message: "2025-01-06 is closed" },
+    ]);
+    expect(res.saved.map((s) => s.dateISO)).toEqual(["2025-01-07"]);
+    expect(readOutbox()).toEqual([]);
+    // The rejected edits stay in the draft.
+    expect(readRecord("2025-01-06", "ST-001")?.sales).toEqual(first.sales);
+  });
+
+  it("keeps a save the server failed on queued", async () => {
+    writeRecord(draft("2025-01-06", 2));
+    queue("2025-01-06");
+    fetchMock.mockResolvedValueOnce(reply(500, { error: "boom" }));
+
+    const res = await replayOutbox();
+    expect(res.saved).toEqual([]);
+    expect(res.rejected).toEqual([]);
+    expect(readOutbox()).toHaveLength(1);
+  });
+
+  it("stops on 401 and keeps the rest queued", async () => {
+    writeRecord(draft("2025-01-06", 2));
+    writeRecord(draft("2025-01-07", 1));
+    queue("2025-01-06", "2025-01-07");
+    fetchMock.mockResolvedValue(reply(401, { error: "login required" }));
+
+    const res = await replayOutbox();
+    expect(res.loggedOut).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(readOutbox()).toHaveLength(2);
+  });
+
+  it("stops while still offline", async () => {
+    writeRecord(draft("2025-01-06", 2));
+    writeRecord(draft("2025-01-07", 1));
+    queue("2025-01-06", "2025-01-07");
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    const res = await replayOutbox();
+    expect(res.saved).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(readOutbox()).toHaveLength(2);
+  });
+});
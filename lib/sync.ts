@@ -0,0 +1,335 @@
+import type { DailyPart, DailyRecord, JournalEntry, LossLine, SaleLine, ServerDailyRecord } from "@/lib/types";
+import { ApiError, conflictRecord, postDailyLoss, postDailySales } from "@/lib/api";
+import { DEFAULT_STORE_ID } from "@/lib/stores";
+
+/**
+ * Draft persistence + offline sync for DailyRecord.
+ * - Every edit is written to localStorage (`writeRecord`) as before.
+ * - A save that fails because the device is offline goes into an outbox
+ *   (`winebar.outbox`) and is replayed by `replayOutbox` once we are back online.
+ * - Saves carry the `*SavedAt` of the server copy the draft started from. On 409 the
+ *   draft, its base and the server copy are merged line by line; lines changed on both
+ *   sides to different values come back as a `Conflict` for the user to resolve.
+ * - Each save sends the part's journal (lib/audit.ts); entries leave the draft once the
+ *   server has accepted them.
+ * - Drafts and queued saves belong to a store; the first store keeps the keys from before
+ *   stores existed, so drafts already on the device stay where they were.
+ */
+
+// --- Drafts
+
+export const recordStore = (rec: { storeId?: string }) => rec.storeId ?? DEFAULT_STORE_ID;
+
+export function lsKey(dateISO: string, storeId: string) {
+  return storeId === DEFAULT_STORE_ID ? `winebar.daily.${dateISO}` : `winebar.daily.${storeId}.${dateISO}`;
+}
+
+export function readRecord(dateISO: string, storeId: string): DailyRecord | null {
+  try {
+    const raw = localStorage.getItem(lsKey(dateISO, storeId));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed?.dateISO) return null;
+    return { ...parsed, storeId } as DailyRecord;
+  } catch {
+    return null;
+  }
+}
+
+export function writeRecord(rec: DailyRecord) {
+  localStorage.setItem(lsKey(rec.dateISO, recordStore(rec)), JSON.stringify(rec));
+}
+
+export function emptyRecord(dateISO: string, storeId: string): DailyRecord {
+  return { dateISO, storeId, sales: {}, losses: {} };
+}
+
+export function emptyServerRecord(dateISO: string, storeId: string): ServerDailyRecord {
+  return {
+    dateISO,
+    storeId,
+    sales: {},
+    losses: {},
+    salesSavedAt: null,
+    lossesSavedAt: null,
+    closedAt: null,
+    reopenLog: [],
+    carryInMl: {},
+    openRemainderMl: {},
+    audit: [],
+  };
+}
+
+/** Same store and date. */
+export const sameDay = (a: { dateISO: string; storeId?: string }, b: { dateISO: string; storeId?: string }) =>
+  a.dateISO === b.dateISO && recordStore(a) === recordStore(b);
+
+// Server copy wins for every part the draft has not touched since the last save.
+export function hydrateFromServer(draft: DailyRecord, server: ServerDailyRecord): DailyRecord {
+  if (!sameDay(draft, server)) return draft;
+  const base = draft.base ?? emptyServerRecord(draft.dateISO, recordStore(draft));
+  return {
+    ...draft,
+    sales: draft.dirty?.sales ? draft.sales : server.sales,
+    losses: draft.dirty?.losses ? draft.losses : server.losses,
+    closedAt: server.closedAt,
+    carryInMl: server.carryInMl,
+    base: {
+      ...base,
+      audit: server.audit,
+      ...(draft.dirty?.sales ? {} : { sales: server.sales, salesSavedAt: server.salesSavedAt }),
+      ...(draft.dirty?.losses ? {} : { losses: server.losses, lossesSavedAt: server.lossesSavedAt }),
+    },
+  };
+}
+
+// --- Outbox
+
+type OutboxEntry = { storeId?: string; dateISO: string; part: DailyPart }; // no storeId: queued before stores existed
+
+const OUTBOX_KEY = "winebar.outbox";
+
+export function readOutbox(): OutboxEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OUTBOX_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+}
+
+function enqueue(storeId: string, dateISO: string, part: DailyPart) {
+  const entries = readOutbox();
+  if (!entries.some((e) => sameDay(e, { storeId, dateISO }) && e.part === part)) {
+    writeOutbox([...entries, { storeId, dateISO, part }]);
+  }
+}
+
+function dequeue(storeId: string, dateISO: string, part: DailyPart) {
+  writeOutbox(readOutbox().filter((e) => !(sameDay(e, { storeId, dateISO }) && e.part === part)));
+}
+
+function isOffline(err: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  // fetch() rejects with a TypeError when the request never reached a server.
+  return err instanceof TypeError;
+}
+
+// --- Line merge
+
+type AnyLine = SaleLine | LossLine;
+
+export type LineConflict = {
+  wineId: string;
+  local?: AnyLine;
+  server?: AnyLine;
+};
+
+export type Conflict = {
+  storeId: string;
+  dateISO: string;
+  part: DailyPart;
+  server: ServerDailyRecord;
+  merged: Record<string, AnyLine>; // lines that merged cleanly
+  lines: LineConflict[]; // lines that need a decision
+};
+
+// Missing lines and all-zero lines mean the same thing.
+export function lineKey(part: DailyPart, line?: AnyLine): string {
+  if (!line) return "";
+  if (part === "sales") {
+    const l = line as SaleLine;
+    return l.bottleQty || l.glassQty ? `${l.bottleQty}/${l.glassQty}` : "";
+  }
+  const l = line as LossLine;
+  if (l.lossType === "none" && !l.brokenBottles && !l.reason && !l.note && !l.photoIds?.length) return "";
+  return `${l.lossType}/${l.brokenBottles}/${l.reason ?? ""}/${l.note ?? ""}/${(l.photoIds ?? []).join(",")}`;
+}
+
+export function mergeLines(
+  part: DailyPart,
+  base: Record<string, AnyLine>,
+  local: Record<string, AnyLine>,
+  server: Record<string, AnyLine>
+): { merged: Record<string, AnyLine>; lines: LineConflict[] } {
+  const merged: Record<string, AnyLine> = {};
+  const lines: LineConflict[] = [];
+  const ids = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(server)]);
+  for (const id of ids) {
+    const b = lineKey(part, base[id]);
+    const l = lineKey(part, local[id]);
+    const s = lineKey(part, server[id]);
+    if (l === s || l === b) {
+      if (server[id]) merged[id] = server[id];
+    } else if (s === b) {
+      if (local[id]) merged[id] = local[id];
+    } else {
+      lines.push({ wineId: id, local: local[id], server: server[id] });
+    }
+  }
+  return { merged, lines };
+}
+
+// --- Push
+
+export type PushResult =
+  | { status: "saved"; server: ServerDailyRecord; journal: JournalEntry[] }
+  | { status: "queued" }
+  | { status: "conflict"; conflict: Conflict };
+
+/**
+ * Sends one part of a draft. Offline → queued; 409 → merged and retried once if every
+ * line merged cleanly, otherwise returned as a conflict. Other errors are thrown.
+ */
+export async function pushPart(rec: DailyRecord, part: DailyPart): Promise<PushResult> {
+  const storeId = recordStore(rec);
+  const base = rec.base ?? emptyServerRecord(rec.dateISO, storeId);
+  const journal = (rec.journal ?? []).filter((e) => e.part === part);
+  const post = (lines: Record<string, AnyLine>, baseSavedAt: string | null) =>
+    part === "sales"
+      ? postDailySales(rec.dateISO, lines as Record<string, SaleLine>, baseSavedAt, journal, storeId)
+      : postDailyLoss(rec.dateISO, lines as Record<string, LossLine>, baseSavedAt, journal, storeId);
+  const savedAt = (r: ServerDailyRecord) => (part === "sales" ? r.salesSavedAt : r.lossesSavedAt);
+
+  try {
+    const server = await post(rec[part], savedAt(base));
+    dequeue(storeId, rec.dateISO, part);
+    return { status: "saved", server, journal };
+  } catch (err) {
+    if (isOffline(err)) {
+      enqueue(storeId, rec.dateISO, part);
+      return { status: "queued" };
+    }
+    const server = conflictRecord(err);
+    if (!server) throw err;
+
+    const { merged, lines } = mergeLines(part, base[part], rec[part], server[part]);
+    if (lines.length > 0) {
+      enqueue(storeId, rec.dateISO, part);
+      return { status: "conflict", conflict: { storeId, dateISO: rec.dateISO, part, server, merged, lines } };
+    }
+    const saved = await post(merged, savedAt(server));
+    dequeue(storeId, rec.dateISO, part);
+    return { status: "saved", server: saved, journal };
+  }
+}
+
+const journalKey = (e: JournalEntry) => `${e.part}/${e.wineId}/${e.by}/${e.at}`;
+
+/**
+ * Applies a successful save to the draft. If the part was edited while the request was
+ * in flight the edits stay dirty; only the base moves forward. The journal entries that
+ * went with the save are dropped either way.
+ */
+export function markSaved(
+  rec: DailyRecord,
+  part: DailyPart,
+  sent: Record<string, AnyLine>,
+  server: ServerDailyRecord,
+  sentJournal: JournalEntry[] = []
+): DailyRecord {
+  if (!sameDay(rec, server)) return rec;
+  const accepted = new Set(sentJournal.map(journalKey));
+  const journal = (rec.journal ?? []).filter((e) => !accepted.has(journalKey(e)));
+  const base = {
+    ...(rec.base ?? emptyServerRecord(rec.dateISO, recordStore(rec))),
+    audit: server.audit,
+    ...(part === "sales"
+      ? { sales: server.sales, salesSavedAt: server.salesSavedAt }
+      : { losses: server.losses, lossesSavedAt: server.lossesSavedAt }),
+  };
+  if (JSON.stringify(rec[part]) !== JSON.stringify(sent)) return { ...rec, base, journal };
+  return { ...rec, [part]: server[part], base, journal, dirty: { ...rec.dirty, [part]: false } };
+}
+
+/**
+ * Takes the user's picks from the merge screen: the part becomes the clean merge plus the
+ * chosen lines, rebased on the server copy the conflict was computed against.
+ */
+export function resolveConflict(
+  rec: DailyRecord,
+  conflict: Conflict,
+  picks: Record<string, "local" | "server">
+): DailyRecord {
+  const lines = { ...conflict.merged };
+  for (const c of conflict.lines) {
+    const chosen = picks[c.wineId] === "local" ? c.local : c.server;
+    if (chosen) lines[c.wineId] = chosen;
+    else delete lines[c.wineId];
+  }
+  const { part, server } = conflict;
+  return {
+    ...rec,
+    [part]: lines,
+    base: {
+      ...(rec.base ?? emptyServerRecord(rec.dateISO, recordStore(rec))),
+      audit: server.audit,
+      ...(part === "sales"
+        ? { sales: server.sales, salesSavedAt: server.salesSavedAt }
+        : { losses: server.losses, lossesSavedAt: server.lossesSavedAt }),
+    },
+    dirty: { ...rec.dirty, [part]: true },
+  };
+}
+
+/**
+ * Replays queued saves (call on start-up, on the `online` event and after a login). Each
+ * draft is read back from localStorage, pushed, and written back with the result.
+ * Entries are handled one by one: a save the server rejects (403, 423, 400 …) leaves the
+ * queue and is reported, its edits staying in the draft; a server error keeps it queued
+ * for the next replay. A 401 stops the replay until somebody logs in again.
+ */
+export type ReplayedSave = {
+  storeId: string;
+  dateISO: string;
+  part: DailyPart;
+  sent: Record<string, AnyLine>;
+  server: ServerDailyRecord;
+  journal: JournalEntry[];
+};
+
+export type RejectedSave = { storeId: string; dateISO: string; part: DailyPart; message: string };
+
+export type ReplayResult = {
+  saved: ReplayedSave[];
+  conflicts: Conflict[];
+  rejected: RejectedSave[];
+  loggedOut: boolean;
+};
+
+export async function replayOutbox(): Promise<ReplayResult> {
+  const saved: ReplayedSave[] = [];
+  const conflicts: Conflict[] = [];
+  const rejected: RejectedSave[] = [];
+  for (const entry of readOutbox()) {
+    const { dateISO, part } = entry;
+    const storeId = recordStore(entry);
+    const rec = readRecord(dateISO, storeId);
+    if (!rec) {
+      dequeue(storeId, dateISO, part);
+      continue;
+    }
+    let res: PushResult;
+    try {
+      res = await pushPart(rec, part);
+    } catch (err) {
+      if (!(err instanceof ApiError) || err.status >= 500 || err.status === 409) continue; // try again next time
+      if (err.status === 401) return { saved, conflicts, rejected, loggedOut: true };
+      dequeue(storeId, dateISO, part);
+      rejected.push({ storeId, dateISO, part, message: err.message });
+      continue;
+    }
+    if (res.status === "queued") break; // still offline
+    if (res.status === "conflict") {
+      conflicts.push(res.conflict);
+      continue;
+    }
+    writeRecord(markSaved(readRecord(dateISO, storeId) ?? rec, part, rec[part], res.server, res.journal));
+    saved.push({ storeId, dateISO, part, sent: rec[part], server: res.server, journal: res.journal });
+  }
+  return { saved, conflicts, rejected, loggedOut: false };
+}
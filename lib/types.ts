@@ -0,0 +1,268 @@
+/**
+ * Domain types shared by the input UI and the API route handlers.
+ */
+
+// --- Master
+
+export type WineColor = "red" | "white" | "sparkling" | "rose" | "orange" | "dessert";
+
+export type Wine = {
+  id: string; // Wine ID (e.g., W-001)
+  name: string;
+  producer: string;
+  vintage: number | null; // null = NV
+  color: WineColor;
+  country?: string; // e.g., フランス; with region and grape, groups the input grid (lib/grouping.ts)
+  region?: string; // e.g., ブルゴーニュ
+  grape?: string; // main grape(s), e.g., ピノ・ノワール
+  bottleSizeMl: number; // e.g., 750
+  price: number; // bottle price on the menu (JPY)
+  glassPrice?: number; // glass price on the menu (JPY)
+  unitCost?: number; // purchase cost per bottle (JPY)
+  pourMl?: number; // glass pour; falls back to Settings.defaultPourMl
+  supplierId?: string; // Supplier ID (e.g., S-001)
+  jan?: string; // JAN / EAN barcode on the label (lib/barcode.ts)
+  isActive?: boolean;
+};
+
+export type Supplier = {
+  id: string; // Supplier ID (e.g., S-001)
+  name: string;
+  contact: string; // person in charge
+  phone: string;
+  email: string;
+  isActive?: boolean;
+};
+
+// --- Master import
+
+export type ImportRowError = {
+  row: number; // 1-based spreadsheet row (header = 1)
+  message: string;
+};
+
+export type MasterKind = "wines" | "suppliers";
+
+export type MasterChange<T> = {
+  field: keyof T;
+  from: unknown;
+  to: unknown;
+};
+
+export type MasterDiff<T> =
+  | { kind: "new"; item: T }
+  | { kind: "changed"; item: T; changes: MasterChange<T>[] }
+  | { kind: "deactivated"; item: T } // active now, missing or inactive in the file
+  | { kind: "unchanged"; item: T };
+
+export type ImportPreview<T> = {
+  rows: number;
+  errors: ImportRowError[];
+  diff: MasterDiff<T>[];
+};
+
+// --- POS import
+
+export type PosUnit = "bottle" | "glass";
+
+/** POS item code → wine. Bottle and glass sales are separate POS items, so each code has a unit. */
+export type PosMapping = {
+  code: string;
+  wineId: string;
+  unit: PosUnit;
+};
+
+/** One POS item of an import, its quantity summed over the file's rows for the date. */
+export type PosItem = {
+  code: string;
+  name: string; // as printed by the POS, to help map unknown codes
+  qty: number;
+};
+
+/** Result of reading a POS export; nothing is saved until the sales are. */
+export type PosImport = {
+  dateISO: string;
+  rows: number; // data rows in the file
+  skippedRows: number; // rows for another date
+  errors: ImportRowError[];
+  sales: Record<string, SaleLine>; // mapped items per wine
+  unmapped: PosItem[]; // codes with no mapping
+};
+
+// --- Staff
+
+// staff: today's sales and losses only. manager: also past days, reopening, reset and the masters.
+export type Role = "staff" | "manager";
+
+/** Staff account for the shared tablet; the PIN hash never leaves the server. */
+export type User = {
+  id: string; // User ID (e.g., U-001)
+  name: string;
+  role: Role;
+  isActive?: boolean;
+};
+
+/** A user's own list preferences; kept on the server so they follow the user to any device and date. */
+export type Preferences = {
+  favorites: string[]; // wine IDs shown first
+  order: string[]; // wine IDs in the user's list order; wines not in it follow by name
+};
+
+// --- Stores
+
+/** One bar. Each store keeps its own daily records, inventory and wine list. */
+export type Store = {
+  id: string; // Store ID (e.g., ST-001)
+  name: string;
+  wineIds?: string[]; // the store's wine list; absent = every active wine in the master
+  isActive?: boolean;
+};
+
+// --- Daily input
+
+// Set by the server on save for lines that changed: who last changed the line and when.
+export type LineStamp = {
+  updatedBy?: string; // User ID
+  updatedAt?: string; // ISO timestamp
+};
+
+export type SaleLine = LineStamp & {
+  wineId: string;
+  bottleQty: number; // integer
+  glassQty: number; // integer
+};
+
+export type LossType = "none" | "remaining_discard" | "broken";
+
+/** Why wine was lost (Settings.lossReasons); picking one preselects its usual loss type. */
+export type LossReason = {
+  id: string; // e.g. corked
+  label: string;
+  lossType: LossType;
+  isActive?: boolean; // inactive reasons stay readable on old lines but are not offered
+};
+
+export type LossLine = LineStamp & {
+  wineId: string;
+  lossType: LossType;
+  brokenBottles: number; // integer
+  // remaining_discard has no manual ml: the server computes it from opened-bottle tracking
+  // (lib/opened.ts) on save, like the Excel sheet did.
+  discardMl?: number;
+  reason?: string; // LossReason id
+  note?: string;
+  photoIds?: string[]; // photos for supplier claims (GET /api/loss-photos/<id>)
+};
+
+export type DailyPart = "sales" | "losses";
+
+export type AuditAction = "edit" | "reset" | "pos_import";
+
+/** One change to a line, as made on the device (`upsertSale` / `upsertLoss` / `resetDay` / POS import). */
+export type JournalEntry = {
+  at: string; // ISO timestamp of the (last) edit
+  by: string; // User ID logged in on the device
+  part: DailyPart;
+  wineId: string;
+  action: AuditAction;
+  before: SaleLine | LossLine | null; // null = no line
+  after: SaleLine | LossLine | null;
+};
+
+/** A journal entry once the server has accepted it. */
+export type AuditEntry = JournalEntry & {
+  byName: string; // name at the time, kept if the account is renamed
+  savedBy: string; // User ID whose session sent the save (differs for replayed offline saves)
+};
+
+export type DailyRecord = {
+  dateISO: string; // YYYY-MM-DD
+  storeId?: string; // absent on drafts written before stores existed (= the first store)
+  sales: Record<string, SaleLine>;
+  losses: Record<string, LossLine>;
+  favorites?: Record<string, boolean>; // drafts from before per-user preferences; only read to seed them
+  closedAt?: string | null; // mirrors the server: set once the day is closed (read-only)
+  carryInMl?: Record<string, number>; // mirrors the server: open-bottle remainder from the previous day
+  // Local draft only: which parts have edits the server has not accepted yet.
+  dirty?: { sales?: boolean; losses?: boolean };
+  // Local draft only: the server copy the draft was last in sync with (3-way merge base).
+  base?: ServerDailyRecord;
+  // Local draft only: edits not yet sent with a save (see lib/audit.ts).
+  journal?: JournalEntry[];
+};
+
+export type ReopenEntry = {
+  at: string; // ISO timestamp
+  by: string; // manager who reopened the day
+  reason: string;
+};
+
+/** Server copy of a day. */
+export type ServerDailyRecord = {
+  dateISO: string;
+  storeId: string;
+  sales: Record<string, SaleLine>;
+  losses: Record<string, LossLine>;
+  salesSavedAt: string | null; // ISO timestamp of the last POST /daily-sales
+  lossesSavedAt: string | null; // ISO timestamp of the last POST /daily-loss
+  closedAt: string | null; // set by "締め"; a closed day rejects further saves
+  reopenLog: ReopenEntry[];
+  carryInMl: Record<string, number>; // ml left open at the end of the previous business day
+  openRemainderMl: Record<string, number>; // ml left open at the end of this day (after discards)
+  audit: AuditEntry[]; // every accepted line change, oldest first
+};
+
+// --- Inventory
+
+/** Physical count that starts a wine's ledger: bottles on hand at the start of dateISO. */
+export type OpeningCount = {
+  wineId: string;
+  dateISO: string;
+  bottles: number;
+};
+
+/** One invoice line received from a supplier. */
+export type Delivery = {
+  id: string;
+  dateISO: string;
+  wineId: string;
+  bottles: number;
+  supplierId?: string;
+  invoiceNo?: string;
+  unitCost?: number; // JPY per bottle, tax excluded
+  note?: string;
+};
+
+export type StockMovementKind = "opening" | "delivery" | "sale" | "broken" | "glass" | "adjustment";
+
+export type StockMovement = {
+  dateISO: string;
+  kind: StockMovementKind;
+  bottles: number; // signed: + in, - out (opening is the absolute count)
+  balance: number;
+};
+
+/** Bottles actually counted in the cellar at the end of dateISO (棚卸). */
+export type Stocktake = {
+  dateISO: string;
+  counts: Record<string, number>;
+  savedAt: string | null;
+};
+
+/** Expected stock of one wine around a given date. */
+export type StockPosition = {
+  wineId: string;
+  openingDate: string;
+  startBottles: number; // at the start of the day, before its deliveries
+  deliveredBottles: number; // received that day
+  endBottles: number; // after the day's saved sales and losses
+};
+
+// --- Settings
+
+export type Settings = {
+  defaultPourMl: number; // glass pour used when a wine has no pourMl
+  varianceThresholdBottles: number; // stocktake gaps larger than this are flagged
+  businessDayCutoffHour: number; // 0–12; until this hour the previous business day is still open
+  lossReasons: LossReason[];
+};
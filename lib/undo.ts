@@ -0,0 +1,92 @@
+import type { DailyPart, DailyRecord, LossLine, SaleLine } from "@/lib/types";
+import { recordEdit } from "@/lib/audit";
+import { lineKey } from "@/lib/sync";
+
+/**
+ * Undo / redo over the lines of the draft being edited (quantities, loss types, reset).
+ * Each step keeps the sales and losses as they were before the change. Going back is
+ * itself an edit: it is journaled like any other change and marks the parts dirty.
+ * History lives in memory only and is cleared when the date changes.
+ */
+
+export type UndoStep = {
+  label: string; // what the step undoes, e.g. "リセット"
+  sales: Record<string, SaleLine>;
+  losses: Record<string, LossLine>;
+  key?: string; // steps with the same key in quick succession merge (typing, repeated taps)
+  at: number; // Date.now() when recorded
+};
+
+export type UndoHistory = { past: UndoStep[]; future: UndoStep[] };
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+const MAX_STEPS = 100;
+
+const MERGE_MS = 1500;
+
+const snapshot = (rec: DailyRecord, label: string, key?: string): UndoStep => ({
+  label,
+  sales: rec.sales ?? {},
+  losses: rec.losses ?? {},
+  key,
+  at: Date.now(),
+});
+
+/** Records the state before a change. A new change clears the redo side. */
+export function remember(history: UndoHistory, rec: DailyRecord, label: string, key?: string): UndoHistory {
+  const last = history.past[history.past.length - 1];
+  if (key && last?.key === key && Date.now() - last.at < MERGE_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, at: Date.now() }], future: [] };
+  }
+  return { past: [...history.past, snapshot(rec, label, key)].slice(-MAX_STEPS), future: [] };
+}
+
+function changedParts(a: DailyRecord, b: UndoStep): DailyPart[] {
+  return (["sales", "losses"] as const).filter((part) => {
+    const ids = new Set([...Object.keys(a[part] ?? {}), ...Object.keys(b[part])]);
+    return [...ids].some((id) => lineKey(part, a[part]?.[id]) !== lineKey(part, b[part][id]));
+  });
+}
+
+/** Puts the step's lines back into the record, journaling each line that changes. */
+function restore(rec: DailyRecord, step: UndoStep, by: string): DailyRecord {
+  let journal = rec.journal ?? [];
+  const dirty = { ...rec.dirty };
+  for (const part of changedParts(rec, step)) {
+    const ids = new Set([...Object.keys(rec[part] ?? {}), ...Object.keys(step[part])]);
+    for (const id of ids) journal = recordEdit(journal, part, id, rec[part]?.[id], step[part][id], by);
+    dirty[part] = true;
+  }
+  return { ...rec, sales: step.sales, losses: step.losses, journal, dirty };
+}
+
+/** One step back; null when there is nothing to undo. */
+export function undo(
+  history: UndoHistory,
+  rec: DailyRecord,
+  by: string
+): { history: UndoHistory; record: DailyRecord; step: UndoStep } | null {
+  const step = history.past[history.past.length - 1];
+  if (!step) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, snapshot(rec, step.label)] },
+    record: restore(rec, step, by),
+    step,
+  };
+}
+
+/** Re-applies the last undone step; null when there is nothing to redo. */
+export function redo(
+  history: UndoHistory,
+  rec: DailyRecord,
+  by: string
+): { history: UndoHistory; record: DailyRecord; step: UndoStep } | null {
+  const step = history.future[history.future.length - 1];
+  if (!step) return null;
+  return {
+    history: { past: [...history.past, snapshot(rec, step.label)], future: history.future.slice(0, -1) },
+    record: restore(rec, step, by),
+    step,
+  };
+}
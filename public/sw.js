@@ -0,0 +1,93 @@
+/**
+ * Service worker: keeps the input screen usable when the bar's Wi-Fi is down.
+ * - Pages: network first, the cached copy when offline (any page falls back to "/").
+ * - Next.js build assets (/_next/static, content-hashed): cache first.
+ * - Wine master (GET /api/wines): network first, the last good response when offline,
+ *   kept per store since ?active=1 depends on X-Store-Id.
+ * Everything else (saves, other API calls) goes straight to the network; drafts live in
+ * localStorage and are synced by lib/sync.ts once the server is reachable again.
+ * Bump VERSION when this file's caching changes; old caches are dropped on activate.
+ */
+
+const VERSION = "v1";
+const SHELL_CACHE = `winebar-shell-${VERSION}`;
+const DATA_CACHE = `winebar-data-${VERSION}`;
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-192.png", "/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => keys.filter((k) => k !== SHELL_CACHE && k !== DATA_CACHE))
+      .then((stale) => Promise.all(stale.map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page that registered the worker loaded its scripts before the worker existed;
+// it sends their URLs here so the first visit is enough to work offline.
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-assets" || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter(
+    (u) => typeof u === "string" && new URL(u, self.location.origin).pathname.startsWith("/_next/static/")
+  );
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => Promise.all(urls.map((u) => cache.add(u).catch(() => {})))));
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (req.mode === "navigate") event.respondWith(page(req));
+  else if (url.pathname.startsWith("/_next/static/")) event.respondWith(asset(req));
+  else if (url.pathname === "/api/wines") event.respondWith(wines(req, url));
+});
+
+async function page(req) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(req);
+    if (res.ok) cache.put(req, res.clone());
+    return res;
+  } catch (err) {
+    const cached = (await cache.match(req, { ignoreSearch: true })) || (await cache.match("/"));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function asset(req) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(req);
+  if (cached) return cached;
+  const res = await fetch(req);
+  if (res.ok) cache.put(req, res.clone());
+  return res;
+}
+
+async function wines(req, url) {
+  const key = new URL(url);
+  key.searchParams.set("store", req.headers.get("X-Store-Id") || "");
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const res = await fetch(req);
+    if (res.ok) cache.put(key.href, res.clone());
+    return res;
+  } catch (err) {
+    const cached = await cache.match(key.href, { ignoreVary: true });
+    if (cached) return cached;
+    throw err;
+  }
+}